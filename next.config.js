@@ -5,6 +5,10 @@ const nextConfig = {
     TARGET_ORGANIZATIONS: process.env.TARGET_ORGANIZATIONS,
     LOOK_BACK_DAYS: process.env.LOOK_BACK_DAYS,
     CACHE_TTL_MINUTES: process.env.CACHE_TTL_MINUTES,
+  },
+  experimental: {
+    // Starts the background sync scheduler (src/instrumentation.ts)
+    instrumentationHook: true,
   }
 }
 
@@ -0,0 +1,213 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  CircularProgress,
+  Alert,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  IconButton,
+  Collapse,
+  Chip,
+  Tooltip,
+  Button,
+  Snackbar
+} from '@mui/material';
+import { KeyboardArrowDown, KeyboardArrowUp, Refresh, RestartAlt } from '@mui/icons-material';
+import Header from '@/components/Header';
+import { ProfileListEntry, StrategySelectionReason } from '@/types/profiling';
+import { fetchRepositoryProfiles, invalidateRepositoryProfile } from '@/lib/apiClient';
+
+const REASON_COLORS: Record<StrategySelectionReason, 'default' | 'success' | 'warning'> = {
+  heuristic: 'default',
+  feedback: 'success',
+  exploration: 'warning'
+};
+
+// Most recent runs shown when a repository is expanded
+const HISTORY_ROWS = 20;
+
+function ProfileRow({ entry, onReprofile }: { entry: ProfileListEntry; onReprofile: (repo: string) => void }) {
+  const [open, setOpen] = useState(false);
+  const lastRun = entry.strategyMetrics[entry.strategyMetrics.length - 1];
+  const history = entry.strategyMetrics.slice(-HISTORY_ROWS).reverse();
+
+  return (
+    <>
+      <TableRow hover>
+        <TableCell padding="checkbox">
+          <IconButton size="small" onClick={() => setOpen(!open)} disabled={entry.strategyMetrics.length === 0}>
+            {open ? <KeyboardArrowUp /> : <KeyboardArrowDown />}
+          </IconButton>
+        </TableCell>
+        <TableCell>{entry.repositoryId}</TableCell>
+        <TableCell>
+          {entry.profile.repositoryType} ({(entry.profile.confidence * 100).toFixed(0)}%)
+        </TableCell>
+        <TableCell>
+          {lastRun ? (
+            <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+              {lastRun.strategy}
+              <Chip size="small" label={lastRun.reason} color={REASON_COLORS[lastRun.reason]} />
+            </Box>
+          ) : '—'}
+        </TableCell>
+        <TableCell align="right">{entry.fetchCount}</TableCell>
+        <TableCell>
+          {entry.strategyStats.map(stats => (
+            <Typography key={stats.strategy} variant="body2" color="text.secondary">
+              {stats.strategy}: {stats.commitsPerCall.toFixed(1)} commits/call, {stats.avgApiCalls.toFixed(1)} calls, {(stats.avgDurationMs / 1000).toFixed(1)}s ({stats.runs} runs)
+            </Typography>
+          ))}
+        </TableCell>
+        <TableCell align="right">
+          <Tooltip title="Discard the profile and strategy history; the next sync re-analyzes this repository">
+            <IconButton size="small" onClick={() => onReprofile(entry.repositoryId)}>
+              <RestartAlt />
+            </IconButton>
+          </Tooltip>
+        </TableCell>
+      </TableRow>
+      <TableRow>
+        <TableCell sx={{ py: 0 }} colSpan={7}>
+          <Collapse in={open} timeout="auto" unmountOnExit>
+            <Box sx={{ my: 2 }}>
+              <Typography variant="subtitle2" gutterBottom>
+                Last {history.length} of {entry.strategyMetrics.length} recorded fetches
+              </Typography>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Time</TableCell>
+                    <TableCell>Strategy</TableCell>
+                    <TableCell>Reason</TableCell>
+                    <TableCell align="right">API calls</TableCell>
+                    <TableCell align="right">Duration</TableCell>
+                    <TableCell align="right">Commits</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {history.map(metric => (
+                    <TableRow key={metric.recordedAt}>
+                      <TableCell>{new Date(metric.recordedAt).toLocaleString()}</TableCell>
+                      <TableCell>{metric.strategy}</TableCell>
+                      <TableCell>
+                        <Chip size="small" label={metric.reason} color={REASON_COLORS[metric.reason]} />
+                      </TableCell>
+                      <TableCell align="right">{metric.apiCalls}</TableCell>
+                      <TableCell align="right">{(metric.durationMs / 1000).toFixed(1)}s</TableCell>
+                      <TableCell align="right">{metric.commitsYielded}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          </Collapse>
+        </TableCell>
+      </TableRow>
+    </>
+  );
+}
+
+export default function StrategyAdminPage() {
+  const [profiles, setProfiles] = useState<ProfileListEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [snackbarMessage, setSnackbarMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadProfiles();
+  }, []);
+
+  const loadProfiles = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setProfiles(await fetchRepositoryProfiles());
+    } catch (err) {
+      console.error('Error fetching repository profiles:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch repository profiles');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReprofile = async (repo: string) => {
+    try {
+      await invalidateRepositoryProfile(repo);
+      setProfiles(current => current.filter(entry => entry.repositoryId !== repo));
+      setSnackbarMessage(`🔄 ${repo} will be re-profiled on the next sync`);
+    } catch (err) {
+      console.error(`Error invalidating profile for ${repo}:`, err);
+      setSnackbarMessage(err instanceof Error ? err.message : 'Failed to invalidate repository profile');
+    }
+  };
+
+  return (
+    <Box sx={{ flexGrow: 1, minHeight: '100vh' }}>
+      <Header />
+
+      <Container maxWidth="xl" sx={{ py: 4 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', mb: 3 }}>
+          <Box>
+            <Typography variant="h4" sx={{ fontWeight: 'bold' }}>
+              Fetch Strategies
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              How each repository&apos;s commits were fetched, and what each strategy cost in API calls
+            </Typography>
+          </Box>
+          <Button startIcon={<Refresh />} onClick={loadProfiles} disabled={loading}>
+            Reload
+          </Button>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress />
+          </Box>
+        ) : profiles.length === 0 ? (
+          <Alert severity="info">No repositories have been profiled yet - run a sync first.</Alert>
+        ) : (
+          <TableContainer component={Paper}>
+            <Table>
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  <TableCell>Repository</TableCell>
+                  <TableCell>Profile</TableCell>
+                  <TableCell>Last strategy</TableCell>
+                  <TableCell align="right">Fetches</TableCell>
+                  <TableCell>Recent efficiency</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {profiles.map(entry => (
+                  <ProfileRow key={entry.repositoryId} entry={entry} onReprofile={handleReprofile} />
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Container>
+
+      <Snackbar
+        open={snackbarMessage !== null}
+        autoHideDuration={4000}
+        onClose={() => setSnackbarMessage(null)}
+        message={snackbarMessage}
+      />
+    </Box>
+  );
+}
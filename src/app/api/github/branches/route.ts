@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { fetchBranchOverview, fetchRepository } from '@/lib/githubApi';
+import { isRepositoryAllowed } from '@/lib/repositoryConfig';
+import { githubCredentials } from '@/lib/githubCredentials';
+
+// GET ?repo=owner/name - every branch with its last commit, ahead/behind counts and merge analysis
+export async function GET(request: NextRequest) {
+  const repoName = request.nextUrl.searchParams.get('repo');
+
+  if (!repoName) {
+    return NextResponse.json({ error: 'repo is required (owner/name)' }, { status: 400 });
+  }
+
+  if (!isRepositoryAllowed(repoName)) {
+    return NextResponse.json({ error: `Repository ${repoName} is excluded by the repository config` }, { status: 403 });
+  }
+
+  if (!githubCredentials.hasCredentials()) {
+    return NextResponse.json({ error: 'GitHub credentials not configured' }, { status: 500 });
+  }
+
+  try {
+    // The real repository is needed for its default branch, which every comparison is made against
+    const repo = await fetchRepository(repoName);
+    if (!repo) {
+      return NextResponse.json({ error: `Repository ${repoName} not found` }, { status: 404 });
+    }
+
+    const branches = await fetchBranchOverview(repo);
+    return NextResponse.json({
+      repository: repo.nameWithOwner,
+      repository_url: repo.url,
+      default_branch: repo.defaultBranch,
+      branches,
+      total: branches.length
+    });
+  } catch (error) {
+    console.error(`❌ Error fetching branches for ${repoName}:`, error);
+    return NextResponse.json({ error: `Failed to fetch branches for ${repoName}` }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queryCachedCommits } from '@/lib/fileCache';
+import { parseCacheQuery, getNextCursor } from '@/lib/cacheQueryParams';
+import { CommitQueryResponse } from '@/types/github';
+
+// Filtered, paginated commits straight from the cache - never triggers a sync
+export async function GET(request: NextRequest) {
+  const { query, error } = parseCacheQuery(request.nextUrl.searchParams);
+  if (!query) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  if (query.state) {
+    return NextResponse.json({ error: 'state filter is only supported by /api/github/pulls' }, { status: 400 });
+  }
+
+  try {
+    const { items, total } = queryCachedCommits(query);
+
+    const response: CommitQueryResponse = {
+      commits: items,
+      total,
+      next_cursor: getNextCursor(query, items.length, total)
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('❌ Error querying cached commits:', error);
+    return NextResponse.json({ error: 'Failed to query commits' }, { status: 500 });
+  }
+}
@@ -2,14 +2,17 @@ import { NextRequest, NextResponse } from 'next/server';
 import { performIncrementalSync, performFullSync } from '@/lib/incrementalSync';
 import { getCachedData, isCacheValid } from '@/lib/fileCache';
 import { ERROR_MESSAGES } from '@/lib/constants';
+import { getRateLimitStatus } from '@/lib/githubApi';
+import { filterToConfiguredRepositories, getRepositoryGroups } from '@/lib/repositoryConfig';
+import { githubCredentials } from '@/lib/githubCredentials';
 
 // Cache validation period in minutes - configurable via environment variable
 const CACHE_VALID_MINUTES = parseInt(process.env.CACHE_TTL_MINUTES || '15');
 
 export async function GET(request: NextRequest) {
   try {
-    // Check if GitHub token is configured
-    if (!process.env.GITHUB_TOKEN) {
+    // Check if GitHub credentials are configured
+    if (!githubCredentials.hasCredentials()) {
       return NextResponse.json(
         { error: ERROR_MESSAGES.no_token },
         { status: 500 }
@@ -43,14 +46,24 @@ export async function GET(request: NextRequest) {
         })),
         commits: syncResult.commits,
         pull_requests: syncResult.pull_requests,
+        issues: syncResult.issues,
+        releases: syncResult.releases,
+        deployments: syncResult.deployments,
+        repository_groups: getRepositoryGroups(syncResult.repositories),
         cache_info: {
           source: 'initial_full_sync',
           last_sync: syncResult.syncTimestamp,
           is_incremental: false,
           new_commits: syncResult.newCommitsCount,
           new_prs: syncResult.newPRsCount,
+          new_issues: syncResult.newIssuesCount,
+          new_releases: syncResult.newReleasesCount,
+          new_deployments: syncResult.newDeploymentsCount,
+          truncated_repos: syncResult.truncatedRepos,
+          repo_statuses: syncResult.repoStatuses,
           initial_load: true
-        }
+        },
+        rate_limit: getRateLimitStatus()
       };
 
       const response = NextResponse.json(responseData);
@@ -64,9 +77,11 @@ export async function GET(request: NextRequest) {
     if (!forceRefresh && !forceFullSync && isCacheValid(CACHE_VALID_MINUTES)) {
       console.log('💾 Using valid cached data');
       if (cachedData) {
+        // The config may have changed since the last sync
+        const configuredData = filterToConfiguredRepositories(cachedData);
         const response = NextResponse.json({
           user_info: cachedData.user_info,
-          repositories: cachedData.repositories.map(repo => ({
+          repositories: configuredData.repositories.map(repo => ({
             nameWithOwner: repo.nameWithOwner,
             name: repo.name,
             url: repo.url,
@@ -74,14 +89,21 @@ export async function GET(request: NextRequest) {
             pushedAt: repo.pushedAt,
             defaultBranch: repo.defaultBranch
           })),
-          commits: cachedData.commits,
-          pull_requests: cachedData.pull_requests,
+          commits: configuredData.commits,
+          pull_requests: configuredData.pull_requests,
+          issues: configuredData.issues,
+          releases: configuredData.releases,
+          deployments: configuredData.deployments,
+          repository_groups: getRepositoryGroups(configuredData.repositories),
           cache_info: {
             source: 'file_cache',
             last_sync: cachedData.metadata.lastSync,
             last_full_sync: cachedData.metadata.lastFullSync,
-            is_incremental: false
-          }
+            is_incremental: false,
+            truncated_repos: cachedData.metadata.truncatedRepos || [],
+            repo_statuses: cachedData.metadata.repoStatuses || []
+          },
+          rate_limit: getRateLimitStatus()
         });
         response.headers.set('X-Cache', 'HIT');
         response.headers.set('X-Cache-Source', 'file');
@@ -112,13 +134,23 @@ export async function GET(request: NextRequest) {
       })),
       commits: syncResult.commits,
       pull_requests: syncResult.pull_requests,
+      issues: syncResult.issues,
+      releases: syncResult.releases,
+      deployments: syncResult.deployments,
+      repository_groups: getRepositoryGroups(syncResult.repositories),
       cache_info: {
         source: 'github_api',
         last_sync: syncResult.syncTimestamp,
         is_incremental: syncResult.isIncremental,
         new_commits: syncResult.newCommitsCount,
-        new_prs: syncResult.newPRsCount
-      }
+        new_prs: syncResult.newPRsCount,
+        new_issues: syncResult.newIssuesCount,
+        new_releases: syncResult.newReleasesCount,
+        new_deployments: syncResult.newDeploymentsCount,
+        truncated_repos: syncResult.truncatedRepos,
+        repo_statuses: syncResult.repoStatuses
+      },
+      rate_limit: getRateLimitStatus()
     };
 
     // Set response headers
@@ -127,8 +159,9 @@ export async function GET(request: NextRequest) {
     response.headers.set('X-Cache-Source', syncResult.isIncremental ? 'incremental_sync' : 'full_sync');
     response.headers.set('X-New-Commits', syncResult.newCommitsCount.toString());
     response.headers.set('X-New-PRs', syncResult.newPRsCount.toString());
+    response.headers.set('X-New-Issues', syncResult.newIssuesCount.toString());
 
-    console.log(`✅ API Response: ${responseData.commits.length} commits, ${responseData.pull_requests.length} PRs`);
+    console.log(`✅ API Response: ${responseData.commits.length} commits, ${responseData.pull_requests.length} PRs, ${responseData.issues.length} issues`);
     console.log(`📊 New data: +${syncResult.newCommitsCount} commits, +${syncResult.newPRsCount} PRs`);
 
     return response;
@@ -140,9 +173,11 @@ export async function GET(request: NextRequest) {
     const cachedData = getCachedData();
     if (cachedData) {
       console.log('📂 Returning cached data as fallback');
+      // Same as a cache hit - repositories removed from the config since the last sync stay hidden
+      const configuredData = filterToConfiguredRepositories(cachedData);
       const response = NextResponse.json({
         user_info: cachedData.user_info,
-        repositories: cachedData.repositories.map(repo => ({
+        repositories: configuredData.repositories.map(repo => ({
           nameWithOwner: repo.nameWithOwner,
           name: repo.name,
           url: repo.url,
@@ -150,14 +185,21 @@ export async function GET(request: NextRequest) {
           pushedAt: repo.pushedAt,
           defaultBranch: repo.defaultBranch
         })),
-        commits: cachedData.commits,
-        pull_requests: cachedData.pull_requests,
+        commits: configuredData.commits,
+        pull_requests: configuredData.pull_requests,
+        issues: configuredData.issues,
+        releases: configuredData.releases,
+        deployments: configuredData.deployments,
+        repository_groups: getRepositoryGroups(configuredData.repositories),
         cache_info: {
           source: 'file_cache_fallback',
           last_sync: cachedData.metadata.lastSync,
           last_full_sync: cachedData.metadata.lastFullSync,
+          truncated_repos: cachedData.metadata.truncatedRepos || [],
+          repo_statuses: cachedData.metadata.repoStatuses || [],
           error: 'API request failed, using cached data'
-        }
+        },
+        rate_limit: getRateLimitStatus()
       });
       response.headers.set('X-Cache', 'FALLBACK');
       return response;
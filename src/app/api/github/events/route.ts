@@ -0,0 +1,64 @@
+import { NextRequest } from 'next/server';
+import { syncEvents, SyncEvent } from '@/lib/syncEvents';
+import { syncScheduler } from '@/lib/syncScheduler';
+
+// Streams must never be statically rendered or cached
+export const dynamic = 'force-dynamic';
+
+const HEARTBEAT_INTERVAL = 25000;
+
+// Server-Sent Events stream of sync results for the open dashboard
+export async function GET(request: NextRequest) {
+  // Covers servers started without the instrumentation hook
+  syncScheduler.start();
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let heartbeat: ReturnType<typeof setInterval> | undefined;
+      let unsubscribe = () => {};
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+
+      // A stream the client already dropped throws on enqueue; stop feeding it instead of failing the caller
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const send = (event: string, data: unknown) => write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+      send('connected', { scheduler: syncScheduler.getStatus() });
+
+      unsubscribe = syncEvents.subscribe((event: SyncEvent) => send(event.type, event));
+      // Comment lines keep proxies from closing an idle connection
+      heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL);
+
+      request.signal.addEventListener('abort', () => {
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      });
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive'
+    }
+  });
+}
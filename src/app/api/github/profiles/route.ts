@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listRepositoryProfiles, invalidateRepositoryProfile } from '@/lib/githubApi';
+
+// Profiles change as syncs run, so never serve a build-time snapshot
+export const dynamic = 'force-dynamic';
+
+// Cached repository profiles and how many branch merge analyses each repository has stored
+export async function GET() {
+  try {
+    const profiles = listRepositoryProfiles();
+    return NextResponse.json({ profiles, total: profiles.length });
+  } catch (error) {
+    console.error('❌ Error listing repository profiles:', error);
+    return NextResponse.json({ error: 'Failed to list repository profiles' }, { status: 500 });
+  }
+}
+
+// DELETE ?repo=owner/name - the next sync re-analyzes that repository
+export async function DELETE(request: NextRequest) {
+  const repo = request.nextUrl.searchParams.get('repo');
+  if (!repo) {
+    return NextResponse.json({ error: 'repo is required (owner/name)' }, { status: 400 });
+  }
+
+  try {
+    if (!invalidateRepositoryProfile(repo)) {
+      return NextResponse.json({ error: `No cached profile for ${repo}` }, { status: 404 });
+    }
+    return NextResponse.json({ invalidated: repo });
+  } catch (error) {
+    console.error(`❌ Error invalidating profile for ${repo}:`, error);
+    return NextResponse.json({ error: 'Failed to invalidate repository profile' }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { queryCachedPullRequests } from '@/lib/fileCache';
+import { parseCacheQuery, getNextCursor } from '@/lib/cacheQueryParams';
+import { PullRequestQueryResponse } from '@/types/github';
+
+const PR_STATES = ['open', 'merged', 'closed'];
+
+// Filtered, paginated pull requests straight from the cache - never triggers a sync
+export async function GET(request: NextRequest) {
+  const { query, error } = parseCacheQuery(request.nextUrl.searchParams);
+  if (!query) {
+    return NextResponse.json({ error }, { status: 400 });
+  }
+
+  if (query.state && !PR_STATES.includes(query.state.toLowerCase())) {
+    return NextResponse.json({ error: `state must be one of: ${PR_STATES.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const { items, total } = queryCachedPullRequests(query);
+
+    const response: PullRequestQueryResponse = {
+      pull_requests: items,
+      total,
+      next_cursor: getNextCursor(query, items.length, total)
+    };
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('❌ Error querying cached pull requests:', error);
+    return NextResponse.json({ error: 'Failed to query pull requests' }, { status: 500 });
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { fetchRepositoryCommits } from '@/lib/githubApi';
+import { isRepositoryAllowed } from '@/lib/repositoryConfig';
+import { githubCredentials } from '@/lib/githubCredentials';
+import { GITHUB_CONFIG } from '@/lib/constants';
 import { GitHubRepository } from '@/types/github';
 
 export async function GET(request: NextRequest) {
@@ -10,8 +13,12 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Repository name is required' }, { status: 400 });
   }
 
-  if (!process.env.GITHUB_TOKEN) {
-    return NextResponse.json({ error: 'GitHub token not configured' }, { status: 500 });
+  if (!isRepositoryAllowed(repoName)) {
+    return NextResponse.json({ error: `Repository ${repoName} is excluded by the repository config` }, { status: 403 });
+  }
+
+  if (!githubCredentials.hasCredentials()) {
+    return NextResponse.json({ error: 'GitHub credentials not configured' }, { status: 500 });
   }
 
   try {
@@ -22,7 +29,7 @@ export async function GET(request: NextRequest) {
     const repo: GitHubRepository = {
       name,
       nameWithOwner: repoName,
-      url: `https://github.com/${repoName}`,
+      url: `${GITHUB_CONFIG.BASE_URL}/${repoName}`,
       pushedAt: new Date().toISOString(),
       isPrivate: false,
       defaultBranch: 'main' // This will be updated by the GraphQL query
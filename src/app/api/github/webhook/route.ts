@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyWebhookSignature, isSupportedWebhookEvent, handleWebhookEvent } from '@/lib/webhookHandler';
+
+// Receives GitHub webhook deliveries and merges them into the cache between syncs
+export async function POST(request: NextRequest) {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return NextResponse.json({ error: 'Webhooks are not configured (GITHUB_WEBHOOK_SECRET is not set)' }, { status: 503 });
+  }
+
+  // The signature covers the exact bytes GitHub sent, so verify before parsing
+  const body = await request.text();
+  if (!verifyWebhookSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+    console.warn('🚫 Rejected webhook delivery with invalid signature');
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  const event = request.headers.get('x-github-event');
+  const deliveryId = request.headers.get('x-github-delivery');
+  console.log(`🪝 Webhook delivery ${deliveryId}: ${event}`);
+
+  if (event === 'ping') {
+    return NextResponse.json({ status: 'pong' });
+  }
+  if (!isSupportedWebhookEvent(event)) {
+    return NextResponse.json({ status: 'ignored', reason: `Unsupported event: ${event}` }, { status: 202 });
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  try {
+    const result = await handleWebhookEvent(event, payload);
+    if (result.status === 'merged') {
+      console.log(`🪝 Merged ${event}: +${result.commits} commits, +${result.pull_requests} PRs`);
+    } else {
+      console.log(`🪝 Ignored ${event}: ${result.reason}`);
+    }
+    return NextResponse.json(result, { status: result.status === 'merged' ? 200 : 202 });
+  } catch (error) {
+    console.error(`❌ Error handling webhook delivery ${deliveryId}:`, error);
+    return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 });
+  }
+}
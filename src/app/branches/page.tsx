@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  CircularProgress,
+  Alert,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Chip,
+  Link,
+  Tooltip,
+  Autocomplete,
+  TextField,
+  FormControlLabel,
+  Switch,
+  Button
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import Header from '@/components/Header';
+import { GitHubData } from '@/types/github';
+import { BranchOverview, BranchOverviewResponse } from '@/types/profiling';
+import { fetchGitHubData, fetchBranchOverview } from '@/lib/apiClient';
+import { CONFIG } from '@/lib/constants';
+import { calculateDaysAgo, formatTimestampToLocal, truncateText } from '@/utils/dateUtils';
+
+const DEFAULT_STALE_DAYS = 30;
+
+function confidenceColor(confidence: number): 'success' | 'warning' | 'default' {
+  if (confidence > 0.7) return 'success';
+  if (confidence > 0.4) return 'warning';
+  return 'default';
+}
+
+function BranchRow({ branch, repositoryUrl }: { branch: BranchOverview; repositoryUrl: string }) {
+  const mergeInfo = branch.mergeInfo;
+  const daysAgo = branch.lastCommitDate ? calculateDaysAgo(branch.lastCommitDate) : null;
+
+  return (
+    <TableRow hover>
+      <TableCell>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <Link href={`${repositoryUrl}/tree/${branch.name}`} target="_blank" rel="noopener" underline="hover">
+            {branch.name}
+          </Link>
+          {branch.isDefault && <Chip size="small" label="default" color="primary" />}
+        </Box>
+      </TableCell>
+      <TableCell>
+        {branch.lastCommitSha ? (
+          <>
+            <Typography variant="body2">
+              {truncateText(branch.lastCommitMessage || 'No message', CONFIG.COMMIT_MESSAGE_MAX_LENGTH)}
+            </Typography>
+            <Typography variant="caption" color="text.secondary">
+              <Link href={`${repositoryUrl}/commit/${branch.lastCommitSha}`} target="_blank" rel="noopener" underline="hover">
+                {branch.lastCommitSha.substring(0, 7)}
+              </Link>
+              {branch.lastCommitAuthor && ` by ${branch.lastCommitAuthor}`}
+            </Typography>
+          </>
+        ) : '—'}
+      </TableCell>
+      <TableCell>
+        {daysAgo !== null ? (
+          <Tooltip title={formatTimestampToLocal(branch.lastCommitDate)}>
+            <span>{daysAgo === 0 ? 'today' : `${daysAgo}d ago`}</span>
+          </Tooltip>
+        ) : '—'}
+      </TableCell>
+      <TableCell align="right">
+        {branch.comparison ? (
+          <Tooltip title={`${branch.comparison.aheadBy} commits ahead, ${branch.comparison.behindBy} behind the default branch`}>
+            <span>{branch.comparison.aheadBy} / {branch.comparison.behindBy}</span>
+          </Tooltip>
+        ) : '—'}
+      </TableCell>
+      <TableCell>
+        {branch.mergedPRUrl && mergeInfo?.mergedPRNumber ? (
+          <>
+            <Link href={branch.mergedPRUrl} target="_blank" rel="noopener" underline="hover">
+              #{mergeInfo.mergedPRNumber}
+            </Link>
+            {mergeInfo.mergedAt && (
+              <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                merged {calculateDaysAgo(mergeInfo.mergedAt)}d ago{mergeInfo.baseRef ? ` into ${mergeInfo.baseRef}` : ''}
+              </Typography>
+            )}
+          </>
+        ) : '—'}
+      </TableCell>
+      <TableCell>
+        {mergeInfo && !branch.isDefault ? (
+          <Chip
+            size="small"
+            label={`${(mergeInfo.confidence * 100).toFixed(0)}%${branch.isMergedAndInactive ? ' merged/inactive' : ''}`}
+            color={confidenceColor(mergeInfo.confidence)}
+            variant={branch.isMergedAndInactive ? 'filled' : 'outlined'}
+          />
+        ) : '—'}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function BranchesPage() {
+  const [data, setData] = useState<GitHubData | null>(null);
+  const [selectedRepo, setSelectedRepo] = useState<string | null>(null);
+  const [overview, setOverview] = useState<BranchOverviewResponse | null>(null);
+  const [loadingRepos, setLoadingRepos] = useState(true);
+  const [loadingBranches, setLoadingBranches] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [staleOnly, setStaleOnly] = useState(false);
+  const [staleDays, setStaleDays] = useState(DEFAULT_STALE_DAYS);
+  const [mergedOnly, setMergedOnly] = useState(false);
+
+  useEffect(() => {
+    fetchGitHubData()
+      .then(setData)
+      .catch(err => {
+        console.error('Error fetching repositories:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch repositories');
+      })
+      .finally(() => setLoadingRepos(false));
+  }, []);
+
+  // Most recently pushed first, since that's where branches pile up
+  const repositories = useMemo(() =>
+    [...(data?.repositories || [])]
+      .sort((a, b) => new Date(b.pushedAt).getTime() - new Date(a.pushedAt).getTime())
+      .map(repo => repo.nameWithOwner),
+    [data]
+  );
+
+  const loadBranches = async (repo: string) => {
+    setLoadingBranches(true);
+    setError(null);
+    try {
+      setOverview(await fetchBranchOverview(repo));
+    } catch (err) {
+      console.error(`Error fetching branches for ${repo}:`, err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch branches');
+      setOverview(null);
+    } finally {
+      setLoadingBranches(false);
+    }
+  };
+
+  const handleRepoChange = (repo: string | null) => {
+    setSelectedRepo(repo);
+    setOverview(null);
+    if (repo) loadBranches(repo);
+  };
+
+  const filteredBranches = useMemo(() => (overview?.branches || []).filter(branch => {
+    if (staleOnly && (!branch.lastCommitDate || calculateDaysAgo(branch.lastCommitDate) <= staleDays)) return false;
+    // A branch that still shows up here has not been deleted
+    if (mergedOnly && !branch.mergeInfo?.hasAssociatedMergedPR) return false;
+    return true;
+  }), [overview, staleOnly, staleDays, mergedOnly]);
+
+  return (
+    <Box sx={{ flexGrow: 1, minHeight: '100vh' }}>
+      <Header user={data?.user_info} />
+
+      <Container maxWidth="xl" sx={{ py: 4 }}>
+        <Typography variant="h4" sx={{ fontWeight: 'bold' }}>
+          Branches
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Every branch of a repository with its distance from the default branch and merge status, to find branches that can be deleted
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 3 }}>
+          <Autocomplete
+            options={repositories}
+            value={selectedRepo}
+            onChange={(_, repo) => handleRepoChange(repo)}
+            loading={loadingRepos}
+            sx={{ minWidth: 360 }}
+            renderInput={(params) => <TextField {...params} label="Repository" size="small" />}
+          />
+          <FormControlLabel
+            control={<Switch checked={staleOnly} onChange={(e) => setStaleOnly(e.target.checked)} />}
+            label="Stale for more than"
+          />
+          <TextField
+            type="number"
+            size="small"
+            value={staleDays}
+            onChange={(e) => setStaleDays(Math.max(0, parseInt(e.target.value) || 0))}
+            disabled={!staleOnly}
+            sx={{ width: 90 }}
+            InputProps={{ endAdornment: <Typography variant="body2" color="text.secondary">days</Typography> }}
+          />
+          <FormControlLabel
+            control={<Switch checked={mergedOnly} onChange={(e) => setMergedOnly(e.target.checked)} />}
+            label="Merged but not deleted"
+          />
+          <Button
+            startIcon={<Refresh />}
+            onClick={() => selectedRepo && loadBranches(selectedRepo)}
+            disabled={!selectedRepo || loadingBranches}
+          >
+            Reload
+          </Button>
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>}
+
+        {loadingBranches ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress />
+          </Box>
+        ) : !overview ? (
+          !error && <Alert severity="info">Pick a repository to list its branches.</Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Showing {filteredBranches.length} of {overview.total} branches, compared against {overview.default_branch}
+            </Typography>
+            <TableContainer component={Paper}>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Branch</TableCell>
+                    <TableCell>Last commit</TableCell>
+                    <TableCell>Updated</TableCell>
+                    <TableCell align="right">Ahead / behind</TableCell>
+                    <TableCell>Merged PR</TableCell>
+                    <TableCell>Merged-inactive confidence</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {filteredBranches.map(branch => (
+                    <BranchRow key={branch.name} branch={branch} repositoryUrl={overview.repository_url} />
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </>
+        )}
+      </Container>
+    </Box>
+  );
+}
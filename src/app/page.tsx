@@ -17,10 +17,14 @@ import Header from '@/components/Header';
 import Sidebar from '@/components/Sidebar';
 import CommitStream from '@/components/CommitStream';
 import PRStream from '@/components/PRStream';
+import IssueStream from '@/components/IssueStream';
 import ActivityCharts from '@/components/ActivityCharts';
 import CommitsTable from '@/components/CommitsTable';
 import GlobalSearch from '@/components/GlobalSearch';
 import ActivityHeatmap from '@/components/ActivityHeatmap';
+import SyncStatusBanner from '@/components/SyncStatusBanner';
+import RedBuildsPanel from '@/components/RedBuildsPanel';
+import { useLiveActivity } from '@/hooks/useLiveActivity';
 import { GitHubData } from '@/types/github';
 import { mockData } from '@/data/mockData';
 import { fetchGitHubData, refreshGitHubData, fullSyncGitHubData } from '@/lib/apiClient';
@@ -36,6 +40,9 @@ export default function Dashboard() {
   const [searchTerm, setSearchTerm] = useState('');
 
   const debugMode = process.env.NEXT_PUBLIC_DEBUG_MODE?.toLowerCase() === 'true';
+  
+  // Live updates pushed by the server-side sync scheduler
+  const { newCommitCount, newPRCount, acknowledgeCommits, acknowledgePRs } = useLiveActivity(data, setData, !debugMode && data !== null);
 
   const fetchData = async () => {
     setLoading(true);
@@ -183,17 +190,25 @@ export default function Dashboard() {
       <Header user={data?.user_info} />
       
       <Container maxWidth="xl" sx={{ mt: 3, pb: 3 }}>
+        <SyncStatusBanner repoStatuses={data?.cache_info?.repo_statuses || []} />
+        
         <Grid container spacing={3}>
-          {/* Two-column layout for streams */}
-          <Grid item xs={12} md={6}>
-            <CommitStream commits={data?.commits || []} />
+          {/* Three-column layout for streams */}
+          <Grid item xs={12} md={4}>
+            <CommitStream commits={data?.commits || []} newCount={newCommitCount} onShowNew={acknowledgeCommits} />
+          </Grid>
+          
+          <Grid item xs={12} md={4}>
+            <PRStream pullRequests={data?.pull_requests || []} newCount={newPRCount} onShowNew={acknowledgePRs} />
           </Grid>
           
-          <Grid item xs={12} md={6}>
-            <PRStream pullRequests={data?.pull_requests || []} />
+          <Grid item xs={12} md={4}>
+            <IssueStream issues={data?.issues || []} />
           </Grid>
         </Grid>
         
+        <RedBuildsPanel commits={data?.commits || []} repositories={data?.repositories || []} />
+        
         {/* Secondary sections */}
         <Grid item xs={12}>
           <GlobalSearch 
@@ -216,6 +231,7 @@ export default function Dashboard() {
           <ActivityCharts 
             commits={data?.commits || []} 
             pullRequests={data?.pull_requests || []}
+            releases={data?.releases || []}
           />
         </Grid>
         
@@ -253,6 +269,7 @@ export default function Dashboard() {
         onRefresh={handleRefresh}
         onFullSync={handleFullSync}
         debugMode={debugMode}
+        rateLimit={data?.rate_limit}
       />
 
       <Snackbar
@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Container,
+  Typography,
+  Box,
+  CircularProgress,
+  Alert,
+  Accordion,
+  AccordionSummary,
+  AccordionDetails,
+  Chip,
+  Link,
+  Tooltip,
+  Autocomplete,
+  TextField,
+  FormControlLabel,
+  Switch,
+  List,
+  ListItem,
+  ListItemText
+} from '@mui/material';
+import { ExpandMore } from '@mui/icons-material';
+import Header from '@/components/Header';
+import { GitHubData, GitHubRelease } from '@/types/github';
+import { fetchGitHubData } from '@/lib/apiClient';
+import { CONFIG } from '@/lib/constants';
+import { calculateDaysAgo, formatTimestampToLocal, truncateText } from '@/utils/dateUtils';
+import { buildReleaseTimeline, ReleaseChanges } from '@/utils/releaseUtils';
+
+function ChangeList({ changes }: { changes: ReleaseChanges }) {
+  if (changes.commits.length === 0 && changes.pullRequests.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        No synced commits or merged PRs on the default branch in this range.
+      </Typography>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 3 }}>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>Merged pull requests ({changes.pullRequests.length})</Typography>
+        <List dense disablePadding>
+          {changes.pullRequests.map(pr => (
+            <ListItem key={pr.number} disableGutters>
+              <ListItemText
+                primary={
+                  <Link href={pr.url} target="_blank" rel="noopener" underline="hover">
+                    #{pr.number} {truncateText(pr.title, CONFIG.COMMIT_MESSAGE_MAX_LENGTH)}
+                  </Link>
+                }
+                secondary={`by ${pr.author}, merged ${formatTimestampToLocal(pr.merged_at!)}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Box>
+      <Box>
+        <Typography variant="subtitle2" gutterBottom>Commits ({changes.commits.length})</Typography>
+        <List dense disablePadding>
+          {changes.commits.map(commit => (
+            <ListItem key={commit.sha} disableGutters>
+              <ListItemText
+                primary={
+                  <>
+                    <Link href={commit.url} target="_blank" rel="noopener" underline="hover" sx={{ fontFamily: 'monospace', mr: 1 }}>
+                      {commit.sha}
+                    </Link>
+                    {truncateText(commit.message.split('\n')[0], CONFIG.COMMIT_MESSAGE_MAX_LENGTH)}
+                  </>
+                }
+                secondary={`by ${commit.author}, ${formatTimestampToLocal(commit.date)}`}
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Box>
+    </Box>
+  );
+}
+
+function ReleaseHeading({ release, changes }: { release: GitHubRelease; changes: ReleaseChanges }) {
+  const daysAgo = calculateDaysAgo(release.published_at);
+
+  return (
+    <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', flexWrap: 'wrap', width: '100%' }}>
+      <Link
+        href={release.url}
+        target="_blank"
+        rel="noopener"
+        underline="hover"
+        onClick={(e) => e.stopPropagation()}
+        sx={{ fontWeight: 600, fontFamily: 'monospace' }}
+      >
+        {release.tag}
+      </Link>
+      {release.name !== release.tag && (
+        <Typography variant="body2">{release.name}</Typography>
+      )}
+      {release.is_prerelease && <Chip size="small" label="prerelease" color="warning" variant="outlined" />}
+      {release.kind === 'tag' && <Chip size="small" label="tag only" variant="outlined" />}
+      <Box sx={{ flexGrow: 1 }} />
+      <Typography variant="body2" color="text.secondary">
+        {changes.pullRequests.length} PRs · {changes.commits.length} commits
+      </Typography>
+      <Tooltip title={formatTimestampToLocal(release.published_at)}>
+        <Typography variant="body2" color="text.secondary" sx={{ minWidth: 120, textAlign: 'right' }}>
+          {daysAgo === 0 ? 'today' : `${daysAgo}d ago`} by {release.author}
+        </Typography>
+      </Tooltip>
+    </Box>
+  );
+}
+
+export default function ReleasesPage() {
+  const [data, setData] = useState<GitHubData | null>(null);
+  const [selectedRepo, setSelectedRepo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [includePrereleases, setIncludePrereleases] = useState(true);
+  const [includeTags, setIncludeTags] = useState(true);
+
+  useEffect(() => {
+    fetchGitHubData()
+      .then(result => {
+        setData(result);
+        // Start on the repository with the most recent release
+        setSelectedRepo(result.releases?.[0]?.repo || null);
+      })
+      .catch(err => {
+        console.error('Error fetching releases:', err);
+        setError(err instanceof Error ? err.message : 'Failed to fetch releases');
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  // Repositories with the most recent release first; releases arrive sorted newest first
+  const repositories = useMemo(() =>
+    Array.from(new Set((data?.releases || []).map(release => release.repo))),
+    [data]
+  );
+
+  const repository = data?.repositories?.find(repo => repo.nameWithOwner === selectedRepo);
+
+  const timeline = useMemo(() => {
+    if (!data || !repository) return null;
+    const releases = (data.releases || []).filter(release =>
+      release.repo === repository.nameWithOwner &&
+      (includePrereleases || !release.is_prerelease) &&
+      (includeTags || release.kind === 'release')
+    );
+    return buildReleaseTimeline(
+      releases,
+      data.commits.filter(commit => commit.repo === repository.nameWithOwner),
+      data.pull_requests.filter(pr => pr.repo === repository.nameWithOwner),
+      repository.defaultBranch
+    );
+  }, [data, repository, includePrereleases, includeTags]);
+
+  const unreleasedCount = timeline ? timeline.unreleased.commits.length + timeline.unreleased.pullRequests.length : 0;
+
+  return (
+    <Box sx={{ flexGrow: 1, minHeight: '100vh' }}>
+      <Header user={data?.user_info} />
+
+      <Container maxWidth="xl" sx={{ py: 4 }}>
+        <Typography variant="h4" sx={{ fontWeight: 'bold' }}>
+          Releases
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+          Every release and tag of a repository with the commits and pull requests merged into the default branch since the previous one
+        </Typography>
+
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 3 }}>
+          <Autocomplete
+            options={repositories}
+            value={selectedRepo}
+            onChange={(_, repo) => setSelectedRepo(repo)}
+            loading={loading}
+            sx={{ minWidth: 360 }}
+            renderInput={(params) => <TextField {...params} label="Repository" size="small" />}
+          />
+          <FormControlLabel
+            control={<Switch checked={includePrereleases} onChange={(e) => setIncludePrereleases(e.target.checked)} />}
+            label="Prereleases"
+          />
+          <FormControlLabel
+            control={<Switch checked={includeTags} onChange={(e) => setIncludeTags(e.target.checked)} />}
+            label="Tags without a release"
+          />
+        </Box>
+
+        {error && <Alert severity="error" sx={{ mb: 3 }}>{error}</Alert>}
+
+        {loading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+            <CircularProgress />
+          </Box>
+        ) : repositories.length === 0 ? (
+          !error && <Alert severity="info">No releases or tags synced yet. Releases are fetched during sync; run a full sync to backfill an existing cache.</Alert>
+        ) : !timeline ? (
+          !error && <Alert severity="info">Pick a repository to see its releases.</Alert>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              {timeline.entries.length} releases on {repository!.defaultBranch}; changes before the oldest synced commit are not shown
+            </Typography>
+
+            {unreleasedCount > 0 && (
+              <Accordion>
+                <AccordionSummary expandIcon={<ExpandMore />}>
+                  <Box sx={{ display: 'flex', gap: 1.5, alignItems: 'center', width: '100%' }}>
+                    <Chip size="small" label="unreleased" color="primary" />
+                    <Box sx={{ flexGrow: 1 }} />
+                    <Typography variant="body2" color="text.secondary">
+                      {timeline.unreleased.pullRequests.length} PRs · {timeline.unreleased.commits.length} commits
+                    </Typography>
+                  </Box>
+                </AccordionSummary>
+                <AccordionDetails>
+                  <ChangeList changes={timeline.unreleased} />
+                </AccordionDetails>
+              </Accordion>
+            )}
+
+            {timeline.entries.map(entry => (
+              <Accordion key={entry.release.tag}>
+                <AccordionSummary expandIcon={<ExpandMore />}>
+                  <ReleaseHeading release={entry.release} changes={entry} />
+                </AccordionSummary>
+                <AccordionDetails>
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+                    {entry.previous
+                      ? `Changes since ${entry.previous.tag}`
+                      : 'Oldest synced release - includes everything synced before it'}
+                    {entry.release.target_sha && (
+                      <> · tagged commit <Link href={`${entry.release.repo_url}/commit/${entry.release.target_sha}`} target="_blank" rel="noopener" sx={{ fontFamily: 'monospace' }}>{entry.release.target_sha}</Link></>
+                    )}
+                  </Typography>
+                  <ChangeList changes={entry} />
+                </AccordionDetails>
+              </Accordion>
+            ))}
+          </>
+        )}
+      </Container>
+    </Box>
+  );
+}
@@ -13,13 +13,17 @@ import {
   Paper,
   Divider,
   Tooltip,
-  IconButton
+  IconButton,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
-import { Info, TrendingUp, Warning, Share } from '@mui/icons-material';
+import { Info, TrendingUp, Warning, Share, RateReview } from '@mui/icons-material';
 import { GitHubCommit, GitHubPR, GitHubRepository, GitHubUser } from '@/types/github';
 import ProductivityHeatmap from './contributor/ProductivityHeatmap';
 import RiskAnalysisCards from './contributor/RiskAnalysisCards';
 import SimpleCollaborationNetwork from './contributor/SimpleCollaborationNetwork';
+import ReviewAnalytics from './contributor/ReviewAnalytics';
+import { attributeCommits, filterBotCommits, isBotAuthor } from '@/utils/attributionUtils';
 
 interface ContributorAnalyticsProps {
   commits: GitHubCommit[];
@@ -44,6 +48,8 @@ export default function ContributorAnalytics({
   userInfo
 }: ContributorAnalyticsProps) {
   const [timeFrame, setTimeFrame] = useState<TimeFrame>('6months');
+  const [includeBots, setIncludeBots] = useState(false);
+  const [creditCoAuthors, setCreditCoAuthors] = useState(true);
 
   const handleTimeFrameChange = (event: SelectChangeEvent<TimeFrame>) => {
     setTimeFrame(event.target.value as TimeFrame);
@@ -75,11 +81,21 @@ export default function ContributorAnalytics({
     );
     
     const filteredPRs = pullRequests.filter(pr => 
-      new Date(pr.created_at) >= cutoffDate
+      new Date(pr.created_at) >= cutoffDate && (includeBots || !isBotAuthor(pr.author))
     );
 
     return { commits: filteredCommits, pullRequests: filteredPRs };
-  }, [commits, pullRequests, timeFrame]);
+  }, [commits, pullRequests, timeFrame, includeBots]);
+
+  // The heatmap counts commits, so co-authored commits stay single; per-person views credit every co-author
+  const humanCommits = useMemo(() =>
+    filterBotCommits(filteredData.commits, includeBots),
+    [filteredData.commits, includeBots]
+  );
+  const attributedCommits = useMemo(() =>
+    attributeCommits(filteredData.commits, { includeBots, creditCoAuthors }),
+    [filteredData.commits, includeBots, creditCoAuthors]
+  );
 
   // Calculate repository statistics for risk analysis
   const repositoryStats = useMemo(() => {
@@ -90,7 +106,7 @@ export default function ContributorAnalytics({
       lastActivity: Date;
     }>();
 
-    filteredData.commits.forEach(commit => {
+    attributedCommits.forEach(commit => {
       if (!stats.has(commit.repo)) {
         stats.set(commit.repo, {
           repo: commit.repo,
@@ -113,7 +129,7 @@ export default function ContributorAnalytics({
     });
 
     return Array.from(stats.values());
-  }, [filteredData.commits]);
+  }, [attributedCommits]);
 
   return (
     <Box>
@@ -127,20 +143,30 @@ export default function ContributorAnalytics({
           </Typography>
         </Box>
         
-        <FormControl sx={{ minWidth: 180 }}>
-          <InputLabel>Time Frame</InputLabel>
-          <Select
-            value={timeFrame}
-            label="Time Frame"
-            onChange={handleTimeFrameChange}
-          >
-            {TIMEFRAME_OPTIONS.map(option => (
-              <MenuItem key={option.value} value={option.value}>
-                {option.label}
-              </MenuItem>
-            ))}
-          </Select>
-        </FormControl>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <FormControlLabel
+            control={<Switch checked={includeBots} onChange={(e) => setIncludeBots(e.target.checked)} />}
+            label="Include bots"
+          />
+          <FormControlLabel
+            control={<Switch checked={creditCoAuthors} onChange={(e) => setCreditCoAuthors(e.target.checked)} />}
+            label="Credit co-authors"
+          />
+          <FormControl sx={{ minWidth: 180 }}>
+            <InputLabel>Time Frame</InputLabel>
+            <Select
+              value={timeFrame}
+              label="Time Frame"
+              onChange={handleTimeFrameChange}
+            >
+              {TIMEFRAME_OPTIONS.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Box>
       </Box>
 
       <Grid container spacing={4}>
@@ -180,7 +206,7 @@ export default function ContributorAnalytics({
               Visualize when developers are most active across different time periods
             </Typography>
             <ProductivityHeatmap 
-              commits={filteredData.commits}
+              commits={humanCommits}
               timeFrame={timeFrame}
             />
           </Paper>
@@ -229,6 +255,42 @@ export default function ContributorAnalytics({
           </Paper>
         </Grid>
 
+        {/* Code Review Analytics Section */}
+        <Grid item xs={12}>
+          <Paper elevation={2} sx={{ p: 4, borderRadius: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+              <RateReview color="secondary" sx={{ fontSize: 28 }} />
+              <Typography variant="h5" gutterBottom sx={{ mb: 0, fontWeight: 'bold' }}>
+                Code Review Analytics
+              </Typography>
+              <Tooltip title={
+                <Box sx={{ p: 1, maxWidth: 450 }}>
+                  <Typography variant="subtitle2" gutterBottom sx={{ fontWeight: 'bold' }}>
+                    Code Review Analytics
+                  </Typography>
+                  <Typography variant="body2" paragraph>
+                    <strong>Time to first review:</strong> Time from PR creation to the first submitted review by someone other than the author.
+                  </Typography>
+                  <Typography variant="body2" paragraph>
+                    <strong>Approval → merge:</strong> Time from the last approval submitted before the merge to the merge itself.
+                  </Typography>
+                  <Typography variant="body2">
+                    <strong>Review load:</strong> Distinct PRs each person reviewed plus review requests still pending on open PRs.
+                  </Typography>
+                </Box>
+              }>
+                <IconButton size="small">
+                  <Info color="action" fontSize="small" />
+                </IconButton>
+              </Tooltip>
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 4, fontSize: '1rem' }}>
+              See who reviews what, how quickly PRs get picked up, and how long approved PRs wait to merge
+            </Typography>
+            <ReviewAnalytics pullRequests={filteredData.pullRequests} />
+          </Paper>
+        </Grid>
+
         <Grid item xs={12}>
           <Divider sx={{ my: 4 }} />
         </Grid>
@@ -272,7 +334,7 @@ export default function ContributorAnalytics({
               Visualize how contributors collaborate across different repositories
             </Typography>
             <SimpleCollaborationNetwork 
-              commits={filteredData.commits}
+              commits={attributedCommits}
               pullRequests={filteredData.pullRequests}
               repositories={repositories}
             />
@@ -0,0 +1,341 @@
+'use client';
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  Paper,
+  Typography,
+  Chip,
+  Alert,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Link,
+  Tooltip
+} from '@mui/material';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  Tooltip as ChartTooltip,
+  Legend,
+} from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { GitHubCommit, GitHubDeployment, GitHubPR, GitHubRelease, GitHubRepository } from '@/types/github';
+import { PROJECT_COLORS } from '@/lib/theme';
+import { formatHours } from '@/utils/dateUtils';
+import { collectDoraSamples, doraTrend, listEnvironments, summarizeDora, DoraBand, DoraMetrics as DoraMetricValues, DoraSamples } from '@/utils/doraUtils';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  PointElement,
+  LineElement,
+  Title,
+  ChartTooltip,
+  Legend
+);
+
+interface DoraMetricsProps {
+  commits: GitHubCommit[];
+  pullRequests: GitHubPR[];
+  releases: GitHubRelease[];
+  deployments: GitHubDeployment[];
+  repositories: GitHubRepository[];
+  repositoryGroups: Record<string, string[]>;
+}
+
+const WINDOW_OPTIONS = [30, 90, 180];
+const RELEASES_ONLY = '';
+
+const BAND_COLORS: Record<DoraBand, 'success' | 'info' | 'warning' | 'error'> = {
+  elite: 'success',
+  high: 'info',
+  medium: 'warning',
+  low: 'error'
+};
+
+function formatRate(rate: number | null): string {
+  return rate === null ? '—' : `${(rate * 100).toFixed(0)}%`;
+}
+
+function BandChip({ band }: { band: DoraBand | null }) {
+  if (!band) return null;
+  return <Chip size="small" label={band} color={BAND_COLORS[band]} variant="outlined" sx={{ textTransform: 'capitalize' }} />;
+}
+
+function MetricCard({ title, value, band, description }: { title: string; value: string; band: DoraBand | null; description: string }) {
+  return (
+    <Card>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography variant="subtitle2" color="text.secondary">{title}</Typography>
+          <BandChip band={band} />
+        </Box>
+        <Typography variant="h4" sx={{ fontWeight: 'bold' }}>{value}</Typography>
+        <Typography variant="caption" color="text.secondary">{description}</Typography>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TrendChart({ title, labels, data, color, format }: { title: string; labels: string[]; data: (number | null)[]; color: string; format: (value: number) => string }) {
+  const chartData = {
+    labels,
+    datasets: [{
+      label: title,
+      data,
+      borderColor: color,
+      backgroundColor: color,
+      tension: 0.3,
+      spanGaps: true,
+    }],
+  };
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: { display: false },
+      tooltip: {
+        callbacks: {
+          label: (item: any) => format(item.parsed.y),
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+        ticks: {
+          callback: (value: any) => format(Number(value)),
+        },
+      },
+    },
+  };
+
+  return (
+    <Paper sx={{ p: 2 }}>
+      <Typography variant="subtitle2" gutterBottom>{title}</Typography>
+      <Box sx={{ height: 200 }}>
+        <Line data={chartData} options={options} />
+      </Box>
+    </Paper>
+  );
+}
+
+// Deployment frequency, lead time for changes, change failure rate and time to restore, per repository and per group
+export default function DoraMetrics({ commits, pullRequests, releases, deployments, repositories, repositoryGroups }: DoraMetricsProps) {
+  const environments = useMemo(() => listEnvironments(deployments), [deployments]);
+  const [environment, setEnvironment] = useState<string>(() =>
+    environments.find(name => /^prod(uction)?$/i.test(name)) || environments[0] || RELEASES_ONLY
+  );
+  const [windowDays, setWindowDays] = useState(90);
+  const [scope, setScope] = useState('all'); // 'all', 'group:<name>' or 'repo:<owner/name>'
+  const [tableMode, setTableMode] = useState<'repositories' | 'groups'>('repositories');
+
+  const samplesByRepo = useMemo(() => {
+    const input = { commits, pullRequests, releases, deployments };
+    return new Map<string, DoraSamples>(repositories.map(repo => [repo.nameWithOwner, collectDoraSamples(repo, input, environment)]));
+  }, [commits, pullRequests, releases, deployments, repositories, environment]);
+
+  const { since, until } = useMemo(() => {
+    const until = new Date();
+    return { since: new Date(until.getTime() - windowDays * 24 * 60 * 60 * 1000), until };
+  }, [windowDays]);
+
+  const samplesFor = useCallback((repos: string[]) =>
+    repos.map(repo => samplesByRepo.get(repo)).filter((samples): samples is DoraSamples => Boolean(samples)),
+    [samplesByRepo]
+  );
+
+  const scopeSamples = useMemo(() => {
+    if (scope.startsWith('group:')) return samplesFor(repositoryGroups[scope.slice('group:'.length)] || []);
+    if (scope.startsWith('repo:')) return samplesFor([scope.slice('repo:'.length)]);
+    return Array.from(samplesByRepo.values());
+  }, [scope, samplesByRepo, samplesFor, repositoryGroups]);
+
+  const summary = useMemo(() => summarizeDora(scopeSamples, since, until), [scopeSamples, since, until]);
+  const trend = useMemo(() => doraTrend(scopeSamples, since, until), [scopeSamples, since, until]);
+  const trendLabels = trend.map(point => new Date(point.weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }));
+
+  // Rows with something to measure in the window, most frequent deployers first
+  const rows = useMemo(() => {
+    const entries: { name: string; url?: string; sources: string[]; metrics: DoraMetricValues }[] = tableMode === 'repositories'
+      ? repositories.map(repo => {
+        const samples = samplesFor([repo.nameWithOwner]);
+        return { name: repo.nameWithOwner, url: repo.url, sources: samples.map(sample => sample.source), metrics: summarizeDora(samples, since, until) };
+      })
+      : Object.entries(repositoryGroups).map(([group, repos]) => {
+        const samples = samplesFor(repos);
+        return { name: group, sources: Array.from(new Set(samples.map(sample => sample.source))), metrics: summarizeDora(samples, since, until) };
+      });
+    return entries
+      .filter(entry => entry.metrics.deployments > 0 || entry.metrics.changeFailureRate !== null)
+      .sort((a, b) => b.metrics.deploymentsPerWeek - a.metrics.deploymentsPerWeek);
+  }, [tableMode, repositories, repositoryGroups, samplesFor, since, until]);
+
+  const releaseFallbackCount = Array.from(samplesByRepo.values()).filter(samples => samples.source === 'releases' && samples.events.length > 0).length;
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom sx={{ fontWeight: 'bold' }}>
+        🚀 DORA Metrics
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        The four key delivery metrics from GitHub deployments, merged pull requests and commits. Repositories without deployments to the selected environment are measured by their releases, with a release counted as failed when CI failed on its tagged commit.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 3 }}>
+        <FormControl size="small" sx={{ minWidth: 200 }}>
+          <InputLabel>Environment</InputLabel>
+          <Select value={environment} label="Environment" onChange={(e) => setEnvironment(e.target.value)}>
+            {environments.map(name => <MenuItem key={name} value={name}>{name}</MenuItem>)}
+            <MenuItem value={RELEASES_ONLY}><em>Releases only</em></MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Window</InputLabel>
+          <Select value={windowDays} label="Window" onChange={(e) => setWindowDays(Number(e.target.value))}>
+            {WINDOW_OPTIONS.map(days => <MenuItem key={days} value={days}>Last {days} days</MenuItem>)}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 280 }}>
+          <InputLabel>Scope</InputLabel>
+          <Select value={scope} label="Scope" onChange={(e) => setScope(e.target.value)}>
+            <MenuItem value="all">All repositories</MenuItem>
+            {Object.keys(repositoryGroups).sort().map(group => (
+              <MenuItem key={`group:${group}`} value={`group:${group}`}>Group: {group}</MenuItem>
+            ))}
+            {repositories.map(repo => (
+              <MenuItem key={`repo:${repo.nameWithOwner}`} value={`repo:${repo.nameWithOwner}`}>{repo.nameWithOwner}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+
+      {environments.length === 0 && (
+        <Alert severity="info" sx={{ mb: 3 }}>
+          No GitHub deployments synced yet, so every repository is measured by its releases. Deployments are fetched during sync; run a full sync to backfill an existing cache.
+        </Alert>
+      )}
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid item xs={12} sm={6} md={3}>
+          <MetricCard
+            title="Deployment frequency"
+            value={`${summary.deploymentsPerWeek.toFixed(1)}/week`}
+            band={summary.deployments > 0 ? summary.bands.deploymentFrequency : null}
+            description={`${summary.deployments} successful deployments in ${windowDays} days`}
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <MetricCard
+            title="Lead time for changes"
+            value={formatHours(summary.leadTimeHours)}
+            band={summary.bands.leadTime}
+            description="Median from first commit to deployment"
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <MetricCard
+            title="Change failure rate"
+            value={formatRate(summary.changeFailureRate)}
+            band={summary.bands.changeFailureRate}
+            description="Deployments that failed"
+          />
+        </Grid>
+        <Grid item xs={12} sm={6} md={3}>
+          <MetricCard
+            title="Time to restore"
+            value={formatHours(summary.timeToRestoreHours)}
+            band={summary.bands.timeToRestore}
+            description="Mean from a failed deployment to the next successful one"
+          />
+        </Grid>
+      </Grid>
+
+      <Grid container spacing={2} sx={{ mb: 3 }}>
+        <Grid item xs={12} md={6}>
+          <TrendChart title="Deployments per week" labels={trendLabels} data={trend.map(point => point.deployments)} color={PROJECT_COLORS.chartBlue} format={value => value.toFixed(0)} />
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <TrendChart title="Median lead time" labels={trendLabels} data={trend.map(point => point.leadTimeHours)} color={PROJECT_COLORS.chartRelease} format={formatHours} />
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <TrendChart title="Change failure rate" labels={trendLabels} data={trend.map(point => point.changeFailureRate)} color={PROJECT_COLORS.chartDeletions} format={formatRate} />
+        </Grid>
+        <Grid item xs={12} md={6}>
+          <TrendChart title="Mean time to restore" labels={trendLabels} data={trend.map(point => point.timeToRestoreHours)} color={PROJECT_COLORS.badgeOrange} format={formatHours} />
+        </Grid>
+      </Grid>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">By {tableMode === 'repositories' ? 'repository' : 'group'}</Typography>
+        <ToggleButtonGroup size="small" exclusive value={tableMode} onChange={(_, mode) => mode && setTableMode(mode)}>
+          <ToggleButton value="repositories">Repositories</ToggleButton>
+          <ToggleButton value="groups">Groups</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {rows.length === 0 ? (
+        <Alert severity="info">No deployments or releases in the last {windowDays} days.</Alert>
+      ) : (
+        <TableContainer component={Paper}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{tableMode === 'repositories' ? 'Repository' : 'Group'}</TableCell>
+                <TableCell>Source</TableCell>
+                <TableCell>Deployment frequency</TableCell>
+                <TableCell>Lead time</TableCell>
+                <TableCell>Change failure rate</TableCell>
+                <TableCell>Time to restore</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map(({ name, url, sources, metrics }) => (
+                <TableRow key={name} hover>
+                  <TableCell>
+                    {url ? <Link href={url} target="_blank" rel="noopener" underline="hover">{name}</Link> : name}
+                  </TableCell>
+                  <TableCell>
+                    {sources.map(source => <Chip key={source} size="small" label={source} variant="outlined" sx={{ mr: 0.5 }} />)}
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={`${metrics.deployments} successful deployments`}>
+                      <span>{metrics.deploymentsPerWeek.toFixed(1)}/week </span>
+                    </Tooltip>
+                    <BandChip band={metrics.deployments > 0 ? metrics.bands.deploymentFrequency : null} />
+                  </TableCell>
+                  <TableCell>{formatHours(metrics.leadTimeHours)} <BandChip band={metrics.bands.leadTime} /></TableCell>
+                  <TableCell>{formatRate(metrics.changeFailureRate)} <BandChip band={metrics.bands.changeFailureRate} /></TableCell>
+                  <TableCell>{formatHours(metrics.timeToRestoreHours)} <BandChip band={metrics.bands.timeToRestore} /></TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {releaseFallbackCount > 0 && environment !== RELEASES_ONLY && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+          {releaseFallbackCount} {releaseFallbackCount === 1 ? 'repository has' : 'repositories have'} no deployments to {environment} and {releaseFallbackCount === 1 ? 'is' : 'are'} measured by releases.
+        </Typography>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Grid,
+  Card,
+  CardContent,
+  Paper,
+  Typography,
+  Chip,
+  Alert,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  Select,
+  MenuItem,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Link
+} from '@mui/material';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend,
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+import { GitHubPR } from '@/types/github';
+import { PROJECT_COLORS } from '@/lib/theme';
+import { formatHours, truncateText } from '@/utils/dateUtils';
+import { isBotAuthor } from '@/utils/attributionUtils';
+import {
+  computeCycleTime,
+  mergeWeek,
+  summarizeCycleTimes,
+  CYCLE_PHASES,
+  CYCLE_PHASE_LABELS,
+  CyclePhase,
+  Percentiles,
+  PRCycleTime as PRCycle
+} from '@/utils/cycleTimeUtils';
+
+ChartJS.register(
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Title,
+  Tooltip,
+  Legend
+);
+
+interface PRCycleTimeProps {
+  pullRequests: GitHubPR[];
+}
+
+type GroupBy = 'repo' | 'author' | 'week';
+
+const WINDOW_OPTIONS = [30, 90, 180];
+const MAX_BARS = 15;
+const SLOWEST_PRS = 25;
+
+const PHASE_COLORS: Record<CyclePhase, string> = {
+  coding: PROJECT_COLORS.chartBlue,
+  pickup: PROJECT_COLORS.badgeOrange,
+  review: PROJECT_COLORS.chartRelease,
+  merge: PROJECT_COLORS.chartAdditions
+};
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  repo: 'Repository',
+  author: 'Author',
+  week: 'Merge week'
+};
+
+function keyOf(groupBy: GroupBy) {
+  return (cycle: PRCycle) => groupBy === 'repo' ? cycle.pr.repo : groupBy === 'author' ? cycle.pr.author : mergeWeek(cycle);
+}
+
+// Where merged PRs spend their time, from first commit to merge, per repository, author or week
+export default function PRCycleTime({ pullRequests }: PRCycleTimeProps) {
+  const [groupBy, setGroupBy] = useState<GroupBy>('repo');
+  const [percentile, setPercentile] = useState<keyof Percentiles>('p50');
+  const [windowDays, setWindowDays] = useState(90);
+  const [includeBots, setIncludeBots] = useState(false);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const cycles = useMemo(() => {
+    const since = Date.now() - windowDays * 24 * 60 * 60 * 1000;
+    return pullRequests
+      .filter(pr => pr.merged_at && new Date(pr.merged_at).getTime() >= since)
+      .filter(pr => includeBots || !isBotAuthor(pr.author))
+      .map(computeCycleTime)
+      .filter((cycle): cycle is PRCycle => cycle !== null);
+  }, [pullRequests, windowDays, includeBots]);
+
+  const overall = useMemo(() => summarizeCycleTimes(cycles, () => 'all')[0], [cycles]);
+
+  // Busiest repositories and authors first; weeks in calendar order
+  const summaries = useMemo(() => {
+    const all = summarizeCycleTimes(cycles, keyOf(groupBy));
+    return groupBy === 'week'
+      ? all.sort((a, b) => a.key.localeCompare(b.key))
+      : all.sort((a, b) => b.count - a.count).slice(0, MAX_BARS);
+  }, [cycles, groupBy]);
+
+  const chartData = {
+    labels: summaries.map(summary => groupBy === 'repo' ? summary.key.split('/')[1] : summary.key),
+    datasets: CYCLE_PHASES.map(phase => ({
+      label: CYCLE_PHASE_LABELS[phase],
+      data: summaries.map(summary => summary.phases[phase]?.[percentile] ?? 0),
+      backgroundColor: PHASE_COLORS[phase],
+      borderWidth: 0,
+    })),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    onClick: (event: any, elements: any) => {
+      if (elements.length > 0) {
+        const key = summaries[elements[0].index]?.key;
+        setSelectedKey(key === selectedKey ? null : key);
+      }
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+        callbacks: {
+          label: (item: any) => `${item.dataset.label}: ${formatHours(item.parsed.y)}`,
+          afterBody: (items: any[]) => {
+            const summary = items.length > 0 ? summaries[items[0].dataIndex] : undefined;
+            return summary ? ['', `${summary.count} merged PRs`, '💡 Click bar for the slowest PRs'] : [];
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        stacked: true,
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        ticks: {
+          callback: (value: any) => formatHours(Number(value)),
+        },
+      },
+    },
+    onHover: (event: any, elements: any) => {
+      event.native.target.style.cursor = elements.length > 0 ? 'pointer' : 'default';
+    },
+  };
+
+  const slowest = useMemo(() => cycles
+    .filter(cycle => !selectedKey || keyOf(groupBy)(cycle) === selectedKey)
+    .sort((a, b) => b.totalHours - a.totalHours)
+    .slice(0, SLOWEST_PRS),
+    [cycles, groupBy, selectedKey]
+  );
+
+  const handleGroupByChange = (value: GroupBy | null) => {
+    if (!value) return;
+    setGroupBy(value);
+    setSelectedKey(null);
+  };
+
+  const missingFirstCommit = cycles.filter(cycle => cycle.phases.coding === null).length;
+
+  return (
+    <Box>
+      <Typography variant="h5" gutterBottom sx={{ fontWeight: 'bold' }}>
+        ⏱️ PR Cycle Time
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Merged pull requests split into coding (first commit to ready for review), pickup (ready to first review), review (first review to last approval) and merge (last approval to merge). Stacked bars show each phase&apos;s percentile separately, so they don&apos;t add up to the total&apos;s percentile.
+      </Typography>
+
+      <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 3 }}>
+        <ToggleButtonGroup size="small" exclusive value={groupBy} onChange={(_, value) => handleGroupByChange(value)}>
+          <ToggleButton value="repo">Repository</ToggleButton>
+          <ToggleButton value="author">Author</ToggleButton>
+          <ToggleButton value="week">Week</ToggleButton>
+        </ToggleButtonGroup>
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>Percentile</InputLabel>
+          <Select value={percentile} label="Percentile" onChange={(e) => setPercentile(e.target.value as keyof Percentiles)}>
+            <MenuItem value="p50">p50</MenuItem>
+            <MenuItem value="p75">p75</MenuItem>
+            <MenuItem value="p90">p90</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Merged in</InputLabel>
+          <Select value={windowDays} label="Merged in" onChange={(e) => setWindowDays(Number(e.target.value))}>
+            {WINDOW_OPTIONS.map(days => <MenuItem key={days} value={days}>Last {days} days</MenuItem>)}
+          </Select>
+        </FormControl>
+        <FormControlLabel
+          control={<Switch size="small" checked={includeBots} onChange={(e) => setIncludeBots(e.target.checked)} />}
+          label={<Typography variant="body2">Include bots</Typography>}
+        />
+      </Box>
+
+      {!overall ? (
+        <Alert severity="info">No pull requests merged in the last {windowDays} days.</Alert>
+      ) : (
+        <>
+          <Grid container spacing={2} sx={{ mb: 3 }}>
+            {CYCLE_PHASES.map(phase => (
+              <Grid item xs={6} md={2.4} key={phase}>
+                <Card>
+                  <CardContent>
+                    <Typography variant="subtitle2" color="text.secondary">{CYCLE_PHASE_LABELS[phase]}</Typography>
+                    <Typography variant="h5" sx={{ fontWeight: 'bold', color: PHASE_COLORS[phase] }}>
+                      {formatHours(overall.phases[phase]?.[percentile] ?? null)}
+                    </Typography>
+                    <Typography variant="caption" color="text.secondary">{percentile}</Typography>
+                  </CardContent>
+                </Card>
+              </Grid>
+            ))}
+            <Grid item xs={12} md={2.4}>
+              <Card>
+                <CardContent>
+                  <Typography variant="subtitle2" color="text.secondary">Total</Typography>
+                  <Typography variant="h5" sx={{ fontWeight: 'bold' }}>{formatHours(overall.total[percentile])}</Typography>
+                  <Typography variant="caption" color="text.secondary">{percentile} of {overall.count} merged PRs</Typography>
+                </CardContent>
+              </Card>
+            </Grid>
+          </Grid>
+
+          <Paper sx={{ p: 3, mb: 3 }}>
+            <Typography variant="subtitle1" gutterBottom align="center">
+              {percentile} time per phase by {GROUP_LABELS[groupBy].toLowerCase()}{groupBy !== 'week' && summaries.length === MAX_BARS ? ` (${MAX_BARS} with the most merged PRs)` : ''}
+            </Typography>
+            <Box sx={{ height: 350 }}>
+              <Bar data={chartData} options={chartOptions} />
+            </Box>
+          </Paper>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <Typography variant="h6">Slowest PRs</Typography>
+            {selectedKey && (
+              <Chip size="small" label={`${GROUP_LABELS[groupBy]}: ${selectedKey}`} onDelete={() => setSelectedKey(null)} />
+            )}
+          </Box>
+          <TableContainer component={Paper}>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Pull request</TableCell>
+                  <TableCell>Author</TableCell>
+                  {CYCLE_PHASES.map(phase => <TableCell key={phase} align="right">{CYCLE_PHASE_LABELS[phase]}</TableCell>)}
+                  <TableCell align="right">Total</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {slowest.map(cycle => (
+                  <TableRow key={`${cycle.pr.repo}-${cycle.pr.number}`} hover>
+                    <TableCell>
+                      <Link href={cycle.pr.url} target="_blank" rel="noopener" underline="hover">
+                        {cycle.pr.repo.split('/')[1]}#{cycle.pr.number}
+                      </Link>
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }}>
+                        {truncateText(cycle.pr.title, 60)}
+                      </Typography>
+                    </TableCell>
+                    <TableCell>{cycle.pr.author}</TableCell>
+                    {CYCLE_PHASES.map(phase => (
+                      <TableCell key={phase} align="right" sx={{ whiteSpace: 'nowrap' }}>{formatHours(cycle.phases[phase])}</TableCell>
+                    ))}
+                    <TableCell align="right" sx={{ whiteSpace: 'nowrap', fontWeight: 600 }}>{formatHours(cycle.totalHours)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+
+          {missingFirstCommit > 0 && (
+            <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 1 }}>
+              {missingFirstCommit} of {cycles.length} PRs have no first commit date yet and show no coding time; run a full sync to backfill them.
+            </Typography>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
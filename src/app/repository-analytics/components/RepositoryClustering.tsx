@@ -126,9 +126,16 @@ export default function RepositoryClustering({
       const recentCommits = repoCommits.filter(c => new Date(c.date) > thirtyDaysAgo);
       const recentActivity = recentCommits.length;
 
-      // Calculate complexity (contributors + branches + PRs)
+      // Churn score: log scale so a 5,000-line refactor weighs more than a typo fix without swamping everything else
+      const commitsWithStats = repoCommits.filter(c => c.additions !== undefined || c.deletions !== undefined);
+      const avgChurn = commitsWithStats.length > 0
+        ? commitsWithStats.reduce((sum, c) => sum + (c.additions ?? 0) + (c.deletions ?? 0), 0) / commitsWithStats.length
+        : 0;
+      const churnScore = Math.round(2 * Math.log2(1 + avgChurn));
+
+      // Calculate complexity (contributors + branches + PRs + churn)
       const uniqueBranches = Array.from(new Set(repoCommits.map(c => c.branch_name)));
-      const complexity = contributors.length * 2 + uniqueBranches.length + repoPRs.length;
+      const complexity = contributors.length * 2 + uniqueBranches.length + repoPRs.length + churnScore;
 
       return {
         repository: repo,
@@ -276,7 +283,7 @@ export default function RepositoryClustering({
                       • Activity Pattern (20%): Pearson correlation of weekly commit timing
                       • Maturity Alignment (15%): Age and development stage similarity
                       • Recent Activity (15%): Similar current development intensity
-                      • Complexity Match (10%): Organizational complexity similarity
+                      • Complexity Match (10%): Organizational complexity and code churn similarity
                       • Scale Similarity (15%): Total commit volume alignment
                     </Typography>
                     <Typography variant="body2" paragraph>
@@ -153,8 +153,8 @@ export default function SimilarityMetrics({ clusteringResult }: SimilarityMetric
             </Typography>
             <Typography variant="body2" paragraph>
               <strong>🌐 Complexity (10%):</strong><br/>
-              (contributors × 2) + branches + PRs similarity<br/>
-              <em>Measures project organizational complexity</em>
+              (contributors × 2) + branches + PRs + churn similarity, where churn is 2 × log₂(1 + average lines changed per commit)<br/>
+              <em>Measures project organizational complexity and size of changes</em>
             </Typography>
           </Grid>
         </Grid>
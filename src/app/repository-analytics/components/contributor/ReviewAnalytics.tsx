@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Grid,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  LinearProgress,
+  Chip,
+  Alert
+} from '@mui/material';
+import { GitHubPR } from '@/types/github';
+import { formatHours } from '@/utils/dateUtils';
+import { median, percentile } from '@/utils/statsUtils';
+
+interface ReviewAnalyticsProps {
+  pullRequests: GitHubPR[];
+}
+
+interface ReviewerLoad {
+  reviewer: string;
+  prsReviewed: number;
+  approvals: number;
+  changesRequested: number;
+  comments: number;
+  pendingRequests: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export default function ReviewAnalytics({ pullRequests }: ReviewAnalyticsProps) {
+  const analysis = useMemo(() => {
+    const timeToFirstReview: number[] = [];
+    const approvalToMerge: number[] = [];
+    const loadMap = new Map<string, ReviewerLoad>();
+    let prsWithReviewData = 0;
+    let unreviewedOpenPRs = 0;
+
+    const getLoad = (reviewer: string) => {
+      if (!loadMap.has(reviewer)) {
+        loadMap.set(reviewer, {
+          reviewer,
+          prsReviewed: 0,
+          approvals: 0,
+          changesRequested: 0,
+          comments: 0,
+          pendingRequests: 0
+        });
+      }
+      return loadMap.get(reviewer)!;
+    };
+
+    pullRequests.forEach(pr => {
+      // PRs cached before review data was fetched carry no reviews field at all
+      if (!pr.reviews) return;
+      prsWithReviewData++;
+
+      // Self-reviews (author commenting on their own PR) don't count as review activity
+      const reviews = pr.reviews
+        .filter(review => review.reviewer !== pr.author)
+        .sort((a, b) => new Date(a.submitted_at).getTime() - new Date(b.submitted_at).getTime());
+
+      if (reviews.length > 0) {
+        const firstReviewDelay = new Date(reviews[0].submitted_at).getTime() - new Date(pr.created_at).getTime();
+        if (firstReviewDelay >= 0) {
+          timeToFirstReview.push(firstReviewDelay / HOUR_MS);
+        }
+      } else if (pr.state === 'Open') {
+        unreviewedOpenPRs++;
+      }
+
+      // Approval-to-merge uses the last approval submitted before the merge
+      if (pr.merged_at) {
+        const mergedAt = new Date(pr.merged_at).getTime();
+        const approvalsBeforeMerge = reviews.filter(review =>
+          review.state === 'APPROVED' && new Date(review.submitted_at).getTime() <= mergedAt
+        );
+        if (approvalsBeforeMerge.length > 0) {
+          const lastApproval = approvalsBeforeMerge[approvalsBeforeMerge.length - 1];
+          approvalToMerge.push((mergedAt - new Date(lastApproval.submitted_at).getTime()) / HOUR_MS);
+        }
+      }
+
+      const reviewersOnPR = new Set<string>();
+      reviews.forEach(review => {
+        const load = getLoad(review.reviewer);
+        if (review.state === 'APPROVED') load.approvals++;
+        else if (review.state === 'CHANGES_REQUESTED') load.changesRequested++;
+        else if (review.state === 'COMMENTED') load.comments++;
+        reviewersOnPR.add(review.reviewer);
+      });
+      reviewersOnPR.forEach(reviewer => getLoad(reviewer).prsReviewed++);
+
+      if (pr.state === 'Open') {
+        (pr.requested_reviewers || []).forEach(reviewer => getLoad(reviewer).pendingRequests++);
+      }
+    });
+
+    const reviewerLoad = Array.from(loadMap.values())
+      .sort((a, b) => (b.prsReviewed + b.pendingRequests) - (a.prsReviewed + a.pendingRequests));
+
+    return {
+      prsWithReviewData,
+      unreviewedOpenPRs,
+      reviewedPRs: timeToFirstReview.length,
+      firstReviewMedian: median(timeToFirstReview),
+      firstReviewP90: percentile(timeToFirstReview, 90),
+      approvalToMergeMedian: median(approvalToMerge),
+      approvalToMergeP90: percentile(approvalToMerge, 90),
+      reviewerLoad
+    };
+  }, [pullRequests]);
+
+  if (analysis.prsWithReviewData === 0) {
+    return (
+      <Alert severity="info">
+        No review data available for the selected time period. Review information is collected on the next sync.
+      </Alert>
+    );
+  }
+
+  const maxLoad = Math.max(1, ...analysis.reviewerLoad.map(load => load.prsReviewed + load.pendingRequests));
+
+  const summaryTiles = [
+    {
+      label: 'Median Time to First Review',
+      value: formatHours(analysis.firstReviewMedian),
+      detail: `p90: ${formatHours(analysis.firstReviewP90)} across ${analysis.reviewedPRs} PRs`,
+      color: '#1976d2'
+    },
+    {
+      label: 'Median Approval → Merge',
+      value: formatHours(analysis.approvalToMergeMedian),
+      detail: `p90: ${formatHours(analysis.approvalToMergeP90)}`,
+      color: '#388e3c'
+    },
+    {
+      label: 'Active Reviewers',
+      value: analysis.reviewerLoad.filter(load => load.prsReviewed > 0).length.toString(),
+      detail: `${analysis.prsWithReviewData} PRs analyzed`,
+      color: '#7b1fa2'
+    },
+    {
+      label: 'Open PRs Awaiting Review',
+      value: analysis.unreviewedOpenPRs.toString(),
+      detail: 'No review submitted yet',
+      color: '#f57c00'
+    }
+  ];
+
+  return (
+    <Box sx={{ p: 1 }}>
+      <Grid container spacing={2} sx={{ mb: 4 }}>
+        {summaryTiles.map(tile => (
+          <Grid item xs={12} sm={6} md={3} key={tile.label}>
+            <Box sx={{ textAlign: 'center', p: 2, borderRadius: 1, backgroundColor: `${tile.color}20`, height: '100%' }}>
+              <Typography variant="h4" sx={{ color: tile.color, fontWeight: 'bold' }}>
+                {tile.value}
+              </Typography>
+              <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                {tile.label}
+              </Typography>
+              <Typography variant="caption" color="text.secondary">
+                {tile.detail}
+              </Typography>
+            </Box>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Typography variant="h6" sx={{ fontWeight: 'bold', mb: 2 }}>
+        Review Load per Person
+      </Typography>
+      <TableContainer sx={{ border: '1px solid', borderColor: 'divider', borderRadius: 2 }}>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell sx={{ fontWeight: 'bold' }}>Reviewer</TableCell>
+              <TableCell sx={{ fontWeight: 'bold', width: '30%' }}>Load</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 'bold' }}>PRs Reviewed</TableCell>
+              <TableCell align="right" sx={{ fontWeight: 'bold' }}>Pending Requests</TableCell>
+              <TableCell sx={{ fontWeight: 'bold' }}>Review States</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {analysis.reviewerLoad.slice(0, 15).map(load => (
+              <TableRow key={load.reviewer} hover>
+                <TableCell>{load.reviewer}</TableCell>
+                <TableCell>
+                  <LinearProgress
+                    variant="determinate"
+                    value={((load.prsReviewed + load.pendingRequests) / maxLoad) * 100}
+                    sx={{ height: 8, borderRadius: 4 }}
+                  />
+                </TableCell>
+                <TableCell align="right">{load.prsReviewed}</TableCell>
+                <TableCell align="right">{load.pendingRequests}</TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                    {load.approvals > 0 && (
+                      <Chip label={`✅ ${load.approvals}`} size="small" sx={{ backgroundColor: '#388e3c20' }} />
+                    )}
+                    {load.changesRequested > 0 && (
+                      <Chip label={`✋ ${load.changesRequested}`} size="small" sx={{ backgroundColor: '#d32f2f20' }} />
+                    )}
+                    {load.comments > 0 && (
+                      <Chip label={`💬 ${load.comments}`} size="small" sx={{ backgroundColor: '#1976d220' }} />
+                    )}
+                  </Box>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Box>
+  );
+}
@@ -304,7 +304,8 @@ export default function SimpleCollaborationNetwork({
   const getNetworkStats = () => {
     const uniqueContributors = new Set(commits.map(c => c.author)).size;
     const uniqueRepos = new Set(commits.map(c => c.repo)).size;
-    const totalCommits = commits.length;
+    // Co-authored commits arrive once per credited person
+    const totalCommits = new Set(commits.map(c => `${c.repo}-${c.sha}`)).size;
     
     return { uniqueContributors, uniqueRepos, totalCommits };
   };
@@ -15,11 +15,13 @@ import {
   Snackbar,
   Grid
 } from '@mui/material';
-import { Analytics, Hub, Menu, Refresh } from '@mui/icons-material';
+import { Analytics, Hub, Menu, Refresh, RocketLaunch, Timer } from '@mui/icons-material';
 import Header from '@/components/Header';
 import Sidebar from '@/components/Sidebar';
 import ContributorAnalytics from './components/ContributorAnalytics';
 import RepositoryClustering from './components/RepositoryClustering';
+import DoraMetrics from './components/DoraMetrics';
+import PRCycleTime from './components/PRCycleTime';
 import { GitHubCommit, GitHubPR, GitHubRepository, GitHubUser, GitHubData } from '@/types/github';
 import { mockData } from '@/data/mockData';
 import { fetchGitHubData, refreshGitHubData, fullSyncGitHubData } from '@/lib/apiClient';
@@ -351,6 +353,12 @@ export default function RepositoryAnalyticsPage() {
                 <Typography variant="body2" paragraph>
                   <strong>🎩 Smart Recommendations:</strong> Personalized suggestions for repositories to contribute to, collaborate on, or learn from based on your contribution patterns.
                 </Typography>
+                <Typography variant="body2" paragraph>
+                  <strong>🚀 DORA Metrics:</strong> Deployment frequency, lead time for changes, change failure rate and time to restore per repository and repository group, with weekly trends and elite/high/medium/low banding.
+                </Typography>
+                <Typography variant="body2" paragraph>
+                  <strong>⏱️ PR Cycle Time:</strong> Where merged pull requests spend their time - coding, waiting for a first review, in review and waiting to merge - as percentiles per repository, author or week, with the slowest PRs behind each bar.
+                </Typography>
                 <Typography variant="body2">
                   <strong>📊 Detailed Metrics:</strong> All calculations are transparent with hover tooltips explaining formulas, thresholds, and interpretation guidelines.
                 </Typography>
@@ -390,6 +398,16 @@ export default function RepositoryAnalyticsPage() {
               label="Repository Clustering" 
               {...a11yProps(1)} 
             />
+            <Tab 
+              icon={<RocketLaunch sx={{ fontSize: 32, mb: 1 }} />} 
+              label="DORA Metrics" 
+              {...a11yProps(2)} 
+            />
+            <Tab 
+              icon={<Timer sx={{ fontSize: 32, mb: 1 }} />} 
+              label="PR Cycle Time" 
+              {...a11yProps(3)} 
+            />
           </Tabs>
 
           <TabPanel value={tabValue} index={0}>
@@ -409,6 +427,21 @@ export default function RepositoryAnalyticsPage() {
               userInfo={data.user_info!}
             />
           </TabPanel>
+
+          <TabPanel value={tabValue} index={2}>
+            <DoraMetrics 
+              commits={data.commits || []}
+              pullRequests={data.pull_requests || []}
+              releases={data.releases || []}
+              deployments={data.deployments || []}
+              repositories={data.repositories || []}
+              repositoryGroups={data.repository_groups || {}}
+            />
+          </TabPanel>
+
+          <TabPanel value={tabValue} index={3}>
+            <PRCycleTime pullRequests={data.pull_requests || []} />
+          </TabPanel>
         </Paper>
       </Container>
 
@@ -440,6 +473,7 @@ export default function RepositoryAnalyticsPage() {
         onRefresh={handleRefresh}
         onFullSync={handleFullSync}
         debugMode={debugMode}
+        rateLimit={data?.rate_limit}
       />
 
       <Snackbar
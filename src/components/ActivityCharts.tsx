@@ -6,7 +6,9 @@ import {
   Paper,
   Typography,
   Grid,
-  Alert
+  Alert,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
 import {
   Chart as ChartJS,
@@ -16,11 +18,14 @@ import {
   Title,
   Tooltip,
   Legend,
+  Plugin,
 } from 'chart.js';
 import { Bar } from 'react-chartjs-2';
-import { GitHubCommit, GitHubPR } from '@/types/github';
+import { GitHubCommit, GitHubPR, GitHubRelease } from '@/types/github';
 import { PROJECT_COLORS } from '@/lib/theme';
 import { truncateText } from '@/utils/dateUtils';
+import { attributeCommits, filterBotCommits, isBotAuthor } from '@/utils/attributionUtils';
+import { prSize, PR_SIZES, PR_SIZE_LABELS } from '@/utils/prSizeUtils';
 import CommitDetailsModal from './CommitDetailsModal';
 import PRDetailsModal from './PRDetailsModal';
 
@@ -36,13 +41,56 @@ ChartJS.register(
 interface ActivityChartsProps {
   commits: GitHubCommit[];
   pullRequests: GitHubPR[];
+  releases?: GitHubRelease[];
 }
 
-export default function ActivityCharts({ commits, pullRequests }: ActivityChartsProps) {
+const WEEKLY_ACTIVITY_WEEKS = 26;
+
+// Local midnight on the Monday of the date's week
+function startOfWeek(date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+}
+
+// Dashed vertical line with the tag name above each week that had a release
+function releaseMarkerPlugin(markers: Map<number, string[]>): Plugin<'bar'> {
+  return {
+    id: 'releaseMarkers',
+    afterDatasetsDraw: (chart) => {
+      const { ctx, chartArea, scales } = chart;
+      ctx.save();
+      ctx.strokeStyle = PROJECT_COLORS.chartRelease;
+      ctx.fillStyle = PROJECT_COLORS.chartRelease;
+      ctx.setLineDash([4, 4]);
+      ctx.font = '10px sans-serif';
+      ctx.textAlign = 'center';
+      markers.forEach((tags, index) => {
+        const x = scales.x.getPixelForValue(index);
+        ctx.beginPath();
+        ctx.moveTo(x, chartArea.top);
+        ctx.lineTo(x, chartArea.bottom);
+        ctx.stroke();
+        ctx.fillText(tags.length > 1 ? `${tags[0]} +${tags.length - 1}` : tags[0], x, chartArea.top - 4);
+      });
+      ctx.restore();
+    }
+  };
+}
+
+export default function ActivityCharts({ commits, pullRequests, releases = [] }: ActivityChartsProps) {
   // Modal state
   const [commitModalOpen, setCommitModalOpen] = useState(false);
   const [prModalOpen, setPrModalOpen] = useState(false);
   const [selectedContributor, setSelectedContributor] = useState<string>('');
+  const [includeBots, setIncludeBots] = useState(false);
+  const [creditCoAuthors, setCreditCoAuthors] = useState(true);
+
+  // Commits as credited to people: bots dropped unless included, co-authored commits counted for each co-author too
+  const attributedCommits = useMemo(() =>
+    attributeCommits(Array.isArray(commits) ? commits : [], { includeBots, creditCoAuthors }),
+    [commits, includeBots, creditCoAuthors]
+  );
 
   // Data integrity check to catch inconsistencies
   const dataChecksum = useMemo(() => {
@@ -91,7 +139,7 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
 
   const commitChartData = useMemo(() => {
     // Ensure we have valid commits data
-    if (!Array.isArray(commits) || commits.length === 0) {
+    if (attributedCommits.length === 0) {
       return {
         labels: [],
         datasets: [{
@@ -104,7 +152,7 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
       };
     }
     
-    const commitsByUser = commits.reduce((acc, commit) => {
+    const commitsByUser = attributedCommits.reduce((acc, commit) => {
       // Ensure commit has required fields
       if (!commit || !commit.author) {
         return acc;
@@ -131,7 +179,106 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
         },
       ],
     };
-  }, [commits]);
+  }, [attributedCommits]);
+
+  // Lines changed per contributor, from commits that carry diff stats; top 15 by total churn
+  const churnChartData = useMemo(() => {
+    const churnByUser = attributedCommits.reduce((acc, commit) => {
+      if (!commit?.author || (commit.additions === undefined && commit.deletions === undefined)) {
+        return acc;
+      }
+      const author = truncateText(commit.author, 12);
+      const totals = acc[author] || { additions: 0, deletions: 0 };
+      acc[author] = {
+        additions: totals.additions + (commit.additions ?? 0),
+        deletions: totals.deletions + (commit.deletions ?? 0)
+      };
+      return acc;
+    }, {} as Record<string, { additions: number; deletions: number }>);
+
+    const sortedUsers = Object.entries(churnByUser)
+      .sort(([, a], [, b]) => (b.additions + b.deletions) - (a.additions + a.deletions))
+      .slice(0, 15);
+
+    return {
+      labels: sortedUsers.map(([user]) => user),
+      datasets: [
+        {
+          label: 'Additions',
+          data: sortedUsers.map(([, totals]) => totals.additions),
+          backgroundColor: PROJECT_COLORS.chartAdditions,
+          borderWidth: 0,
+        },
+        {
+          label: 'Deletions',
+          data: sortedUsers.map(([, totals]) => totals.deletions),
+          backgroundColor: PROJECT_COLORS.chartDeletions,
+          borderWidth: 0,
+        },
+      ],
+    };
+  }, [attributedCommits]);
+
+  // Commits and merged PRs per week over the last six months, with the releases shipped in each week
+  const weeklyActivity = useMemo(() => {
+    const firstWeek = startOfWeek(new Date());
+    firstWeek.setDate(firstWeek.getDate() - (WEEKLY_ACTIVITY_WEEKS - 1) * 7);
+    const weekIndex = (date: string) => Math.floor((startOfWeek(new Date(date)).getTime() - firstWeek.getTime()) / (7 * 24 * 60 * 60 * 1000) + 0.5);
+    const inRange = (index: number) => index >= 0 && index < WEEKLY_ACTIVITY_WEEKS;
+
+    const labels = Array.from({ length: WEEKLY_ACTIVITY_WEEKS }, (_, index) => {
+      const week = new Date(firstWeek);
+      week.setDate(week.getDate() + index * 7);
+      return week.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    });
+    const commitCounts = new Array(WEEKLY_ACTIVITY_WEEKS).fill(0);
+    const mergedPRCounts = new Array(WEEKLY_ACTIVITY_WEEKS).fill(0);
+
+    filterBotCommits(commits, includeBots).forEach(commit => {
+      const index = weekIndex(commit.date);
+      if (inRange(index)) commitCounts[index]++;
+    });
+    pullRequests
+      .filter(pr => pr.merged_at && (includeBots || !isBotAuthor(pr.author)))
+      .forEach(pr => {
+        const index = weekIndex(pr.merged_at!);
+        if (inRange(index)) mergedPRCounts[index]++;
+      });
+
+    // Oldest first, so a week's label starts with the first release shipped in it
+    const markers = new Map<number, string[]>();
+    [...releases]
+      .filter(release => !release.is_prerelease)
+      .sort((a, b) => new Date(a.published_at).getTime() - new Date(b.published_at).getTime())
+      .forEach(release => {
+        const index = weekIndex(release.published_at);
+        if (inRange(index)) markers.set(index, [...(markers.get(index) || []), release.tag]);
+      });
+
+    return {
+      markers,
+      chartData: {
+        labels,
+        datasets: [
+          {
+            label: 'Commits',
+            data: commitCounts,
+            backgroundColor: PROJECT_COLORS.chartBlue,
+            borderColor: PROJECT_COLORS.chartBorderCommit,
+            borderWidth: 1,
+          },
+          {
+            label: 'Merged PRs',
+            data: mergedPRCounts,
+            backgroundColor: PROJECT_COLORS.chartAdditions,
+            borderWidth: 0,
+          },
+        ],
+      },
+    };
+  }, [commits, pullRequests, releases, includeBots]);
+
+  const weeklyReleasePlugins = useMemo(() => [releaseMarkerPlugin(weeklyActivity.markers)], [weeklyActivity]);
 
   const prChartData = useMemo(() => {
     // Ensure we have valid PRs data
@@ -150,7 +297,7 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
     
     const prsByUser = pullRequests.reduce((acc, pr) => {
       // Ensure PR has required fields
-      if (!pr || !pr.author) {
+      if (!pr || !pr.author || (!includeBots && isBotAuthor(pr.author))) {
         return acc;
       }
       const author = truncateText(pr.author, 12);
@@ -175,7 +322,37 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
         },
       ],
     };
-  }, [pullRequests]);
+  }, [pullRequests, includeBots]);
+
+  // PRs per size bucket, split by state; PRs without synced diff stats are left out
+  const prSizeChartData = useMemo(() => {
+    const states: { state: GitHubPR['state']; color: string }[] = [
+      { state: 'Merged', color: PROJECT_COLORS.chartRelease },
+      { state: 'Open', color: PROJECT_COLORS.chartAdditions },
+      { state: 'Closed', color: PROJECT_COLORS.chartDeletions },
+    ];
+    const counts = new Map<string, number>();
+    let sized = 0;
+    pullRequests.forEach(pr => {
+      const size = pr?.author && (includeBots || !isBotAuthor(pr.author)) ? prSize(pr) : null;
+      if (!size) return;
+      counts.set(`${pr.state}-${size}`, (counts.get(`${pr.state}-${size}`) || 0) + 1);
+      sized++;
+    });
+
+    return {
+      sized,
+      chartData: {
+        labels: PR_SIZES.map(size => PR_SIZE_LABELS[size]),
+        datasets: states.map(({ state, color }) => ({
+          label: state,
+          data: PR_SIZES.map(size => counts.get(`${state}-${size}`) || 0),
+          backgroundColor: color,
+          borderWidth: 0,
+        })),
+      },
+    };
+  }, [pullRequests, includeBots]);
 
   // Click handlers for charts
   const handleCommitChartClick = (event: any, elements: any) => {
@@ -189,6 +366,16 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
     }
   };
 
+  const handleChurnChartClick = (event: any, elements: any) => {
+    if (elements.length > 0) {
+      const contributor = churnChartData.labels[elements[0].index];
+      if (contributor) {
+        setSelectedContributor(contributor);
+        setCommitModalOpen(true);
+      }
+    }
+  };
+
   const handlePRChartClick = (event: any, elements: any) => {
     if (elements.length > 0) {
       const elementIndex = elements[0].index;
@@ -229,6 +416,64 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
     },
   };
 
+  const churnChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    onClick: handleChurnChartClick,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+        callbacks: {
+          afterBody: () => ['', '💡 Click bar for detailed view'],
+        },
+      },
+    },
+    scales: {
+      x: {
+        stacked: true,
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+      },
+    },
+    onHover: (event: any, elements: any) => {
+      event.native.target.style.cursor = elements.length > 0 ? 'pointer' : 'default';
+    },
+  };
+
+  const weeklyChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    layout: {
+      padding: { top: 16 }, // Room for the release labels above the plot area
+    },
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+        callbacks: {
+          afterBody: (items: any[]) => {
+            const tags = items.length > 0 ? weeklyActivity.markers.get(items[0].dataIndex) : undefined;
+            return tags ? ['', `🏷️ Released: ${tags.join(', ')}`] : [];
+          },
+        },
+      },
+    },
+    scales: {
+      y: {
+        beginAtZero: true,
+      },
+    },
+  };
+
   const prChartOptions = {
     responsive: true,
     maintainAspectRatio: false,
@@ -258,6 +503,32 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
     },
   };
 
+  const prSizeChartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        position: 'top' as const,
+      },
+      tooltip: {
+        mode: 'index' as const,
+        intersect: false,
+      },
+    },
+    scales: {
+      x: {
+        stacked: true,
+      },
+      y: {
+        stacked: true,
+        beginAtZero: true,
+        ticks: {
+          stepSize: 1,
+        },
+      },
+    },
+  };
+
   if (process.env.NODE_ENV === 'development') {
     console.group('📊 Chart Data Preparation');
     console.time('Chart Data Prep');
@@ -294,19 +565,29 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
           📊 Activity Charts
         </Typography>
         
-        {earliestDataInfo && (
-          <Typography 
-            variant="caption" 
-            color="text.secondary"
-            sx={{ 
-              fontStyle: 'italic',
-              opacity: 0.7,
-              fontSize: '0.75rem'
-            }}
-          >
-            Data from {earliestDataInfo.date} ({earliestDataInfo.totalItems} items)
-          </Typography>
-        )}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <FormControlLabel
+            control={<Switch size="small" checked={includeBots} onChange={(e) => setIncludeBots(e.target.checked)} />}
+            label={<Typography variant="body2">Include bots</Typography>}
+          />
+          <FormControlLabel
+            control={<Switch size="small" checked={creditCoAuthors} onChange={(e) => setCreditCoAuthors(e.target.checked)} />}
+            label={<Typography variant="body2">Credit co-authors</Typography>}
+          />
+          {earliestDataInfo && (
+            <Typography 
+              variant="caption" 
+              color="text.secondary"
+              sx={{ 
+                fontStyle: 'italic',
+                opacity: 0.7,
+                fontSize: '0.75rem'
+              }}
+            >
+              Data from {earliestDataInfo.date} ({earliestDataInfo.totalItems} items)
+            </Typography>
+          )}
+        </Box>
       </Box>
       
       {/* UX Helper Message */}
@@ -348,6 +629,30 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
           </Paper>
         </Grid>
         
+        <Grid item xs={12}>
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="subtitle1" gutterBottom align="center">
+              Weekly Activity (last {WEEKLY_ACTIVITY_WEEKS} weeks{weeklyActivity.markers.size > 0 ? ', with releases' : ''})
+            </Typography>
+            <Box sx={{ height: 300 }}>
+              <Bar data={weeklyActivity.chartData} options={weeklyChartOptions} plugins={weeklyReleasePlugins} />
+            </Box>
+          </Paper>
+        </Grid>
+
+        {churnChartData.labels.length > 0 && (
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="subtitle1" gutterBottom align="center">
+                Lines Changed (Top 15 contributors by additions + deletions)
+              </Typography>
+              <Box sx={{ height: 350 }}>
+                <Bar data={churnChartData} options={churnChartOptions} />
+              </Box>
+            </Paper>
+          </Grid>
+        )}
+        
         <Grid item xs={12}>
           <Paper sx={{ p: 3 }}>
             <Typography variant="subtitle1" gutterBottom align="center">
@@ -358,15 +663,28 @@ export default function ActivityCharts({ commits, pullRequests }: ActivityCharts
             </Box>
           </Paper>
         </Grid>
+
+        {prSizeChartData.sized > 0 && (
+          <Grid item xs={12}>
+            <Paper sx={{ p: 3 }}>
+              <Typography variant="subtitle1" gutterBottom align="center">
+                Pull Request Size (lines added + deleted, {prSizeChartData.sized} PRs with diff stats)
+              </Typography>
+              <Box sx={{ height: 300 }}>
+                <Bar data={prSizeChartData.chartData} options={prSizeChartOptions} />
+              </Box>
+            </Paper>
+          </Grid>
+        )}
       </Grid>
 
       {/* Modals */}
       <CommitDetailsModal
         open={commitModalOpen}
         onClose={() => setCommitModalOpen(false)}
-        commits={commits}
+        commits={attributedCommits}
         initialContributor={selectedContributor}
-        contributors={commitChartData.labels}
+        contributors={Array.from(new Set([...commitChartData.labels, ...churnChartData.labels]))}
       />
 
       <PRDetailsModal
@@ -0,0 +1,59 @@
+'use client';
+
+import React from 'react';
+import { Box, Link, Tooltip, Typography } from '@mui/material';
+import { CheckCircle, Cancel, Schedule } from '@mui/icons-material';
+import { GitHubCheckStatus } from '@/types/github';
+import { isFailedCheck, isFailingStatus, isPendingCheck } from '@/utils/checkStatusUtils';
+
+interface CheckStatusBadgeProps {
+  status?: GitHubCheckStatus;
+  showSummary?: boolean; // "3/4 checks passed" next to the icon
+}
+
+function StatusIcon({ status, fontSize }: { status: GitHubCheckStatus; fontSize: number }) {
+  if (isFailingStatus(status)) return <Cancel sx={{ fontSize, color: 'error.main' }} />;
+  if (status.state === 'SUCCESS') return <CheckCircle sx={{ fontSize, color: 'success.main' }} />;
+  return <Schedule sx={{ fontSize, color: 'warning.main' }} />;
+}
+
+// Green check / red cross / amber clock for a commit's CI state, with every check listed on hover; nothing when there are no checks
+export default function CheckStatusBadge({ status, showSummary = false }: CheckStatusBadgeProps) {
+  if (!status) return null;
+
+  const passed = status.checks.filter(check => !isFailedCheck(check) && !isPendingCheck(check)).length;
+
+  const details = (
+    <Box sx={{ p: 0.5 }}>
+      {status.checks.length === 0 ? (
+        <Typography variant="caption">{status.state.toLowerCase()}</Typography>
+      ) : status.checks.map(check => (
+        <Box key={check.name} sx={{ display: 'flex', justifyContent: 'space-between', gap: 2 }}>
+          {check.url ? (
+            <Link href={check.url} target="_blank" rel="noopener" color="inherit" variant="caption">
+              {check.name}
+            </Link>
+          ) : (
+            <Typography variant="caption">{check.name}</Typography>
+          )}
+          <Typography variant="caption" sx={{ fontWeight: 600 }}>
+            {check.state.toLowerCase().replace(/_/g, ' ')}
+          </Typography>
+        </Box>
+      ))}
+    </Box>
+  );
+
+  return (
+    <Tooltip title={details}>
+      <Box component="span" sx={{ display: 'inline-flex', alignItems: 'center', gap: 0.5, whiteSpace: 'nowrap' }}>
+        <StatusIcon status={status} fontSize={16} />
+        {showSummary && status.checks.length > 0 && (
+          <Typography variant="caption" color="text.secondary">
+            {passed}/{status.checks.length} checks passed
+          </Typography>
+        )}
+      </Box>
+    </Tooltip>
+  );
+}
@@ -23,6 +23,8 @@ import { GitHubCommit } from '@/types/github';
 import { useCommitSearch } from '@/hooks/useSearch';
 import { formatTimestampToLocal, getDateColorAndEmoji, isTimestampTodayLocal, truncateText } from '@/utils/dateUtils';
 import { CONFIG } from '@/lib/constants';
+import DiffStats from './DiffStats';
+import CheckStatusBadge from './CheckStatusBadge';
 
 interface CommitDetailsModalProps {
   open: boolean;
@@ -52,6 +54,15 @@ export default function CommitDetailsModal({
     );
   }, [commits, selectedContributor]);
 
+  // Lines changed across the contributor's commits that have diff stats
+  const contributorChurn = useMemo(() => contributorCommits.reduce(
+    (totals, commit) => ({
+      additions: totals.additions + (commit.additions ?? 0),
+      deletions: totals.deletions + (commit.deletions ?? 0)
+    }),
+    { additions: 0, deletions: 0 }
+  ), [contributorCommits]);
+
   // Use search hook
   const {
     searchTerm,
@@ -180,8 +191,12 @@ export default function CommitDetailsModal({
           
           <Typography variant="caption" color="text.secondary">
             {highlightSearchTerms(commit.author, searchTerm)}
+            {commit.coAuthors && commit.coAuthors.length > 0 && ` with ${commit.coAuthors.join(', ')}`}
           </Typography>
+          <DiffStats commit={commit} />
+          <CheckStatusBadge status={commit.check_status} showSummary />
           
+
           <Typography variant="caption" color="primary.main">
             {truncateText(commit.branch_name, 20)}
           </Typography>
@@ -256,6 +271,10 @@ export default function CommitDetailsModal({
           <Typography variant="h6">
             📊 Commits by {selectedContributor} ({contributorCommits.length} total)
           </Typography>
+          <Typography variant="body2" sx={{ ml: 'auto', mr: 2, fontFamily: 'monospace' }}>
+            <Box component="span" sx={{ color: 'success.main' }}>+{contributorChurn.additions.toLocaleString()}</Box>{' '}
+            <Box component="span" sx={{ color: 'error.main' }}>−{contributorChurn.deletions.toLocaleString()}</Box>
+          </Typography>
           <IconButton onClick={onClose} size="small">
             <Close />
           </IconButton>
@@ -10,13 +10,16 @@ import {
   Stack,
   CircularProgress
 } from '@mui/material';
-import { AccountTree as GitBranch, AccessTime } from '@mui/icons-material';
+import { AccountTree as GitBranch, AccessTime, ArrowUpward } from '@mui/icons-material';
 import { GitHubCommit } from '@/types/github';
 import { formatTimestampToLocal, getDateColorAndEmoji, isTimestampTodayLocal, truncateText } from '@/utils/dateUtils';
 import { CONFIG } from '@/lib/constants';
+import CheckStatusBadge from './CheckStatusBadge';
 
 interface CommitStreamProps {
   commits: GitHubCommit[];
+  newCount?: number; // Commits pushed live since the user last looked
+  onShowNew?: () => void;
 }
 
 const ITEMS_PER_PAGE = 20;
@@ -91,6 +94,7 @@ function CommitItem({ commit }: { commit: GitHubCommit }) {
         >
           {commit.sha}
         </Link>
+        <CheckStatusBadge status={commit.check_status} />
         <Typography variant="body2" color="text.secondary">
           {commit.author}
         </Typography>
@@ -105,7 +109,7 @@ function CommitItem({ commit }: { commit: GitHubCommit }) {
   );
 }
 
-export default function CommitStream({ commits }: CommitStreamProps) {
+export default function CommitStream({ commits, newCount = 0, onShowNew }: CommitStreamProps) {
   const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
   const [isLoading, setIsLoading] = useState(false);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
@@ -161,6 +165,18 @@ export default function CommitStream({ commits }: CommitStreamProps) {
       <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
         📝 Commit Stream
         <Chip label={`${visibleCommits.length}/${sortedCommits.length} commits`} size="small" />
+        {newCount > 0 && (
+          <Chip
+            icon={<ArrowUpward />}
+            label={`${newCount} new item${newCount === 1 ? '' : 's'}`}
+            size="small"
+            color="secondary"
+            onClick={() => {
+              scrollContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+              onShowNew?.();
+            }}
+          />
+        )}
       </Typography>
       
       <Box 
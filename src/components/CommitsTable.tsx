@@ -22,6 +22,8 @@ import { AccountTree as GitBranch } from '@mui/icons-material';
 import { GitHubCommit } from '@/types/github';
 import { formatTimestampToLocal, isTimestampTodayLocal, truncateText } from '@/utils/dateUtils';
 import { CONFIG } from '@/lib/constants';
+import CheckStatusBadge from './CheckStatusBadge';
+import DiffStats from './DiffStats';
 
 interface Repository {
   nameWithOwner: string;
@@ -39,10 +41,11 @@ interface CommitsTableProps {
 }
 
 type SortOrder = 'asc' | 'desc';
+type SortField = 'date' | 'repo' | 'author' | 'additions' | 'deletions' | 'changed_files';
 
 export default function CommitsTable({ commits, repositories = [], searchTerm = '' }: CommitsTableProps) {
   const [selectedRepo, setSelectedRepo] = useState<string>('all');
-  const [sortBy, setSortBy] = useState<'date' | 'repo' | 'author'>('date');
+  const [sortBy, setSortBy] = useState<SortField>('date');
   const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
   const [additionalCommits, setAdditionalCommits] = useState<GitHubCommit[]>([]);
   const [loadingRepo, setLoadingRepo] = useState<string | null>(null);
@@ -203,8 +206,8 @@ export default function CommitsTable({ commits, repositories = [], searchTerm =
 
     // Sort commits
     filtered.sort((a, b) => {
-      let aValue: string | Date;
-      let bValue: string | Date;
+      let aValue: string | Date | number;
+      let bValue: string | Date | number;
 
       switch (sortBy) {
         case 'date':
@@ -219,6 +222,13 @@ export default function CommitsTable({ commits, repositories = [], searchTerm =
           aValue = a.author;
           bValue = b.author;
           break;
+        // Commits without diff stats sort as if nothing changed
+        case 'additions':
+        case 'deletions':
+        case 'changed_files':
+          aValue = a[sortBy] ?? 0;
+          bValue = b[sortBy] ?? 0;
+          break;
         default:
           aValue = new Date(a.date);
           bValue = new Date(b.date);
@@ -273,7 +283,7 @@ export default function CommitsTable({ commits, repositories = [], searchTerm =
     return () => container.removeEventListener('scroll', handleTableScroll);
   }, [handleTableScroll]);
 
-  const handleSort = (field: 'date' | 'repo' | 'author') => {
+  const handleSort = (field: SortField) => {
     if (sortBy === field) {
       setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
     } else {
@@ -426,6 +436,7 @@ export default function CommitsTable({ commits, repositories = [], searchTerm =
               </TableCell>
               <TableCell>Branch</TableCell>
               <TableCell>SHA</TableCell>
+              <TableCell>CI</TableCell>
               <TableCell>Message</TableCell>
               <TableCell>
                 <TableSortLabel
@@ -445,6 +456,33 @@ export default function CommitsTable({ commits, repositories = [], searchTerm =
                   Date
                 </TableSortLabel>
               </TableCell>
+              <TableCell align="right">
+                <TableSortLabel
+                  active={sortBy === 'additions'}
+                  direction={sortBy === 'additions' ? sortOrder : 'desc'}
+                  onClick={() => handleSort('additions')}
+                >
+                  Additions
+                </TableSortLabel>
+              </TableCell>
+              <TableCell align="right">
+                <TableSortLabel
+                  active={sortBy === 'deletions'}
+                  direction={sortBy === 'deletions' ? sortOrder : 'desc'}
+                  onClick={() => handleSort('deletions')}
+                >
+                  Deletions
+                </TableSortLabel>
+              </TableCell>
+              <TableCell align="right">
+                <TableSortLabel
+                  active={sortBy === 'changed_files'}
+                  direction={sortBy === 'changed_files' ? sortOrder : 'desc'}
+                  onClick={() => handleSort('changed_files')}
+                >
+                  Files
+                </TableSortLabel>
+              </TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
@@ -501,6 +539,9 @@ export default function CommitsTable({ commits, repositories = [], searchTerm =
                       {commit.sha}
                     </Link>
                   </TableCell>
+                  <TableCell>
+                    <CheckStatusBadge status={commit.check_status} />
+                  </TableCell>
                   <TableCell sx={{ maxWidth: 300 }}>
                     <Typography variant="body2" sx={{ 
                       overflow: 'hidden',
@@ -523,6 +564,17 @@ export default function CommitsTable({ commits, repositories = [], searchTerm =
                       {formatTimestampToLocal(commit.date)}
                     </Typography>
                   </TableCell>
+                  <TableCell align="right">
+                    <DiffStats commit={{ additions: commit.additions }} />
+                  </TableCell>
+                  <TableCell align="right">
+                    <DiffStats commit={{ deletions: commit.deletions }} />
+                  </TableCell>
+                  <TableCell align="right">
+                    <Typography variant="body2">
+                      {commit.changed_files ?? '—'}
+                    </Typography>
+                  </TableCell>
                 </TableRow>
               );
             })}
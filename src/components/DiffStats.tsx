@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import { GitHubCommit } from '@/types/github';
+
+interface DiffStatsProps {
+  commit: Pick<GitHubCommit, 'additions' | 'deletions' | 'changed_files'>;
+}
+
+// Renders "+12 −3 · 2 files" GitHub-style, leaving out any stat not given; commits synced before diff stats existed show a dash
+export default function DiffStats({ commit }: DiffStatsProps) {
+  if (commit.additions === undefined && commit.deletions === undefined && commit.changed_files === undefined) {
+    return <Typography variant="caption" color="text.secondary">—</Typography>;
+  }
+
+  return (
+    <Box component="span" sx={{ display: 'inline-flex', gap: 0.75, alignItems: 'center', whiteSpace: 'nowrap' }}>
+      {commit.additions !== undefined && (
+        <Typography variant="caption" sx={{ color: 'success.main', fontFamily: 'monospace' }}>
+          +{commit.additions.toLocaleString()}
+        </Typography>
+      )}
+      {commit.deletions !== undefined && (
+        <Typography variant="caption" sx={{ color: 'error.main', fontFamily: 'monospace' }}>
+          −{commit.deletions.toLocaleString()}
+        </Typography>
+      )}
+      {commit.changed_files !== undefined && (
+        <Typography variant="caption" color="text.secondary">
+          {commit.changed_files} {commit.changed_files === 1 ? 'file' : 'files'}
+        </Typography>
+      )}
+    </Box>
+  );
+}
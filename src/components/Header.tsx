@@ -11,7 +11,7 @@ import {
   Tooltip,
   Button
 } from '@mui/material';
-import { GitHub, Settings, Brightness4, Brightness7, Home, Analytics } from '@mui/icons-material';
+import { GitHub, Settings, Brightness4, Brightness7, Home, Analytics, AccountTree, LocalOffer } from '@mui/icons-material';
 import { useTheme } from './ThemeProvider';
 import { GitHubUser } from '@/types/github';
 import { useRouter, usePathname } from 'next/navigation';
@@ -65,6 +65,32 @@ export default function Header({ user }: HeaderProps) {
           >
             Analytics
           </Button>
+          <Button
+            color="inherit"
+            startIcon={<AccountTree />}
+            onClick={() => handleNavigation('/branches')}
+            sx={{
+              backgroundColor: pathname === '/branches' ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+              '&:hover': {
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+              }
+            }}
+          >
+            Branches
+          </Button>
+          <Button
+            color="inherit"
+            startIcon={<LocalOffer />}
+            onClick={() => handleNavigation('/releases')}
+            sx={{
+              backgroundColor: pathname === '/releases' ? 'rgba(255, 255, 255, 0.1)' : 'transparent',
+              '&:hover': {
+                backgroundColor: 'rgba(255, 255, 255, 0.1)',
+              }
+            }}
+          >
+            Releases
+          </Button>
         </Box>
         
         {user && (
@@ -86,8 +112,8 @@ export default function Header({ user }: HeaderProps) {
           </IconButton>
         </Tooltip>
         
-        <Tooltip title="Settings">
-          <IconButton color="inherit">
+        <Tooltip title="Fetch strategies">
+          <IconButton color="inherit" onClick={() => handleNavigation('/admin/strategies')}>
             <Settings />
           </IconButton>
         </Tooltip>
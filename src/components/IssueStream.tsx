@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Chip,
+  Link,
+  Stack,
+  CircularProgress
+} from '@mui/material';
+import { BugReport, AccessTime, ChatBubbleOutline } from '@mui/icons-material';
+import { GitHubIssue } from '@/types/github';
+import { formatTimestampToLocal, getDateColorAndEmoji, isTimestampTodayLocal, truncateText } from '@/utils/dateUtils';
+import { CONFIG, ISSUE_STATUS_EMOJIS } from '@/lib/constants';
+import { PROJECT_COLORS } from '@/lib/theme';
+
+interface IssueStreamProps {
+  issues: GitHubIssue[];
+}
+
+const ITEMS_PER_PAGE = 15;
+
+function IssueItem({ issue }: { issue: GitHubIssue }) {
+  const [dateColor, timelineEmoji] = getDateColorAndEmoji(issue.created_at);
+  const isToday = isTimestampTodayLocal(issue.created_at);
+  const formattedDate = formatTimestampToLocal(issue.created_at);
+  const truncatedTitle = truncateText(issue.title, CONFIG.ISSUE_TITLE_MAX_LENGTH);
+
+  const getStatusStyles = (state: string) => {
+    switch (state) {
+      case 'Open':
+        return {
+          bgcolor: PROJECT_COLORS.openIssueBg,
+          color: PROJECT_COLORS.openIssueText,
+        };
+      case 'Closed':
+        return {
+          bgcolor: PROJECT_COLORS.closedIssueBg,
+          color: PROJECT_COLORS.closedIssueText,
+        };
+      default:
+        return {
+          bgcolor: '#f5f5f5',
+          color: '#666666',
+        };
+    }
+  };
+
+  return (
+    <Paper
+      sx={{
+        p: 2,
+        mb: 1,
+        border: '1px solid rgba(255, 255, 255, 0.12)',
+        background: 'linear-gradient(135deg, rgba(255, 255, 255, 0.02), rgba(255, 255, 255, 0.01))',
+        backdropFilter: 'blur(10px)',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.1)',
+      }}
+    >
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', mb: 1 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Link href={issue.repo_url} target="_blank" rel="noopener" sx={{ fontWeight: 600 }}>
+            {issue.repo.split('/')[1]}
+          </Link>
+          {isToday && (
+            <Chip
+              label="TODAY"
+              size="small"
+              sx={{
+                background: 'linear-gradient(45deg, #ff8f00, #f57c00)',
+                color: 'white',
+                fontWeight: 600,
+                fontSize: '9px',
+                height: '20px',
+                textShadow: '0 1px 2px rgba(0, 0, 0, 0.3)',
+              }}
+            />
+          )}
+        </Box>
+        <Typography variant="caption" sx={{ color: dateColor }}>
+          {timelineEmoji}
+        </Typography>
+      </Box>
+
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <BugReport sx={{ fontSize: 16, color: 'text.secondary' }} />
+        <Link
+          href={issue.url}
+          target="_blank"
+          rel="noopener"
+          sx={{ fontWeight: 500 }}
+        >
+          #{issue.number}
+        </Link>
+        <Chip
+          label={`${ISSUE_STATUS_EMOJIS[issue.state] || ''} ${issue.state}`}
+          size="small"
+          sx={getStatusStyles(issue.state)}
+        />
+      </Box>
+
+      <Typography
+        variant="body2"
+        sx={{
+          mb: 1,
+          color: 'text.primary',
+          lineHeight: 1.4,
+          fontWeight: 500
+        }}
+      >
+        {truncatedTitle}
+      </Typography>
+
+      {issue.labels.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+          {issue.labels.map(label => (
+            <Chip key={label} label={label} size="small" variant="outlined" sx={{ height: '20px', fontSize: '11px' }} />
+          ))}
+        </Box>
+      )}
+
+      <Stack direction="row" spacing={2} alignItems="center">
+        <Typography variant="body2" color="text.secondary">
+          by {issue.author}
+        </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+          <AccessTime sx={{ fontSize: 14, color: 'text.secondary' }} />
+          <Typography variant="caption" sx={{ color: dateColor }}>
+            {formattedDate}
+          </Typography>
+        </Box>
+        {issue.comments > 0 && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+            <ChatBubbleOutline sx={{ fontSize: 14, color: 'text.secondary' }} />
+            <Typography variant="caption" color="text.secondary">
+              {issue.comments}
+            </Typography>
+          </Box>
+        )}
+        {issue.closed_at && (
+          <Typography variant="caption" color="secondary.main">
+            Closed {formatTimestampToLocal(issue.closed_at)}
+          </Typography>
+        )}
+      </Stack>
+    </Paper>
+  );
+}
+
+export default function IssueStream({ issues }: IssueStreamProps) {
+  const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
+  const [isLoading, setIsLoading] = useState(false);
+  const scrollContainerRef = useRef<HTMLDivElement>(null);
+
+  // Sort all issues (show ALL issues, not filtered by date)
+  const sortedIssues = useMemo(() => {
+    return issues.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  }, [issues]);
+
+  // Get currently visible issues
+  const visibleIssues = useMemo(() => {
+    return sortedIssues.slice(0, visibleCount);
+  }, [sortedIssues, visibleCount]);
+
+  const hasMore = visibleCount < sortedIssues.length;
+
+  // Load more issues function
+  const loadMore = useCallback(() => {
+    if (isLoading || !hasMore) return;
+
+    setIsLoading(true);
+    // Simulate loading delay for better UX
+    setTimeout(() => {
+      setVisibleCount(prev => Math.min(prev + ITEMS_PER_PAGE, sortedIssues.length));
+      setIsLoading(false);
+    }, 100);
+  }, [isLoading, hasMore, sortedIssues.length]);
+
+  // Infinite scroll handler
+  const handleScroll = useCallback(() => {
+    const container = scrollContainerRef.current;
+    if (!container || isLoading || !hasMore) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = container;
+    const scrollThreshold = 200; // Load more when 200px from bottom
+
+    if (scrollHeight - scrollTop - clientHeight < scrollThreshold) {
+      loadMore();
+    }
+  }, [loadMore, isLoading, hasMore]);
+
+  // Set up scroll listener
+  useEffect(() => {
+    const container = scrollContainerRef.current;
+    if (!container) return;
+
+    container.addEventListener('scroll', handleScroll);
+    return () => container.removeEventListener('scroll', handleScroll);
+  }, [handleScroll]);
+
+  return (
+    <Box>
+      <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        🐛 Issue Stream
+        <Chip label={`${visibleIssues.length}/${sortedIssues.length} issues`} size="small" />
+      </Typography>
+
+      <Box
+        ref={scrollContainerRef}
+        sx={{
+          height: CONFIG.STREAM_CONTAINER_HEIGHT,
+          overflowY: 'auto',
+          pr: 1
+        }}
+      >
+        {sortedIssues.length > 0 ? (
+          <>
+            {visibleIssues.map((issue, index) => (
+              <IssueItem key={`${issue.repo}-${issue.number}-${index}`} issue={issue} />
+            ))}
+
+            {/* Loading indicator */}
+            {isLoading && (
+              <Box sx={{ textAlign: 'center', py: 2 }}>
+                <CircularProgress size={24} />
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                  Loading more issues...
+                </Typography>
+              </Box>
+            )}
+
+            {/* End of list indicator */}
+            {!hasMore && sortedIssues.length > ITEMS_PER_PAGE && (
+              <Box sx={{ textAlign: 'center', py: 2 }}>
+                <Typography variant="body2" color="text.secondary">
+                  All {sortedIssues.length} issues loaded
+                </Typography>
+              </Box>
+            )}
+          </>
+        ) : (
+          <Paper sx={{ p: 3, textAlign: 'center' }}>
+            <Typography color="text.secondary">
+              No issues found
+            </Typography>
+          </Paper>
+        )}
+      </Box>
+    </Box>
+  );
+}
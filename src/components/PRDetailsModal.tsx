@@ -19,11 +19,14 @@ import {
   CircularProgress,
   Paper
 } from '@mui/material';
-import { Close, Search, Clear, MergeType as PullRequest } from '@mui/icons-material';
+import { Close, Search, Clear, MergeType as PullRequest, CallSplit, Flag } from '@mui/icons-material';
 import { GitHubPR } from '@/types/github';
 import { usePRSearch } from '@/hooks/useSearch';
 import { formatTimestampToLocal, getDateColorAndEmoji, isTimestampTodayLocal, truncateText } from '@/utils/dateUtils';
 import { CONFIG, PR_STATUS_EMOJIS } from '@/lib/constants';
+import { prSize } from '@/utils/prSizeUtils';
+import CheckStatusBadge from './CheckStatusBadge';
+import DiffStats from './DiffStats';
 
 interface PRDetailsModalProps {
   open: boolean;
@@ -112,6 +115,7 @@ export default function PRDetailsModal({
     const [colorClass, emoji] = getDateColorAndEmoji(pr.created_at);
     const isToday = isTimestampTodayLocal(pr.created_at);
     const statusEmoji = PR_STATUS_EMOJIS[pr.state] || '📝';
+    const size = prSize(pr);
 
     return (
       <ListItem
@@ -191,6 +195,7 @@ export default function PRDetailsModal({
           >
             {statusEmoji} {pr.state}
           </Typography>
+          <CheckStatusBadge status={pr.check_status} showSummary />
           
           <Link
             href={pr.repo_url || `https://github.com/${pr.repo}`}
@@ -212,6 +217,43 @@ export default function PRDetailsModal({
             </Typography>
           )}
         </Stack>
+
+        <Stack direction="row" spacing={1} alignItems="center" useFlexGap flexWrap="wrap" sx={{ width: '100%', mt: 0.75 }}>
+          {pr.is_draft && <Chip label="Draft" size="small" variant="outlined" />}
+          {pr.base_branch && pr.head_branch && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <CallSplit sx={{ fontSize: 14, color: 'text.secondary' }} />
+              <Typography variant="caption" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+                {pr.base_branch} ← {pr.head_branch}
+              </Typography>
+            </Box>
+          )}
+          {size && <Chip label={size} size="small" variant="outlined" />}
+          <DiffStats commit={pr} />
+          {pr.milestone && (
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+              <Flag sx={{ fontSize: 14, color: 'text.secondary' }} />
+              <Typography variant="caption" color="text.secondary">{pr.milestone}</Typography>
+            </Box>
+          )}
+          {(pr.labels || []).map(label => (
+            <Chip key={label} label={label} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+          ))}
+        </Stack>
+
+        {pr.linked_issues && pr.linked_issues.length > 0 && (
+          <Typography variant="caption" color="text.secondary" sx={{ mt: 0.5 }}>
+            Closes{' '}
+            {pr.linked_issues.map((issue, issueIndex) => (
+              <React.Fragment key={issue.url}>
+                {issueIndex > 0 && ', '}
+                <Link href={issue.url} target="_blank" rel="noopener noreferrer" title={issue.title}>
+                  {issue.repo === pr.repo ? '' : issue.repo}#{issue.number}
+                </Link>
+              </React.Fragment>
+            ))}
+          </Typography>
+        )}
       </ListItem>
     );
   };
@@ -8,16 +8,24 @@ import {
   Chip,
   Link,
   Stack,
-  CircularProgress
+  CircularProgress,
+  Autocomplete,
+  TextField,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
-import { MergeType as PullRequest, AccessTime } from '@mui/icons-material';
+import { MergeType as PullRequest, AccessTime, ArrowUpward } from '@mui/icons-material';
 import { GitHubPR } from '@/types/github';
 import { formatTimestampToLocal, getDateColorAndEmoji, isTimestampTodayLocal, truncateText } from '@/utils/dateUtils';
 import { CONFIG, PR_STATUS_EMOJIS } from '@/lib/constants';
 import { PROJECT_COLORS } from '@/lib/theme';
+import { prSize } from '@/utils/prSizeUtils';
+import CheckStatusBadge from './CheckStatusBadge';
 
 interface PRStreamProps {
   pullRequests: GitHubPR[];
+  newCount?: number; // PRs pushed live since the user last looked
+  onShowNew?: () => void;
 }
 
 const ITEMS_PER_PAGE = 15;
@@ -27,6 +35,7 @@ function PRItem({ pr }: { pr: GitHubPR }) {
   const isToday = isTimestampTodayLocal(pr.created_at);
   const formattedDate = formatTimestampToLocal(pr.created_at);
   const truncatedTitle = truncateText(pr.title, CONFIG.PR_TITLE_MAX_LENGTH);
+  const size = prSize(pr);
   
   const getStatusStyles = (state: string) => {
     switch (state) {
@@ -104,6 +113,9 @@ function PRItem({ pr }: { pr: GitHubPR }) {
           size="small"
           sx={getStatusStyles(pr.state)}
         />
+        {pr.is_draft && <Chip label="Draft" size="small" variant="outlined" />}
+        {size && <Chip label={size} size="small" variant="outlined" />}
+        <CheckStatusBadge status={pr.check_status} />
       </Box>
       
       <Typography 
@@ -117,6 +129,14 @@ function PRItem({ pr }: { pr: GitHubPR }) {
       >
         {truncatedTitle}
       </Typography>
+
+      {pr.labels && pr.labels.length > 0 && (
+        <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mb: 1 }}>
+          {pr.labels.map(label => (
+            <Chip key={label} label={label} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+          ))}
+        </Box>
+      )}
       
       <Stack direction="row" spacing={2} alignItems="center">
         <Typography variant="body2" color="text.secondary">
@@ -138,16 +158,41 @@ function PRItem({ pr }: { pr: GitHubPR }) {
   );
 }
 
-export default function PRStream({ pullRequests }: PRStreamProps) {
+export default function PRStream({ pullRequests, newCount = 0, onShowNew }: PRStreamProps) {
   const [visibleCount, setVisibleCount] = useState(ITEMS_PER_PAGE);
   const [isLoading, setIsLoading] = useState(false);
+  const [hideDrafts, setHideDrafts] = useState(false);
+  const [selectedLabels, setSelectedLabels] = useState<string[]>([]);
+  const [targetBranch, setTargetBranch] = useState<string | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  // Sort all PRs (show ALL PRs, not filtered by date)  
-  const sortedPRs = useMemo(() => {
-    return pullRequests.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  // Filter options from the PRs themselves, most used first
+  const { labelOptions, branchOptions } = useMemo(() => {
+    const countValues = (values: string[]) => {
+      const counts = new Map<string, number>();
+      values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+      return Array.from(counts.entries()).sort(([, a], [, b]) => b - a).map(([value]) => value);
+    };
+    return {
+      labelOptions: countValues(pullRequests.flatMap(pr => pr.labels || [])),
+      branchOptions: countValues(pullRequests.map(pr => pr.base_branch).filter((branch): branch is string => Boolean(branch)))
+    };
   }, [pullRequests]);
 
+  // Sort all PRs (show ALL PRs, not filtered by date); a PR must carry every selected label
+  const sortedPRs = useMemo(() => {
+    return pullRequests
+      .filter(pr => !hideDrafts || !pr.is_draft)
+      .filter(pr => selectedLabels.every(label => pr.labels?.includes(label)))
+      .filter(pr => !targetBranch || pr.base_branch === targetBranch)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  }, [pullRequests, hideDrafts, selectedLabels, targetBranch]);
+
+  // Start from the top of the list whenever the filters change
+  useEffect(() => {
+    setVisibleCount(ITEMS_PER_PAGE);
+  }, [hideDrafts, selectedLabels, targetBranch]);
+
   // Get currently visible PRs
   const visiblePRs = useMemo(() => {
     return sortedPRs.slice(0, visibleCount);
@@ -194,7 +239,43 @@ export default function PRStream({ pullRequests }: PRStreamProps) {
       <Typography variant="h6" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
         🔀 Pull Request Stream
         <Chip label={`${visiblePRs.length}/${sortedPRs.length} PRs`} size="small" />
+        {newCount > 0 && (
+          <Chip
+            icon={<ArrowUpward />}
+            label={`${newCount} new item${newCount === 1 ? '' : 's'}`}
+            size="small"
+            color="secondary"
+            onClick={() => {
+              scrollContainerRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
+              onShowNew?.();
+            }}
+          />
+        )}
       </Typography>
+
+      <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap', mb: 1.5 }}>
+        <FormControlLabel
+          control={<Switch size="small" checked={hideDrafts} onChange={(e) => setHideDrafts(e.target.checked)} />}
+          label={<Typography variant="body2">Hide drafts</Typography>}
+        />
+        <Autocomplete
+          multiple
+          size="small"
+          options={labelOptions}
+          value={selectedLabels}
+          onChange={(_, labels) => setSelectedLabels(labels)}
+          sx={{ minWidth: 180, flexGrow: 1 }}
+          renderInput={(params) => <TextField {...params} label="Labels" />}
+        />
+        <Autocomplete
+          size="small"
+          options={branchOptions}
+          value={targetBranch}
+          onChange={(_, branch) => setTargetBranch(branch)}
+          sx={{ minWidth: 150 }}
+          renderInput={(params) => <TextField {...params} label="Target branch" />}
+        />
+      </Box>
       
       <Box 
         ref={scrollContainerRef}
@@ -232,7 +313,7 @@ export default function PRStream({ pullRequests }: PRStreamProps) {
         ) : (
           <Paper sx={{ p: 3, textAlign: 'center' }}>
             <Typography color="text.secondary">
-              No pull requests found
+              {pullRequests.length > 0 ? 'No pull requests match the filters' : 'No pull requests found'}
             </Typography>
           </Paper>
         )}
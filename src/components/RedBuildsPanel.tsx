@@ -0,0 +1,146 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import {
+  Box,
+  Paper,
+  Typography,
+  Link,
+  Alert,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import { GitHubCommit, GitHubRepository } from '@/types/github';
+import { CONFIG } from '@/lib/constants';
+import { calculateDaysAgo, formatTimestampToLocal, truncateText } from '@/utils/dateUtils';
+import { isFailedCheck, isFailingStatus } from '@/utils/checkStatusUtils';
+import CheckStatusBadge from './CheckStatusBadge';
+
+interface RedBuildsPanelProps {
+  commits: GitHubCommit[];
+  repositories: GitHubRepository[];
+}
+
+interface RedBuild {
+  repo: GitHubRepository;
+  commit: GitHubCommit;
+  failingSince: string; // Date of the oldest commit in the current run of red builds
+  failingCommits: number;
+}
+
+// Repositories whose default branch is currently red: the newest commit there with a finished CI run failed
+export default function RedBuildsPanel({ commits, repositories }: RedBuildsPanelProps) {
+  const { redBuilds, checkedRepos } = useMemo(() => {
+    const redBuilds: RedBuild[] = [];
+    let checkedRepos = 0;
+
+    repositories.forEach(repo => {
+      // Newest first; commits still running don't say anything about the branch yet
+      const finished = commits
+        .filter(commit => commit.repo === repo.nameWithOwner && commit.branch_name === repo.defaultBranch)
+        .filter(commit => commit.check_status && commit.check_status.state !== 'PENDING' && commit.check_status.state !== 'EXPECTED')
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+      if (finished.length === 0) return;
+
+      checkedRepos++;
+      const failing = finished.findIndex(commit => !isFailingStatus(commit.check_status));
+      const failingCommits = failing === -1 ? finished.length : failing;
+      if (failingCommits > 0) {
+        redBuilds.push({
+          repo,
+          commit: finished[0],
+          failingSince: finished[failingCommits - 1].date,
+          failingCommits
+        });
+      }
+    });
+
+    return {
+      redBuilds: redBuilds.sort((a, b) => new Date(a.failingSince).getTime() - new Date(b.failingSince).getTime()),
+      checkedRepos
+    };
+  }, [commits, repositories]);
+
+  // Nothing to say until at least one default branch has CI results
+  if (checkedRepos === 0) return null;
+
+  return (
+    <Paper sx={{ p: 3, mt: 3 }}>
+      <Typography variant="h6" gutterBottom>
+        🚦 Red Builds on Default Branches
+      </Typography>
+
+      {redBuilds.length === 0 ? (
+        <Alert severity="success">
+          All {checkedRepos} repositories with CI results are green on their default branch.
+        </Alert>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Repository</TableCell>
+              <TableCell>Latest commit</TableCell>
+              <TableCell>Failing checks</TableCell>
+              <TableCell>Red since</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {redBuilds.map(({ repo, commit, failingSince, failingCommits }) => (
+              <TableRow key={repo.nameWithOwner} hover>
+                <TableCell>
+                  <Link href={repo.url} target="_blank" rel="noopener" sx={{ fontWeight: 600 }}>
+                    {repo.nameWithOwner}
+                  </Link>
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block', fontFamily: 'monospace' }}>
+                    {repo.defaultBranch}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                    <CheckStatusBadge status={commit.check_status} />
+                    <Link href={commit.url} target="_blank" rel="noopener" sx={{ fontFamily: 'monospace', fontSize: '0.875rem' }}>
+                      {commit.sha}
+                    </Link>
+                    <Typography variant="body2" color="text.secondary">
+                      {truncateText(commit.message.split('\n')[0], CONFIG.COMMIT_MESSAGE_MAX_LENGTH / 2)} by {commit.author}
+                    </Typography>
+                  </Box>
+                </TableCell>
+                <TableCell>
+                  <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                    {commit.check_status!.checks.filter(isFailedCheck).map(check => (
+                      <Chip
+                        key={check.name}
+                        label={check.name}
+                        size="small"
+                        color="error"
+                        variant="outlined"
+                        component={check.url ? 'a' : 'div'}
+                        href={check.url}
+                        target="_blank"
+                        rel="noopener"
+                        clickable={Boolean(check.url)}
+                      />
+                    ))}
+                  </Box>
+                </TableCell>
+                <TableCell sx={{ whiteSpace: 'nowrap' }}>
+                  <Typography variant="body2" title={formatTimestampToLocal(failingSince)}>
+                    {calculateDaysAgo(failingSince) === 0 ? 'today' : `${calculateDaysAgo(failingSince)}d ago`}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {failingCommits} red {failingCommits === 1 ? 'commit' : 'commits'} in a row
+                  </Typography>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+}
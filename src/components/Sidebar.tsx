@@ -16,10 +16,11 @@ import {
   Paper,
   Chip,
   Tooltip,
-  Alert
+  Alert,
+  LinearProgress
 } from '@mui/material';
-import { Refresh, Code, Group, Star, Warning, Sync } from '@mui/icons-material';
-import { GitHubUser } from '@/types/github';
+import { Refresh, Code, Group, Star, Warning, Sync, Speed } from '@mui/icons-material';
+import { GitHubUser, RateLimitInfo } from '@/types/github';
 import { INFO_MESSAGES } from '@/lib/constants';
 
 interface SidebarProps {
@@ -29,9 +30,16 @@ interface SidebarProps {
   onRefresh: () => void;
   onFullSync: () => void;
   debugMode: boolean;
+  rateLimit?: RateLimitInfo | null;
 }
 
-export default function Sidebar({ open, onClose, user, onRefresh, onFullSync, debugMode }: SidebarProps) {
+export default function Sidebar({ open, onClose, user, onRefresh, onFullSync, debugMode, rateLimit }: SidebarProps) {
+  const budgetRemaining = rateLimit?.remaining;
+  const budgetLimit = rateLimit?.limit;
+  const hasBudget = budgetRemaining !== undefined && budgetLimit !== undefined && budgetLimit > 0;
+  const budgetPercent = hasBudget ? (budgetRemaining / budgetLimit) * 100 : 0;
+  const budgetColor = budgetPercent > 50 ? 'success' : budgetPercent > 20 ? 'warning' : 'error';
+
   return (
     <Drawer anchor="right" open={open} onClose={onClose}>
       <Box sx={{ width: 300, p: 2 }}>
@@ -138,6 +146,33 @@ export default function Sidebar({ open, onClose, user, onRefresh, onFullSync, de
           )}
         </Box>
         
+        {hasBudget && (
+          <Paper sx={{ p: 2, mb: 2 }}>
+            <Typography variant="subtitle2" gutterBottom sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <Speed fontSize="small" /> GitHub API Budget
+            </Typography>
+            <LinearProgress
+              variant="determinate"
+              value={budgetPercent}
+              color={budgetColor}
+              sx={{ height: 8, borderRadius: 4, mb: 1 }}
+            />
+            <Typography variant="body2">
+              {budgetRemaining.toLocaleString()} / {budgetLimit.toLocaleString()} points left
+            </Typography>
+            {rateLimit?.reset_at && (
+              <Typography variant="caption" color="text.secondary" display="block">
+                Resets at {new Date(rateLimit.reset_at).toLocaleTimeString()}
+              </Typography>
+            )}
+            {rateLimit?.paused_until && (
+              <Typography variant="caption" color="warning.main" display="block">
+                ⏸️ Requests paused until {new Date(rateLimit.paused_until).toLocaleTimeString()}
+              </Typography>
+            )}
+          </Paper>
+        )}
+
         <Divider sx={{ my: 2 }} />
         
         <Box>
@@ -0,0 +1,77 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  AlertTitle,
+  Box,
+  Button,
+  Collapse,
+  List,
+  ListItem,
+  ListItemText,
+  Typography
+} from '@mui/material';
+import { ExpandMore, ExpandLess } from '@mui/icons-material';
+import { RepositorySyncStatus } from '@/types/github';
+import { formatTimestampToLocal } from '@/utils/dateUtils';
+
+interface SyncStatusBannerProps {
+  repoStatuses: RepositorySyncStatus[];
+}
+
+export default function SyncStatusBanner({ repoStatuses }: SyncStatusBannerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const failedRepos = repoStatuses.filter(status => status.status === 'failed');
+
+  if (failedRepos.length === 0) return null;
+
+  return (
+    <Alert
+      severity="warning"
+      sx={{ mb: 3 }}
+      action={
+        <Button
+          color="inherit"
+          size="small"
+          onClick={() => setExpanded(prev => !prev)}
+          endIcon={expanded ? <ExpandLess /> : <ExpandMore />}
+        >
+          {expanded ? 'Hide' : 'Details'}
+        </Button>
+      }
+    >
+      <AlertTitle>
+        {failedRepos.length} {failedRepos.length === 1 ? 'repository' : 'repositories'} failed to sync
+      </AlertTitle>
+      <Typography variant="body2">
+        Previously cached data is shown for these repositories. They will be retried on the next refresh.
+      </Typography>
+      <Collapse in={expanded}>
+        <List dense sx={{ mt: 1 }}>
+          {failedRepos.map(status => (
+            <ListItem key={status.repo} disableGutters alignItems="flex-start">
+              <ListItemText
+                primary={status.repo}
+                secondary={
+                  <Box component="span" sx={{ display: 'block' }}>
+                    {(status.errors || []).map((error, index) => (
+                      <Typography key={index} variant="caption" component="span" display="block" sx={{ fontFamily: 'monospace' }}>
+                        {error}
+                      </Typography>
+                    ))}
+                    <Typography variant="caption" component="span" display="block" color="text.secondary">
+                      {status.last_synced_at
+                        ? `Last successful sync: ${formatTimestampToLocal(status.last_synced_at)}`
+                        : 'Never synced successfully'}
+                    </Typography>
+                  </Box>
+                }
+              />
+            </ListItem>
+          ))}
+        </List>
+      </Collapse>
+    </Alert>
+  );
+}
@@ -30,7 +30,11 @@ export const mockData: GitHubData = {
       message: "Add real-time activity streams with color coding and intelligent filtering",
       author: "Connor Fech",
       date: new Date().toISOString(),
-      url: "https://github.com/cfech/github-dashboard/commit/d332219"
+      url: "https://github.com/cfech/github-dashboard/commit/d332219",
+      additions: 412,
+      deletions: 37,
+      changed_files: 9,
+      check_status: { state: "SUCCESS", checks: [{ name: "build", state: "SUCCESS" }, { name: "lint", state: "SUCCESS" }] }
     },
     {
       repo: "myorg/api-service",
@@ -38,10 +42,15 @@ export const mockData: GitHubData = {
       branch_name: "feature/auth",
       branch_url: "https://github.com/myorg/api-service/tree/feature/auth",
       sha: "a1b2c3d",
-      message: "Implement JWT authentication middleware for secure API endpoints",
+      message: "Implement JWT authentication middleware for secure API endpoints\n\nCo-authored-by: Mike Chen <mike.chen@example.com>",
       author: "Sarah Johnson",
       date: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-      url: "https://github.com/myorg/api-service/commit/a1b2c3d"
+      url: "https://github.com/myorg/api-service/commit/a1b2c3d",
+      additions: 186,
+      deletions: 12,
+      changed_files: 5,
+      coAuthors: ["Mike Chen"],
+      check_status: { state: "PENDING", checks: [{ name: "build", state: "SUCCESS" }, { name: "integration-tests", state: "IN_PROGRESS" }] }
     },
     {
       repo: "anotherorg/frontend-app",
@@ -52,7 +61,10 @@ export const mockData: GitHubData = {
       message: "Fix responsive layout issues on mobile devices and improve accessibility",
       author: "Mike Chen",
       date: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(), // 4 hours ago
-      url: "https://github.com/anotherorg/frontend-app/commit/e4f5g6h"
+      url: "https://github.com/anotherorg/frontend-app/commit/e4f5g6h",
+      additions: 58,
+      deletions: 71,
+      changed_files: 6
     },
     // Yesterday's commits
     {
@@ -64,7 +76,10 @@ export const mockData: GitHubData = {
       message: "Update Material UI theming with dark mode support and custom color palette",
       author: "Connor Fech",
       date: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString(), // Yesterday
-      url: "https://github.com/cfech/github-dashboard/commit/i7j8k9l"
+      url: "https://github.com/cfech/github-dashboard/commit/i7j8k9l",
+      additions: 3,
+      deletions: 1,
+      changed_files: 1
     },
     {
       repo: "myorg/database-utils",
@@ -75,7 +90,11 @@ export const mockData: GitHubData = {
       message: "Optimize database queries for better performance in production environment",
       author: "Alex Rodriguez",
       date: new Date(Date.now() - 30 * 60 * 60 * 1000).toISOString(), // Yesterday
-      url: "https://github.com/myorg/database-utils/commit/m1n2o3p"
+      url: "https://github.com/myorg/database-utils/commit/m1n2o3p",
+      additions: 240,
+      deletions: 96,
+      changed_files: 7,
+      check_status: { state: "FAILURE", checks: [{ name: "build", state: "SUCCESS" }, { name: "test (postgres)", state: "FAILURE" }] }
     },
     // This week's commits
     {
@@ -87,7 +106,10 @@ export const mockData: GitHubData = {
       message: "Configure automated testing pipeline with GitHub Actions and Docker",
       author: "Emma Davis",
       date: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days ago
-      url: "https://github.com/anotherorg/ci-pipeline/commit/q4r5s6t"
+      url: "https://github.com/anotherorg/ci-pipeline/commit/q4r5s6t",
+      additions: 1204,
+      deletions: 880,
+      changed_files: 31
     },
     {
       repo: "myorg/monitoring-tools",
@@ -98,7 +120,10 @@ export const mockData: GitHubData = {
       message: "Add comprehensive error monitoring and alerting system integration",
       author: "David Kim",
       date: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(), // 4 days ago
-      url: "https://github.com/myorg/monitoring-tools/commit/u7v8w9x"
+      url: "https://github.com/myorg/monitoring-tools/commit/u7v8w9x",
+      additions: 14,
+      deletions: 2,
+      changed_files: 2
     },
     // Older commits
     {
@@ -110,7 +135,10 @@ export const mockData: GitHubData = {
       message: "Publish new blog post about React performance optimization techniques",
       author: "Connor Fech",
       date: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString(), // 10 days ago
-      url: "https://github.com/cfech/personal-blog/commit/y1z2a3b"
+      url: "https://github.com/cfech/personal-blog/commit/y1z2a3b",
+      additions: 95,
+      deletions: 40,
+      changed_files: 4
     },
     {
       repo: "anotherorg/legacy-system",
@@ -121,7 +149,24 @@ export const mockData: GitHubData = {
       message: "Refactor legacy PHP code to modern Laravel framework with improved security",
       author: "Lisa Wang",
       date: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000).toISOString(), // 15 days ago
-      url: "https://github.com/anotherorg/legacy-system/commit/c4d5e6f"
+      url: "https://github.com/anotherorg/legacy-system/commit/c4d5e6f",
+      additions: 7,
+      deletions: 7,
+      changed_files: 1
+    },
+    {
+      repo: "myorg/api-service",
+      repo_url: "https://github.com/myorg/api-service",
+      branch_name: "main",
+      branch_url: "https://github.com/myorg/api-service/tree/main",
+      sha: "b7c8d9e",
+      message: "Bump jsonwebtoken from 8.5.1 to 9.0.0",
+      author: "dependabot[bot]",
+      date: new Date(Date.now() - 16 * 24 * 60 * 60 * 1000).toISOString(), // 16 days ago
+      url: "https://github.com/myorg/api-service/commit/b7c8d9e",
+      additions: 14,
+      deletions: 14,
+      changed_files: 2
     }
   ],
   pull_requests: [
@@ -134,7 +179,16 @@ export const mockData: GitHubData = {
       state: "Open",
       author: "connorfech",
       created_at: new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString(), // 1 hour ago
-      url: "https://github.com/cfech/github-dashboard/pull/123"
+      url: "https://github.com/cfech/github-dashboard/pull/123",
+      base_branch: "main",
+      head_branch: "feature/dashboard",
+      is_draft: true,
+      labels: ["enhancement", "ui"],
+      additions: 1840,
+      deletions: 212,
+      changed_files: 37,
+      reviews: [],
+      requested_reviewers: ["sarahjohnson", "mikechen"]
     },
     {
       repo: "myorg/api-service",
@@ -145,7 +199,24 @@ export const mockData: GitHubData = {
       author: "sarahjohnson",
       created_at: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(), // 3 hours ago
       merged_at: new Date(Date.now() - 1 * 60 * 60 * 1000).toISOString(), // 1 hour ago
-      url: "https://github.com/myorg/api-service/pull/456"
+      first_commit_at: new Date(Date.now() - 20 * 60 * 60 * 1000).toISOString(),
+      ready_for_review_at: new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString(),
+      url: "https://github.com/myorg/api-service/pull/456",
+      base_branch: "main",
+      head_branch: "feature/oauth",
+      labels: ["security", "enhancement"],
+      milestone: "v2.0",
+      additions: 312,
+      deletions: 45,
+      changed_files: 9,
+      linked_issues: [
+        { repo: "myorg/api-service", number: 41, title: "Support OAuth 2.0 login", url: "https://github.com/myorg/api-service/issues/41" }
+      ],
+      reviews: [
+        { reviewer: "mikechen", state: "CHANGES_REQUESTED", submitted_at: new Date(Date.now() - 2.5 * 60 * 60 * 1000).toISOString() },
+        { reviewer: "mikechen", state: "APPROVED", submitted_at: new Date(Date.now() - 1.5 * 60 * 60 * 1000).toISOString() }
+      ],
+      requested_reviewers: []
     },
     // Yesterday's PRs
     {
@@ -157,7 +228,18 @@ export const mockData: GitHubData = {
       author: "mikechen",
       created_at: new Date(Date.now() - 26 * 60 * 60 * 1000).toISOString(), // Yesterday
       merged_at: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), // Yesterday
-      url: "https://github.com/anotherorg/frontend-app/pull/789"
+      url: "https://github.com/anotherorg/frontend-app/pull/789",
+      base_branch: "release/1.4",
+      head_branch: "fix/session-timeout",
+      labels: ["bug"],
+      additions: 6,
+      deletions: 2,
+      changed_files: 1,
+      reviews: [
+        { reviewer: "sarahjohnson", state: "COMMENTED", submitted_at: new Date(Date.now() - 25.5 * 60 * 60 * 1000).toISOString() },
+        { reviewer: "connorfech", state: "APPROVED", submitted_at: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString() }
+      ],
+      requested_reviewers: []
     },
     {
       repo: "myorg/database-utils",
@@ -179,7 +261,14 @@ export const mockData: GitHubData = {
       author: "emmadavis",
       created_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days ago
       merged_at: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(), // 2 days ago
-      url: "https://github.com/anotherorg/ci-pipeline/pull/202"
+      first_commit_at: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(),
+      is_draft: false,
+      ready_for_review_at: new Date(Date.now() - 2.8 * 24 * 60 * 60 * 1000).toISOString(), // Opened as a draft
+      url: "https://github.com/anotherorg/ci-pipeline/pull/202",
+      reviews: [
+        { reviewer: "davidkim", state: "APPROVED", submitted_at: new Date(Date.now() - 2.5 * 24 * 60 * 60 * 1000).toISOString() }
+      ],
+      requested_reviewers: []
     },
     // Older PRs
     {
@@ -203,5 +292,98 @@ export const mockData: GitHubData = {
       merged_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(), // 7 days ago
       url: "https://github.com/myorg/monitoring-tools/pull/404"
     }
+  ],
+  issues: [
+    // Today's issues
+    {
+      repo: "cfech/github-dashboard",
+      repo_url: "https://github.com/cfech/github-dashboard",
+      number: 124,
+      title: "Commit stream does not refresh after incremental sync",
+      state: "Open",
+      author: "sarahjohnson",
+      created_at: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
+      labels: ["bug", "ui"],
+      comments: 3,
+      url: "https://github.com/cfech/github-dashboard/issues/124"
+    },
+    // Yesterday's issues
+    {
+      repo: "myorg/api-service",
+      repo_url: "https://github.com/myorg/api-service",
+      number: 457,
+      title: "Rate limit OAuth token refresh endpoint",
+      state: "Closed",
+      author: "mikechen",
+      created_at: new Date(Date.now() - 27 * 60 * 60 * 1000).toISOString(), // Yesterday
+      closed_at: new Date(Date.now() - 20 * 60 * 60 * 1000).toISOString(), // Yesterday
+      labels: ["security"],
+      comments: 5,
+      url: "https://github.com/myorg/api-service/issues/457"
+    },
+    // This week's issues
+    {
+      repo: "anotherorg/ci-pipeline",
+      repo_url: "https://github.com/anotherorg/ci-pipeline",
+      number: 203,
+      title: "Docker layer cache is invalidated on every build",
+      state: "Open",
+      author: "emmadavis",
+      created_at: new Date(Date.now() - 4 * 24 * 60 * 60 * 1000).toISOString(), // 4 days ago
+      labels: ["ci", "performance"],
+      comments: 1,
+      url: "https://github.com/anotherorg/ci-pipeline/issues/203"
+    },
+    // Older issues
+    {
+      repo: "myorg/monitoring-tools",
+      repo_url: "https://github.com/myorg/monitoring-tools",
+      number: 398,
+      title: "Document alert routing configuration",
+      state: "Closed",
+      author: "davidkim",
+      created_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(), // 14 days ago
+      closed_at: new Date(Date.now() - 9 * 24 * 60 * 60 * 1000).toISOString(), // 9 days ago
+      labels: ["documentation"],
+      comments: 0,
+      url: "https://github.com/myorg/monitoring-tools/issues/398"
+    }
+  ],
+  releases: [
+    {
+      repo: "cfech/github-dashboard",
+      repo_url: "https://github.com/cfech/github-dashboard",
+      tag: "v1.2.0",
+      name: "v1.2.0 - Dark mode",
+      kind: "release",
+      published_at: new Date(Date.now() - 20 * 60 * 60 * 1000).toISOString(), // 20 hours ago
+      is_prerelease: false,
+      author: "cfech",
+      target_sha: "i7j8k9l",
+      target_date: new Date(Date.now() - 25 * 60 * 60 * 1000).toISOString(),
+      url: "https://github.com/cfech/github-dashboard/releases/tag/v1.2.0"
+    },
+    {
+      repo: "myorg/api-service",
+      repo_url: "https://github.com/myorg/api-service",
+      tag: "v3.0.0-rc.1",
+      name: "v3.0.0-rc.1",
+      kind: "release",
+      published_at: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days ago
+      is_prerelease: true,
+      author: "sarahjohnson",
+      url: "https://github.com/myorg/api-service/releases/tag/v3.0.0-rc.1"
+    },
+    {
+      repo: "cfech/github-dashboard",
+      repo_url: "https://github.com/cfech/github-dashboard",
+      tag: "v1.1.0",
+      name: "v1.1.0",
+      kind: "tag",
+      published_at: new Date(Date.now() - 14 * 24 * 60 * 60 * 1000).toISOString(), // 14 days ago
+      is_prerelease: false,
+      author: "cfech",
+      url: "https://github.com/cfech/github-dashboard/tree/v1.1.0"
+    }
   ]
 };
\ No newline at end of file
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback, Dispatch, SetStateAction } from 'react';
+import { GitHubData, GitHubCommit, GitHubPR } from '@/types/github';
+import { fetchGitHubData } from '@/lib/apiClient';
+
+interface ActivityEvent {
+  commits: GitHubCommit[];
+  pull_requests: GitHubPR[];
+  last_sync: string;
+}
+
+// Subscribes to /api/github/events and merges pushed commits and PRs into the dashboard data
+export function useLiveActivity(data: GitHubData | null, setData: Dispatch<SetStateAction<GitHubData | null>>, enabled: boolean) {
+  const [newCommitCount, setNewCommitCount] = useState(0);
+  const [newPRCount, setNewPRCount] = useState(0);
+  const dataRef = useRef(data);
+
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const eventSource = new EventSource('/api/github/events');
+
+    eventSource.addEventListener('activity', (message) => {
+      const current = dataRef.current;
+      if (!current) return;
+
+      const event: ActivityEvent = JSON.parse((message as MessageEvent).data);
+
+      // Another tab's refresh may already have delivered some of these; known commits are replaced (e.g. a CI status update)
+      const commitKeys = new Set(current.commits.map(commit => `${commit.repo}-${commit.sha}`));
+      const addedCommits = event.commits.filter(commit => !commitKeys.has(`${commit.repo}-${commit.sha}`));
+      const updatedCommits = new Map(event.commits.map(commit => [`${commit.repo}-${commit.sha}`, commit]));
+
+      // Updated PRs replace their old entry; only unseen ones count as new
+      const prMap = new Map(current.pull_requests.map(pr => [`${pr.repo}-${pr.number}`, pr]));
+      const addedPRs = event.pull_requests.filter(pr => !prMap.has(`${pr.repo}-${pr.number}`));
+      event.pull_requests.forEach(pr => prMap.set(`${pr.repo}-${pr.number}`, pr));
+
+      const nextData: GitHubData = {
+        ...current,
+        commits: [...addedCommits, ...current.commits.map(commit => updatedCommits.get(`${commit.repo}-${commit.sha}`) || commit)],
+        pull_requests: Array.from(prMap.values()),
+        cache_info: { ...current.cache_info, last_sync: event.last_sync }
+      };
+      dataRef.current = nextData;
+      setData(nextData);
+
+      setNewCommitCount(count => count + addedCommits.length);
+      setNewPRCount(count => count + addedPRs.length);
+      console.log(`📡 Live update: +${addedCommits.length} commits, +${addedPRs.length} PRs`);
+    });
+
+    // A full sync can remove data too, so reload from the cache instead of merging
+    eventSource.addEventListener('full_sync', async () => {
+      try {
+        const freshData = await fetchGitHubData();
+        dataRef.current = freshData;
+        setData(freshData);
+      } catch (error) {
+        console.error('Error reloading data after full sync:', error);
+      }
+    });
+
+    return () => eventSource.close();
+  }, [enabled, setData]);
+
+  const acknowledgeCommits = useCallback(() => setNewCommitCount(0), []);
+  const acknowledgePRs = useCallback(() => setNewPRCount(0), []);
+
+  return { newCommitCount, newPRCount, acknowledgeCommits, acknowledgePRs };
+}
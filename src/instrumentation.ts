@@ -0,0 +1,11 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Fail fast on a broken repository config instead of on the first sync
+    const { getRepositoryConfig } = await import('./lib/repositoryConfig');
+    getRepositoryConfig();
+
+    const { syncScheduler } = await import('./lib/syncScheduler');
+    syncScheduler.start();
+  }
+}
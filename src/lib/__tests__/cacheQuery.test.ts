@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { GitHubCommit } from '@/types/github';
+import { COMMIT_QUERY_FIELDS, filterByQuery } from '../cacheStore';
+import { parseCacheQuery } from '../cacheQueryParams';
+
+function commit(sha: string, date: string): GitHubCommit {
+  return {
+    repo: 'acme/widgets',
+    repo_url: 'https://github.com/acme/widgets',
+    branch_name: 'main',
+    branch_url: 'https://github.com/acme/widgets/tree/main',
+    sha,
+    message: `Commit ${sha}`,
+    author: 'octocat',
+    date,
+    url: `https://github.com/acme/widgets/commit/${sha}`
+  };
+}
+
+const query = (params: Record<string, string>) => parseCacheQuery(new URLSearchParams(params)).query!;
+
+describe('parseCacheQuery date bounds', () => {
+  it('reads a date-only since as the start of that day', () => {
+    expect(query({ since: '2024-06-01' }).since).toBe('2024-06-01T00:00:00.000Z');
+  });
+
+  it('reads a date-only until as the end of that day', () => {
+    expect(query({ until: '2024-06-01' }).until).toBe('2024-06-01T23:59:59.999Z');
+  });
+
+  it('keeps full timestamps as given', () => {
+    expect(query({ since: '2024-06-01T08:30:00Z', until: '2024-06-01T10:00:00+02:00' })).toMatchObject({
+      since: '2024-06-01T08:30:00.000Z',
+      until: '2024-06-01T08:00:00.000Z'
+    });
+  });
+
+  it('rejects dates that do not parse', () => {
+    expect(parseCacheQuery(new URLSearchParams({ until: '2024-13-45' })).error).toMatch(/valid dates/);
+  });
+});
+
+describe('filterByQuery date bounds', () => {
+  const commits = [
+    commit('before', '2024-05-31T23:59:59Z'),
+    commit('start', '2024-06-01T00:00:00Z'),
+    commit('offset', '2024-06-01T09:30:00+02:00'),
+    commit('end', '2024-06-01T23:59:59Z'),
+    commit('after', '2024-06-02T00:00:00Z')
+  ];
+  const shas = (params: Record<string, string>) => filterByQuery(commits, query(params), COMMIT_QUERY_FIELDS).items.map(c => c.sha);
+
+  it('includes commits on both bounds of a date-only range', () => {
+    expect(shas({ since: '2024-06-01', until: '2024-06-01', sort: 'asc' })).toEqual(['start', 'offset', 'end']);
+  });
+
+  it('includes a commit exactly on a timestamp bound despite the missing milliseconds', () => {
+    expect(shas({ since: '2024-06-01T23:59:59Z', sort: 'asc' })).toEqual(['end', 'after']);
+    expect(shas({ until: '2024-06-01T00:00:00Z', sort: 'asc' })).toEqual(['before', 'start']);
+  });
+
+  it('compares dates with a UTC offset by the instant they describe', () => {
+    expect(shas({ since: '2024-06-01T07:30:00Z', until: '2024-06-01T07:30:00Z' })).toEqual(['offset']);
+  });
+});
@@ -0,0 +1,28 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { silenceConsole } from './githubFetchMock';
+
+async function loadConfig() {
+  vi.resetModules();
+  return (await import('../constants')).CONFIG;
+}
+
+describe('PR_MAX_PAGES', () => {
+  beforeEach(() => {
+    silenceConsole();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('reads a positive page cap from the environment', async () => {
+    vi.stubEnv('PR_MAX_PAGES', '25');
+    expect((await loadConfig()).PR_MAX_PAGES).toBe(25);
+  });
+
+  it.each(['0', '-3', 'ten', '2.5', ''])('falls back to 10 pages for %j', async value => {
+    vi.stubEnv('PR_MAX_PAGES', value);
+    expect((await loadConfig()).PR_MAX_PAGES).toBe(10);
+  });
+});
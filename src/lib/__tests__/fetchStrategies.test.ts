@@ -0,0 +1,346 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FetchStrategy, ProfileCache, RepositoryProfile, StrategyMetric } from '@/types/profiling';
+import { GitHubRepository } from '@/types/github';
+import { loadFixture, mockGitHubFetch, MockResponse, RecordedRequest, silenceConsole } from './githubFetchMock';
+
+// Profiles live in memory instead of the cache directory so each test picks its strategy up front
+const profileStore = vi.hoisted(() => ({ profiles: new Map<string, any>() }));
+vi.mock('../profileStore', () => ({
+  loadRepositoryProfiles: () => new Map(profileStore.profiles),
+  saveRepositoryProfiles: (profiles: Map<string, any>) => { profileStore.profiles = new Map(profiles); },
+  loadBranchMergeAnalysis: () => new Map(),
+  saveBranchMergeAnalysis: () => {},
+}));
+
+const REPO: GitHubRepository = {
+  name: 'widgets',
+  nameWithOwner: 'acme/widgets',
+  url: 'https://github.com/acme/widgets',
+  pushedAt: '2024-06-02T16:20:00Z',
+  isPrivate: false,
+  defaultBranch: 'main'
+};
+
+// Branch dates in the fixtures are recent relative to this, so no branch is skipped as inactive
+const NOW = new Date('2024-06-03T12:00:00Z');
+
+const COMPARE_PATH = '/repos/acme/widgets/compare/main...';
+
+// Heuristic strategy selection keys off the repository type and branch size distribution;
+// confidences are the ones the classifier gives each type
+type ProfileShape = Pick<RepositoryProfile, 'repositoryType' | 'smallBranchPercentage' | 'mediumBranchPercentage' | 'largeBranchPercentage' | 'confidence'>;
+const PROFILE_SHAPES: Record<FetchStrategy, ProfileShape> = {
+  PURE_COMPARE_API: { repositoryType: 'clean', smallBranchPercentage: 100, mediumBranchPercentage: 0, largeBranchPercentage: 0, confidence: 0.9 },
+  PURE_GRAPHQL: { repositoryType: 'legacy', smallBranchPercentage: 0, mediumBranchPercentage: 0, largeBranchPercentage: 100, confidence: 0.85 },
+  HYBRID_THRESHOLD: { repositoryType: 'mixed', smallBranchPercentage: 50, mediumBranchPercentage: 0, largeBranchPercentage: 50, confidence: 0.8 },
+  ADAPTIVE_BATCH: { repositoryType: 'experimental', smallBranchPercentage: 40, mediumBranchPercentage: 20, largeBranchPercentage: 40, confidence: 0.7 },
+};
+
+const HOUR = 60 * 60 * 1000;
+
+function seedProfile(strategy: FetchStrategy, strategyMetrics: StrategyMetric[] = [], overrides: Partial<ProfileShape> = {}, lastUpdated = NOW) {
+  const profile: RepositoryProfile = {
+    repositoryId: REPO.nameWithOwner,
+    repositoryName: REPO.nameWithOwner,
+    totalBranches: 3,
+    sampleSize: 2,
+    branchSizes: [2, 320],
+    averageBranchSize: 161,
+    medianBranchSize: 161,
+    branchSizeVariance: 25281,
+    ...PROFILE_SHAPES[strategy],
+    ...overrides,
+    defaultBranch: 'main',
+    createdAt: lastUpdated.toISOString(),
+    lastAnalyzed: lastUpdated.toISOString(),
+    analysisVersion: '2.0'
+  };
+  const cached: ProfileCache = {
+    repositoryId: REPO.nameWithOwner,
+    profile,
+    strategyMetrics,
+    fetchCount: strategyMetrics.length,
+    lastUpdated: lastUpdated.toISOString()
+  };
+  profileStore.profiles = new Map([[REPO.nameWithOwner, cached]]);
+}
+
+function metricRuns(strategy: FetchStrategy, runs: number, apiCalls: number, commitsYielded: number): StrategyMetric[] {
+  return Array.from({ length: runs }, () => ({
+    strategy, reason: 'heuristic', apiCalls, durationMs: 500, commitsYielded, recordedAt: NOW.toISOString()
+  }));
+}
+
+const HISTORIES: Record<string, string> = {
+  'refs/heads/main': 'github/main-history.json',
+  'refs/heads/feature/login-form': 'github/login-form-history.json',
+  'refs/heads/feature/big-refactor': 'github/big-refactor-history.json',
+};
+
+// The recorded big-refactor comparison is trimmed to one commit; pages are rebuilt from it with distinct SHAs
+function bigRefactorComparePage(page: number, perPage: number) {
+  const recorded = loadFixture('github/compare-big-refactor.json');
+  const [template] = recorded.commits;
+  const start = (page - 1) * perPage;
+  const count = Math.max(0, Math.min(perPage, recorded.ahead_by - start));
+  const commits = Array.from({ length: count }, (_, i) => {
+    const sha = (start + i).toString(16).padStart(7, '0') + template.sha.slice(7);
+    return { ...template, sha, node_id: `C_kwDOH${sha.slice(0, 12)}`, commit: { ...template.commit, message: `${template.commit.message} (part ${start + i + 1})` } };
+  });
+  return { ...recorded, commits };
+}
+
+// Recorded acme/widgets responses; `compare` overrides the Compare API answer per head branch
+function widgetsRoutes(compare: Record<string, (page: number, perPage: number) => MockResponse | any> = {}) {
+  return {
+    graphql: {
+      GetBranchesWithMergeInfo: () => loadFixture('github/branches-with-merge-info.json'),
+      GetSingleBranchCommits: (variables: any) => loadFixture(HISTORIES[variables.branch]),
+      GetCommitStats: () => loadFixture('github/commit-stats.json'),
+    },
+    rest: (pathname: string, searchParams: URLSearchParams) => {
+      if (!pathname.startsWith(COMPARE_PATH)) return undefined;
+      const head = pathname.slice(COMPARE_PATH.length);
+      const page = Number(searchParams.get('page') || 1);
+      const perPage = Number(searchParams.get('per_page') || 100);
+      const handler = compare[head] || {
+        'feature/login-form': () => loadFixture('github/compare-login-form.json'),
+        'feature/big-refactor': bigRefactorComparePage,
+      }[head];
+      return handler?.(page, perPage);
+    }
+  };
+}
+
+// Compare pages requested for a branch, in request order
+function comparePages(requests: RecordedRequest[], head: string): number[] {
+  return requests
+    .filter(request => request.kind === 'rest' && request.name === `${COMPARE_PATH}${head}`)
+    .map(request => Number(new URLSearchParams(request.search).get('page')));
+}
+
+// Profiling sizes every branch with a one-commit comparison, which strategies never request
+function branchSizeRequests(requests: RecordedRequest[]): RecordedRequest[] {
+  return requests.filter(request => request.kind === 'rest' && new URLSearchParams(request.search).get('per_page') === '1');
+}
+
+function historyRequests(requests: RecordedRequest[], branchName: string): RecordedRequest[] {
+  return requests.filter(request => request.kind === 'graphql' && request.variables?.branch === `refs/heads/${branchName}`);
+}
+
+const notFound = () => ({ status: 404, body: loadFixture('github/compare-not-found.json') });
+
+async function loadGitHubApi() {
+  vi.resetModules();
+  const globals = globalThis as any;
+  ['repositoryProfiler', 'mergedBranchDetector', 'branchComparisons', 'githubCredentials', 'rateLimitGovernor'].forEach(key => delete globals[key]);
+  return import('../githubApi');
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  vi.stubEnv('GITHUB_TOKEN', 'test-token');
+  vi.stubEnv('REPOSITORY_CONFIG_FILE', '/nonexistent/github-dashboard.config.json');
+  silenceConsole();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('compare failures', () => {
+  it('falls back to GraphQL history when a compare fails, without failing the repository', async () => {
+    seedProfile('HYBRID_THRESHOLD');
+    const requests = mockGitHubFetch(widgetsRoutes({ 'feature/login-form': notFound }));
+    const { fetchRepositoryCommits, takeRepositoryFailures } = await loadGitHubApi();
+
+    const commits = await fetchRepositoryCommits(REPO);
+
+    expect(requests).toContainEqual(expect.objectContaining({ kind: 'rest', name: `${COMPARE_PATH}feature/login-form` }));
+    expect(requests).toContainEqual(expect.objectContaining({ kind: 'graphql', name: 'GetSingleBranchCommits', variables: expect.objectContaining({ branch: 'refs/heads/feature/login-form' }) }));
+    expect(commits.filter(commit => commit.branch_name === 'feature/login-form').map(commit => commit.sha)).toEqual(['f1a2b3c', 'e7f8a9b']);
+    expect(takeRepositoryFailures(REPO.nameWithOwner)).toEqual([]);
+  });
+
+  it('leaves the repository status ok after a recovered compare error', async () => {
+    seedProfile('PURE_COMPARE_API');
+    mockGitHubFetch(widgetsRoutes({ 'feature/login-form': notFound, 'feature/big-refactor': notFound }));
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+    const { buildRepositoryStatus } = await import('../incrementalSync');
+
+    await fetchRepositoryCommits(REPO);
+
+    expect(buildRepositoryStatus(REPO.nameWithOwner, false, NOW.toISOString())).toEqual({
+      repo: REPO.nameWithOwner, status: 'ok', last_synced_at: NOW.toISOString()
+    });
+  });
+
+  it('keeps compared commits without diff stats when the stats lookup fails', async () => {
+    seedProfile('HYBRID_THRESHOLD');
+    const routes = widgetsRoutes();
+    mockGitHubFetch({ ...routes, graphql: { ...routes.graphql, GetCommitStats: () => ({ status: 403, body: { message: 'Resource not accessible by integration' } }) } });
+    const { fetchRepositoryCommits, takeRepositoryFailures } = await loadGitHubApi();
+
+    const commits = await fetchRepositoryCommits(REPO);
+    const loginForm = commits.filter(commit => commit.branch_name === 'feature/login-form');
+
+    expect(loginForm.map(commit => commit.sha)).toEqual(['f1a2b3c', 'e7f8a9b']);
+    expect(loginForm.every(commit => commit.additions === undefined && commit.check_status === undefined)).toBe(true);
+    expect(takeRepositoryFailures(REPO.nameWithOwner)).toEqual([]);
+  });
+
+  it('still fails the repository when the GraphQL fallback fails too', async () => {
+    seedProfile('HYBRID_THRESHOLD');
+    const routes = widgetsRoutes({ 'feature/login-form': notFound });
+    mockGitHubFetch({
+      ...routes,
+      graphql: {
+        ...routes.graphql,
+        GetSingleBranchCommits: (variables: any) => variables.branch === 'refs/heads/feature/login-form'
+          ? { status: 404, body: { message: 'Not Found' } }
+          : loadFixture(HISTORIES[variables.branch])
+      }
+    });
+    const { fetchRepositoryCommits, takeRepositoryFailures } = await loadGitHubApi();
+
+    await fetchRepositoryCommits(REPO);
+
+    expect(takeRepositoryFailures(REPO.nameWithOwner)).toEqual(['SingleBranchCommits: HTTP 404: Not Found']);
+  });
+});
+
+describe('commit fetch strategies', () => {
+  it('PURE_COMPARE_API pages through a comparison past the compare cap', async () => {
+    seedProfile('PURE_COMPARE_API');
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    const commits = await fetchRepositoryCommits(REPO);
+
+    expect(comparePages(requests, 'feature/big-refactor')).toEqual([1, 2, 3, 4]);
+    expect(historyRequests(requests, 'feature/big-refactor')).toEqual([]);
+    expect(commits.filter(commit => commit.branch_name === 'feature/big-refactor')).toHaveLength(320);
+    expect(requests.filter(request => request.name === 'GetCommitStats').map(request => request.variables.ids.length)).toEqual([2, 100, 100, 100, 20]);
+  });
+
+  it('PURE_COMPARE_API merges compare commits with their diff stats', async () => {
+    seedProfile('PURE_COMPARE_API');
+    mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    const commits = await fetchRepositoryCommits(REPO);
+    const newest = commits.find(commit => commit.sha === 'f1a2b3c');
+
+    expect(newest).toMatchObject({ branch_name: 'feature/login-form', additions: 14, deletions: 2, changed_files: 1, check_status: { state: 'FAILURE' } });
+    expect(commits.find(commit => commit.sha === 'e7f8a9b')?.coAuthors).toEqual(['Priya Natarajan']);
+  });
+
+  it('HYBRID_THRESHOLD compares small branches and reads large ones from GraphQL history', async () => {
+    seedProfile('HYBRID_THRESHOLD');
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    const commits = await fetchRepositoryCommits(REPO);
+
+    expect(comparePages(requests, 'feature/login-form')).toEqual([1]);
+    expect(comparePages(requests, 'feature/big-refactor')).toEqual([1]);
+    expect(historyRequests(requests, 'feature/login-form')).toEqual([]);
+    expect(historyRequests(requests, 'feature/big-refactor')).toHaveLength(1);
+    // The big-refactor history ends in a commit already on main, which stays attributed to main
+    expect(commits.filter(commit => commit.branch_name === 'feature/big-refactor').map(commit => commit.sha)).toEqual(['b0b1b2b', 'b1c2d3e', 'b2c3d4e']);
+    expect(commits.find(commit => commit.sha === 'a9e8d7c')?.branch_name).toBe('main');
+  });
+
+  it('ADAPTIVE_BATCH stops comparing at COMPARE_MAX_COMMITS and falls back to GraphQL history', async () => {
+    seedProfile('ADAPTIVE_BATCH');
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    const commits = await fetchRepositoryCommits(REPO);
+
+    expect(comparePages(requests, 'feature/big-refactor')).toEqual([1, 2, 3]);
+    expect(historyRequests(requests, 'feature/big-refactor')).toHaveLength(1);
+    expect(commits.filter(commit => commit.branch_name === 'feature/big-refactor')).toHaveLength(3);
+    expect(commits.filter(commit => commit.branch_name === 'feature/login-form')).toHaveLength(2);
+  });
+
+  it('PURE_GRAPHQL never calls the Compare API', async () => {
+    seedProfile('PURE_GRAPHQL');
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    const commits = await fetchRepositoryCommits(REPO);
+
+    expect(requests.filter(request => request.kind === 'rest')).toEqual([]);
+    expect(commits.map(commit => commit.sha)).toHaveLength(new Set(commits.map(commit => commit.sha)).size);
+    expect(commits).toHaveLength(8);
+  });
+
+  it('switches to the strategy with more commits per call once both have enough runs', async () => {
+    seedProfile('HYBRID_THRESHOLD', [...metricRuns('HYBRID_THRESHOLD', 3, 10, 20), ...metricRuns('PURE_GRAPHQL', 3, 4, 16)]);
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    await fetchRepositoryCommits(REPO);
+
+    expect(requests.filter(request => request.kind === 'rest')).toEqual([]);
+    const metrics: StrategyMetric[] = profileStore.profiles.get(REPO.nameWithOwner).strategyMetrics;
+    expect(metrics[metrics.length - 1]).toMatchObject({ strategy: 'PURE_GRAPHQL', reason: 'feedback', apiCalls: 4, commitsYielded: 8 });
+  });
+
+  it('keeps the heuristic strategy when the alternative is within the switch margin', async () => {
+    seedProfile('HYBRID_THRESHOLD', [...metricRuns('HYBRID_THRESHOLD', 3, 10, 20), ...metricRuns('PURE_GRAPHQL', 3, 10, 22)]);
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    await fetchRepositoryCommits(REPO);
+
+    expect(comparePages(requests, 'feature/login-form')).toEqual([1]);
+    const metrics: StrategyMetric[] = profileStore.profiles.get(REPO.nameWithOwner).strategyMetrics;
+    expect(metrics[metrics.length - 1]).toMatchObject({ strategy: 'HYBRID_THRESHOLD', reason: 'heuristic' });
+  });
+});
+
+describe('repository profile reuse', () => {
+  const LOW_CONFIDENCE: [string, FetchStrategy, Partial<ProfileShape>][] = [
+    ['single-branch', 'PURE_COMPARE_API', { confidence: 0.5 }],
+    ['unclear mixed', 'HYBRID_THRESHOLD', { confidence: 0.6 }],
+    ['experimental', 'ADAPTIVE_BATCH', {}],
+  ];
+
+  it.each(LOW_CONFIDENCE)('reuses a persisted %s profile instead of re-analyzing', async (_, strategy, overrides) => {
+    seedProfile(strategy, [], overrides, new Date(NOW.getTime() - 6 * HOUR));
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    await fetchRepositoryCommits(REPO);
+
+    expect(branchSizeRequests(requests)).toEqual([]);
+    expect(profileStore.profiles.get(REPO.nameWithOwner).profile.lastAnalyzed).toBe(new Date(NOW.getTime() - 6 * HOUR).toISOString());
+  });
+
+  it('re-analyzes a low-confidence profile after a day', async () => {
+    seedProfile('HYBRID_THRESHOLD', [], { confidence: 0.6 }, new Date(NOW.getTime() - 25 * HOUR));
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    await fetchRepositoryCommits(REPO);
+
+    expect(branchSizeRequests(requests).length).toBeGreaterThan(0);
+    expect(profileStore.profiles.get(REPO.nameWithOwner).profile.lastAnalyzed).toBe(NOW.toISOString());
+  });
+
+  it('keeps a confident profile for a week', async () => {
+    seedProfile('PURE_GRAPHQL', [], {}, new Date(NOW.getTime() - 6 * 24 * HOUR));
+    const requests = mockGitHubFetch(widgetsRoutes());
+    const { fetchRepositoryCommits } = await loadGitHubApi();
+
+    await fetchRepositoryCommits(REPO);
+
+    expect(branchSizeRequests(requests)).toEqual([]);
+  });
+});
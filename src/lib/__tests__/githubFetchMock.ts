@@ -0,0 +1,72 @@
+import fs from 'fs';
+import path from 'path';
+import { vi } from 'vitest';
+
+export interface MockResponse {
+  status?: number;
+  body: any;
+  headers?: Record<string, string>;
+}
+
+// GraphQL handlers are keyed by operation name (`query GetCommitStats(...)` -> GetCommitStats),
+// the REST handler gets the request path and query string
+export interface GitHubRoutes {
+  graphql?: Record<string, (variables: any) => MockResponse | any>;
+  rest?: (pathname: string, searchParams: URLSearchParams) => MockResponse | undefined;
+}
+
+export interface RecordedRequest {
+  kind: 'graphql' | 'rest';
+  name: string; // Operation name, or REST path
+  variables?: any;
+  search?: string;
+}
+
+export function loadFixture<T = any>(name: string): T {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8'));
+}
+
+function isMockResponse(value: any): value is MockResponse {
+  return value && typeof value === 'object' && 'body' in value && Object.keys(value).every(key => ['status', 'body', 'headers'].includes(key));
+}
+
+function toResponse(result: MockResponse | any): Response {
+  const { status = 200, body, headers = {} } = isMockResponse(result) ? result : { body: result };
+  return new Response(JSON.stringify(body), {
+    status,
+    statusText: status === 200 ? 'OK' : status === 404 ? 'Not Found' : String(status),
+    headers: { 'content-type': 'application/json', ...headers }
+  });
+}
+
+// Replaces global fetch with recorded GitHub responses; unrouted requests fail the test loudly
+export function mockGitHubFetch(routes: GitHubRoutes): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+
+    if (url.pathname === '/graphql') {
+      const { query, variables } = JSON.parse(String(init?.body));
+      const operation = /(?:query|mutation)\s+(\w+)/.exec(query)?.[1] || 'anonymous';
+      requests.push({ kind: 'graphql', name: operation, variables });
+      const handler = routes.graphql?.[operation];
+      if (!handler) throw new Error(`Unexpected GraphQL operation ${operation}`);
+      return toResponse(handler(variables));
+    }
+
+    requests.push({ kind: 'rest', name: decodeURIComponent(url.pathname), search: url.search });
+    const result = routes.rest?.(decodeURIComponent(url.pathname), url.searchParams);
+    if (!result) throw new Error(`Unexpected REST request ${url.pathname}${url.search}`);
+    return toResponse(result);
+  }));
+
+  return requests;
+}
+
+// Output of a sync is chatty by design; tests only look at what the functions return
+export function silenceConsole() {
+  (['log', 'warn', 'error', 'group', 'groupEnd', 'time', 'timeEnd'] as const).forEach(method => {
+    vi.spyOn(console, method).mockImplementation(() => {});
+  });
+}
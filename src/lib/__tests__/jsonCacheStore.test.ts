@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CACHE_DIR } from '../cacheStore';
+import { JsonCacheStore } from '../jsonCacheStore';
+import { silenceConsole } from './githubFetchMock';
+
+// Keeps the store from creating a cache directory in the working tree
+vi.mock('../cacheStore', async importOriginal => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  return { ...await importOriginal<typeof import('../cacheStore')>(), CACHE_DIR: mkdtempSync(join(tmpdir(), 'json-cache-test-')) };
+});
+
+const NOW = new Date('2024-06-03T12:00:00Z');
+const OTHER_PID = process.pid + 1;
+
+function tempFile(pid: number, writtenAt: Date): string {
+  const name = `commits.json.${pid}.${writtenAt.getTime()}.tmp`;
+  fs.writeFileSync(path.join(CACHE_DIR, name), '[');
+  return name;
+}
+
+describe('JsonCacheStore.verifyIntegrity', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    silenceConsole();
+    fs.readdirSync(CACHE_DIR).forEach(file => fs.unlinkSync(path.join(CACHE_DIR, file)));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+  });
+
+  it('removes only old temp files left behind by other processes', () => {
+    const abandoned = tempFile(OTHER_PID, new Date(NOW.getTime() - 60 * 60 * 1000));
+    const inFlight = tempFile(OTHER_PID, new Date(NOW.getTime() - 1000));
+    const own = tempFile(process.pid, new Date(NOW.getTime() - 60 * 60 * 1000));
+
+    expect(new JsonCacheStore().verifyIntegrity()).toBe(true);
+
+    expect(fs.readdirSync(CACHE_DIR).sort()).toEqual([inFlight, own].sort());
+    expect(fs.existsSync(path.join(CACHE_DIR, abandoned))).toBe(false);
+  });
+
+  it('moves a corrupt data file aside', () => {
+    fs.writeFileSync(path.join(CACHE_DIR, 'commits.json'), '[{"sha":');
+
+    expect(new JsonCacheStore().verifyIntegrity()).toBe(false);
+
+    expect(fs.readdirSync(CACHE_DIR)).toEqual([`commits.json.corrupt-${NOW.getTime()}`]);
+  });
+});
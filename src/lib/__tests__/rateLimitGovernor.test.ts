@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { silenceConsole } from './githubFetchMock';
+
+// githubApi builds its profiler on load; keep it away from the cache directory
+vi.mock('../profileStore', () => ({
+  loadRepositoryProfiles: () => new Map(),
+  saveRepositoryProfiles: () => {},
+  loadBranchMergeAnalysis: () => new Map(),
+  saveBranchMergeAnalysis: () => {},
+}));
+
+const NOW = new Date('2024-06-03T12:00:00Z');
+const RESET_IN_SECONDS = 600;
+
+function rateLimitHeaders(remaining: number, limit = 5000) {
+  return new Headers({
+    'x-ratelimit-limit': String(limit),
+    'x-ratelimit-remaining': String(remaining),
+    'x-ratelimit-used': String(limit - remaining),
+    'x-ratelimit-reset': String(NOW.getTime() / 1000 + RESET_IN_SECONDS)
+  });
+}
+
+async function loadGovernor() {
+  vi.resetModules();
+  delete (globalThis as any).rateLimitGovernor;
+  return (await import('../rateLimitGovernor')).rateLimitGovernor;
+}
+
+describe('rateLimitGovernor', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    silenceConsole();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('only pauses requests made with the exhausted token', async () => {
+    const governor = await loadGovernor();
+    governor.updateFromHeaders('org-token', rateLimitHeaders(10));
+    governor.updateFromHeaders('default-token', rateLimitHeaders(4000));
+
+    await expect(governor.waitForBudget('default-token')).resolves.toBe(0);
+
+    const exhaustedWait = governor.waitForBudget('org-token');
+    await vi.advanceTimersByTimeAsync((RESET_IN_SECONDS + 1) * 1000);
+    await expect(exhaustedWait).resolves.toBe((RESET_IN_SECONDS + 1) * 1000);
+  });
+
+  it('keeps secondary rate limit pauses to the token that hit them', async () => {
+    const governor = await loadGovernor();
+    const wait = governor.getRateLimitWait('org-token', 403, new Headers({ 'retry-after': '30' }), 'You have exceeded a secondary rate limit');
+    governor.pause('org-token', wait!, 'HTTP 403');
+
+    expect(governor.getStatus('org-token')?.paused_until).toBe(new Date(NOW.getTime() + 30_000).toISOString());
+    await expect(governor.waitForBudget('default-token')).resolves.toBe(0);
+  });
+
+  it('stretches the batch delay by the token it is asked about, or the lowest budget', async () => {
+    const governor = await loadGovernor();
+    governor.updateFromHeaders('org-token', rateLimitHeaders(150));
+    governor.updateFromHeaders('default-token', rateLimitHeaders(4000));
+
+    expect(governor.getBatchDelay('default-token')).toBe(1000);
+    expect(governor.getBatchDelay('org-token')).toBeGreaterThan(1000);
+    expect(governor.getBatchDelay()).toBe(governor.getBatchDelay('org-token'));
+    expect(governor.getStatus()?.remaining).toBe(150);
+  });
+
+  it('learns budgets from GraphQL rateLimit fields per token', async () => {
+    const governor = await loadGovernor();
+    governor.updateFromGraphQL('app-installation-token', { limit: 15000, remaining: 14990, used: 10, resetAt: '2024-06-03T13:00:00Z' });
+
+    expect(governor.getStatus('app-installation-token')).toMatchObject({ limit: 15000, remaining: 14990, reset_at: '2024-06-03T13:00:00.000Z' });
+    expect(governor.getStatus('default-token')).toBeNull();
+  });
+});
+
+describe('getBatchDelay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+    vi.stubEnv('GITHUB_TOKEN', 'default-token');
+    vi.stubEnv('GITHUB_ORG_TOKENS', 'acme:org-token');
+    silenceConsole();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('only slows batches that include repositories using a drained token', async () => {
+    const governor = await loadGovernor();
+    delete (globalThis as any).githubCredentials;
+    const { getBatchDelay } = await import('../githubApi');
+    governor.updateFromHeaders('org-token', rateLimitHeaders(150));
+    governor.updateFromHeaders('default-token', rateLimitHeaders(4000));
+
+    await expect(getBatchDelay(['octocat/hello-world', 'partner-org/shared-sdk'])).resolves.toBe(1000);
+    await expect(getBatchDelay(['octocat/hello-world', 'acme/widgets'])).resolves.toBe(governor.getBatchDelay('org-token'));
+    expect(governor.getBatchDelay('org-token')).toBeGreaterThan(1000);
+  });
+});
@@ -0,0 +1,167 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitHubCommit, GitHubPR, GitHubRepository } from '@/types/github';
+import { CACHE_DIR, CacheMetadata, CachedDataSet } from '../cacheStore';
+import { SqliteCacheStore } from '../sqliteCacheStore';
+import { silenceConsole } from './githubFetchMock';
+
+// Keeps the store from creating a cache directory in the working tree
+vi.mock('../cacheStore', async importOriginal => {
+  const { mkdtempSync } = await import('fs');
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  return { ...await importOriginal<typeof import('../cacheStore')>(), CACHE_DIR: mkdtempSync(join(tmpdir(), 'sqlite-cache-test-')) };
+});
+
+const METADATA: CacheMetadata = { lastSync: '2024-06-03T12:00:00.000Z', lastFullSync: '2024-06-01T00:00:00.000Z', version: '1.0.0' };
+
+function commit(repo: string, sha: string, date: string, message = `Commit ${sha}`): GitHubCommit {
+  return {
+    repo,
+    repo_url: `https://github.com/${repo}`,
+    branch_name: 'main',
+    branch_url: `https://github.com/${repo}/tree/main`,
+    sha,
+    message,
+    author: 'octocat',
+    date,
+    url: `https://github.com/${repo}/commit/${sha}`
+  };
+}
+
+function pullRequest(repo: string, number: number, state: GitHubPR['state']): GitHubPR {
+  return {
+    repo,
+    repo_url: `https://github.com/${repo}`,
+    number,
+    title: `PR ${number}`,
+    url: `https://github.com/${repo}/pull/${number}`,
+    created_at: '2024-06-02T10:00:00Z',
+    merged_at: state === 'Merged' ? '2024-06-03T10:00:00Z' : undefined,
+    state,
+    author: 'octocat',
+    head_branch: `feature/${number}`,
+    base_branch: 'main'
+  };
+}
+
+function repository(nameWithOwner: string): GitHubRepository {
+  return { name: nameWithOwner.split('/')[1], nameWithOwner, url: `https://github.com/${nameWithOwner}`, pushedAt: '2024-06-03T09:00:00Z', isPrivate: false, defaultBranch: 'main' };
+}
+
+function dataSet(overrides: Partial<CachedDataSet>): CachedDataSet {
+  return { commits: [], pull_requests: [], issues: [], releases: [], deployments: [], user_info: null, repositories: [], ...overrides };
+}
+
+describe('SqliteCacheStore', () => {
+  let store: SqliteCacheStore;
+  let file: string;
+
+  beforeEach(() => {
+    silenceConsole();
+    file = path.join(CACHE_DIR, `cache-${Date.now()}-${Math.random().toString(16).slice(2)}.db`);
+    store = new SqliteCacheStore(file);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    fs.rmSync(CACHE_DIR, { recursive: true, force: true });
+  });
+
+  it('upserts merged records by key and leaves everything else cached', () => {
+    store.writeData(dataSet({
+      commits: [commit('acme/widgets', 'aaaaaaa', '2024-06-01T10:00:00Z'), commit('acme/widgets', 'bbbbbbb', '2024-06-02T10:00:00Z')],
+      pull_requests: [pullRequest('acme/widgets', 7, 'Open')],
+      repositories: [repository('acme/widgets')]
+    }), METADATA);
+
+    const counts = store.mergeData({
+      commits: [commit('acme/widgets', 'bbbbbbb', '2024-06-02T10:00:00Z', 'Reworded'), commit('acme/widgets', 'ccccccc', '2024-06-03T10:00:00Z')],
+      pull_requests: [pullRequest('acme/widgets', 7, 'Merged')]
+    }, { ...METADATA, lastSync: '2024-06-03T13:00:00.000Z' });
+
+    expect(counts).toEqual({ commits: 1, pull_requests: 0, issues: 0, releases: 0, deployments: 0 });
+    const data = store.readData();
+    expect(data.commits.map(c => [c.sha, c.message])).toEqual([
+      ['ccccccc', 'Commit ccccccc'],
+      ['bbbbbbb', 'Reworded'],
+      ['aaaaaaa', 'Commit aaaaaaa']
+    ]);
+    expect(data.pull_requests.map(pr => pr.state)).toEqual(['Merged']);
+    expect(data.repositories.map(repo => repo.nameWithOwner)).toEqual(['acme/widgets']);
+    expect(store.readMetadata()?.lastSync).toBe('2024-06-03T13:00:00.000Z');
+  });
+
+  it('replaces the repository list and drops records of repositories that are no longer retained', () => {
+    store.writeData(dataSet({
+      commits: [commit('acme/widgets', 'aaaaaaa', '2024-06-01T10:00:00Z'), commit('acme/legacy', 'ddddddd', '2024-06-01T11:00:00Z')],
+      pull_requests: [pullRequest('acme/legacy', 3, 'Open')],
+      repositories: [repository('acme/widgets'), repository('acme/legacy'), repository('acme/archived')]
+    }), METADATA);
+
+    store.mergeData(
+      { repositories: [repository('acme/widgets'), repository('acme/legacy')] },
+      METADATA,
+      { replaceRepositories: true, retainRepository: repo => repo !== 'acme/legacy' }
+    );
+
+    const data = store.readData();
+    expect(data.repositories.map(repo => repo.nameWithOwner)).toEqual(['acme/widgets']);
+    expect(data.commits.map(c => c.sha)).toEqual(['aaaaaaa']);
+    expect(data.pull_requests).toEqual([]);
+  });
+
+  it('only rewrites rows whose record changed', () => {
+    const unchanged = commit('acme/widgets', 'aaaaaaa', '2024-06-01T10:00:00Z');
+    const changed = commit('acme/widgets', 'bbbbbbb', '2024-06-02T10:00:00Z');
+    store.writeData(dataSet({ commits: [unchanged, changed] }), METADATA);
+
+    // A trigger sees writes from every connection, so it records exactly which rows the merge touched
+    const inspector = new Database(file);
+    inspector.exec(`
+      CREATE TABLE updated_shas (sha TEXT);
+      CREATE TRIGGER log_commit_updates AFTER UPDATE ON commits BEGIN INSERT INTO updated_shas VALUES (NEW.sha); END;
+    `);
+
+    store.mergeData({ commits: [unchanged, { ...changed, message: 'Reworded' }] }, METADATA);
+
+    expect(inspector.prepare('SELECT sha FROM updated_shas').pluck().all()).toEqual(['bbbbbbb']);
+    inspector.close();
+  });
+
+  it('removes rows missing from a full write', () => {
+    store.writeData(dataSet({
+      commits: [commit('acme/widgets', 'aaaaaaa', '2024-06-01T10:00:00Z'), commit('acme/widgets', 'bbbbbbb', '2024-06-02T10:00:00Z')],
+      repositories: [repository('acme/widgets')]
+    }), METADATA);
+
+    store.writeData(dataSet({
+      commits: [commit('acme/widgets', 'bbbbbbb', '2024-06-02T10:00:00Z')],
+      repositories: [repository('acme/widgets')]
+    }), METADATA);
+
+    expect(store.readData().commits.map(c => c.sha)).toEqual(['bbbbbbb']);
+  });
+
+  it('compares query date bounds as timestamps', () => {
+    store.writeData(dataSet({
+      commits: [
+        commit('acme/widgets', 'before', '2024-05-31T23:59:59Z'),
+        commit('acme/widgets', 'start', '2024-06-01T00:00:00Z'),
+        commit('acme/widgets', 'offset', '2024-06-01T09:30:00+02:00'),
+        commit('acme/widgets', 'end', '2024-06-01T23:59:59Z'),
+        commit('acme/widgets', 'after', '2024-06-02T00:00:00Z')
+      ]
+    }), METADATA);
+    const shas = (since: string, until: string) => store.queryCommits({ since, until, order: 'asc' }).items.map(c => c.sha);
+
+    expect(shas('2024-06-01T00:00:00.000Z', '2024-06-01T23:59:59.999Z')).toEqual(['start', 'offset', 'end']);
+    expect(shas('2024-06-01T23:59:59.000Z', '2024-06-02T00:00:00.000Z')).toEqual(['end', 'after']);
+    expect(shas('2024-06-01T07:30:00.000Z', '2024-06-01T07:30:00.000Z')).toEqual(['offset']);
+  });
+});
@@ -0,0 +1,192 @@
+import crypto from 'crypto';
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitHubPR } from '@/types/github';
+import { CachedData } from '../cacheStore';
+import { getCachedData, updateCachedData } from '../fileCache';
+import { handleWebhookEvent, isSupportedWebhookEvent, verifyWebhookSignature } from '../webhookHandler';
+import { SyncEvent, syncEvents } from '../syncEvents';
+import { POST } from '@/app/api/github/webhook/route';
+import { loadFixture, silenceConsole } from './githubFetchMock';
+
+// The config is read once on first use, so point it away from any local config before anything loads it
+vi.hoisted(() => {
+  process.env.REPOSITORY_CONFIG_FILE = '/nonexistent/github-dashboard.config.json';
+});
+
+vi.mock('../fileCache', () => ({
+  getCachedData: vi.fn(),
+  getCacheMetadata: vi.fn(() => ({ lastSync: '2024-06-03T07:00:00.000Z', lastFullSync: '2024-06-01T00:00:00.000Z', version: '1.0.0' })),
+  updateCachedData: vi.fn(() => ({ commits: 1, pull_requests: 0, issues: 0, releases: 0, deployments: 0 }))
+}));
+
+vi.mock('../incrementalSync', () => ({
+  waitForActiveSync: vi.fn(async () => undefined)
+}));
+
+const SECRET = 'webhook-test-secret';
+
+const EXISTING_PR: GitHubPR = {
+  repo: 'acme/widgets',
+  repo_url: 'https://github.com/acme/widgets',
+  number: 42,
+  title: 'Validate email on the login form',
+  url: 'https://github.com/acme/widgets/pull/42',
+  created_at: '2024-06-02T16:20:00Z',
+  state: 'Open',
+  author: 'monalisa',
+  head_branch: 'feature/login-form',
+  head_sha: '4e7d2b9a1c3f5e6d8a0b2c4e6f8a1b3d5c7e9f0a',
+  base_branch: 'main',
+  is_draft: true,
+  reviews: [{ reviewer: 'hubot', state: 'COMMENTED', submitted_at: '2024-06-02T18:00:00Z' }],
+  check_status: { state: 'SUCCESS', checks: [{ name: 'build', state: 'SUCCESS' }] },
+  first_commit_at: '2024-06-02T15:00:00Z'
+};
+
+function cachedData(): CachedData {
+  return {
+    commits: [],
+    pull_requests: [EXISTING_PR],
+    issues: [],
+    releases: [],
+    deployments: [],
+    user_info: null,
+    repositories: [{ name: 'widgets', nameWithOwner: 'acme/widgets', url: 'https://github.com/acme/widgets', pushedAt: '2024-06-03T08:00:00Z', isPrivate: false, defaultBranch: 'main' }],
+    metadata: { lastSync: '2024-06-03T07:00:00.000Z', lastFullSync: '2024-06-01T00:00:00.000Z', version: '1.0.0' }
+  };
+}
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function delivery(event: string, body: string, signature: string | null = sign(body)): NextRequest {
+  const headers: Record<string, string> = { 'x-github-event': event, 'x-github-delivery': '72d3162e-cc78-11e3-81ab-4c9367dc0958', 'content-type': 'application/json' };
+  if (signature) headers['x-hub-signature-256'] = signature;
+  return new NextRequest('http://localhost/api/github/webhook', { method: 'POST', body, headers });
+}
+
+describe('webhook deliveries', () => {
+  let published: SyncEvent[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    silenceConsole();
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', SECRET);
+    vi.mocked(getCachedData).mockReturnValue(cachedData());
+    vi.mocked(updateCachedData).mockClear();
+    published = [];
+    unsubscribe = syncEvents.subscribe(event => published.push(event));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('merges the distinct commits of a push as GraphQL-shaped commits', async () => {
+    const result = await handleWebhookEvent('push', loadFixture('webhooks/push.json'));
+
+    expect(result).toEqual({ status: 'merged', commits: 1, pull_requests: 0 });
+    expect(updateCachedData).toHaveBeenCalledWith({
+      commits: [{
+        repo: 'acme/widgets',
+        repo_url: 'https://github.com/acme/widgets',
+        branch_name: 'feature/login-form',
+        branch_url: 'https://github.com/acme/widgets/tree/feature/login-form',
+        sha: '4e7d2b9',
+        message: 'Validate email on the login form\n\nCo-authored-by: Hubot <hubot@acme.dev>',
+        author: 'Mona Lisa',
+        date: '2024-06-03T08:15:30Z',
+        url: 'https://github.com/acme/widgets/commit/4e7d2b9a1c3f5e6d8a0b2c4e6f8a1b3d5c7e9f0a',
+        changed_files: 2,
+        coAuthors: ['Hubot']
+      }],
+      pull_requests: []
+    });
+    expect(published).toEqual([expect.objectContaining({ type: 'activity', last_sync: '2024-06-03T07:00:00.000Z' })]);
+  });
+
+  it('still reports a merge when a dashboard stream fails to take the event', async () => {
+    const unsubscribeBroken = syncEvents.subscribe(() => { throw new TypeError('Invalid state: Controller is already closed'); });
+
+    const result = await handleWebhookEvent('push', loadFixture('webhooks/push.json'));
+    unsubscribeBroken();
+
+    expect(result).toEqual({ status: 'merged', commits: 1, pull_requests: 0 });
+    expect(published).toHaveLength(1);
+  });
+
+  it('ignores tag pushes', async () => {
+    const result = await handleWebhookEvent('push', { ...loadFixture('webhooks/push.json'), ref: 'refs/tags/v2.1.0' });
+
+    expect(result).toMatchObject({ status: 'ignored', reason: 'Nothing to merge' });
+    expect(updateCachedData).not.toHaveBeenCalled();
+  });
+
+  it('updates a pull request while keeping what the payload does not carry', async () => {
+    const result = await handleWebhookEvent('pull_request', loadFixture('webhooks/pull_request.json'));
+
+    expect(result).toEqual({ status: 'merged', commits: 0, pull_requests: 1 });
+    const [pr] = vi.mocked(updateCachedData).mock.calls[0][0].pull_requests!;
+    expect(pr).toMatchObject({
+      number: 42,
+      state: 'Open',
+      is_draft: false,
+      ready_for_review_at: '2024-06-03T08:30:12Z',
+      requested_reviewers: ['hubot', 'web-platform'],
+      labels: ['frontend'],
+      milestone: 'v2.1',
+      additions: 128,
+      deletions: 14,
+      changed_files: 5,
+      reviews: EXISTING_PR.reviews,
+      check_status: EXISTING_PR.check_status,
+      first_commit_at: EXISTING_PR.first_commit_at
+    });
+  });
+
+  it('ignores deliveries for repositories that are not cached', async () => {
+    const payload = loadFixture('webhooks/pull_request.json');
+    const result = await handleWebhookEvent('pull_request', { ...payload, repository: { ...payload.repository, full_name: 'acme/unknown' } });
+
+    expect(result).toMatchObject({ status: 'ignored', reason: 'Repository acme/unknown is not tracked' });
+    expect(updateCachedData).not.toHaveBeenCalled();
+  });
+
+  it('acknowledges issues events without touching the cache', async () => {
+    const body = JSON.stringify(loadFixture('webhooks/issues.json'));
+    expect(isSupportedWebhookEvent('issues')).toBe(false);
+
+    const response = await POST(delivery('issues', body));
+
+    expect(response.status).toBe(202);
+    expect(await response.json()).toEqual({ status: 'ignored', reason: 'Unsupported event: issues' });
+    expect(updateCachedData).not.toHaveBeenCalled();
+  });
+
+  it('merges a signed delivery through the route', async () => {
+    const response = await POST(delivery('push', JSON.stringify(loadFixture('webhooks/push.json'))));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'merged', commits: 1, pull_requests: 0 });
+  });
+
+  it('rejects deliveries whose signature does not match the body', async () => {
+    const body = JSON.stringify(loadFixture('webhooks/push.json'));
+
+    expect(verifyWebhookSignature(body, sign(body), SECRET)).toBe(true);
+    expect(verifyWebhookSignature(body, sign(body, 'another-secret'), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body.replace('login form', 'signup form'), sign(body), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body).replace('sha256=', 'sha1='), SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body, null, SECRET)).toBe(false);
+
+    for (const signature of [sign(body, 'another-secret'), null]) {
+      const response = await POST(delivery('push', body, signature));
+      expect(response.status).toBe(401);
+    }
+    expect(updateCachedData).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,5 @@
-import { GitHubData } from '@/types/github';
+import { GitHubData, ActivityQueryParams, CommitQueryResponse, PullRequestQueryResponse } from '@/types/github';
+import { ProfileListEntry, BranchOverviewResponse } from '@/types/profiling';
 
 // Fetch GitHub data (uses cache if valid, otherwise performs incremental sync)
 export async function fetchGitHubData(): Promise<GitHubData> {
@@ -36,3 +37,71 @@ export async function fullSyncGitHubData(): Promise<GitHubData> {
   return response.json();
 }
 
+function toSearchParams(params: ActivityQueryParams): string {
+  const searchParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') {
+      searchParams.set(key, String(value));
+    }
+  });
+  return searchParams.toString();
+}
+
+// Query cached commits with server-side filtering and cursor pagination
+export async function queryCommits(params: ActivityQueryParams = {}): Promise<CommitQueryResponse> {
+  const response = await fetch(`/api/github/commits?${toSearchParams(params)}`);
+  
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to query commits');
+  }
+  
+  return response.json();
+}
+
+// Query cached pull requests with server-side filtering and cursor pagination
+export async function queryPullRequests(params: ActivityQueryParams = {}): Promise<PullRequestQueryResponse> {
+  const response = await fetch(`/api/github/pulls?${toSearchParams(params)}`);
+  
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to query pull requests');
+  }
+  
+  return response.json();
+}
+
+// Cached repository profiles with each repository's fetch strategy history
+export async function fetchRepositoryProfiles(): Promise<ProfileListEntry[]> {
+  const response = await fetch('/api/github/profiles');
+  
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch repository profiles');
+  }
+  
+  const { profiles } = await response.json();
+  return profiles;
+}
+
+// Drop a repository's profile and strategy history so the next sync re-analyzes it
+export async function invalidateRepositoryProfile(repo: string): Promise<void> {
+  const response = await fetch(`/api/github/profiles?repo=${encodeURIComponent(repo)}`, { method: 'DELETE' });
+  
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to invalidate repository profile');
+  }
+}
+
+// Every branch of one repository with ahead/behind counts and merge analysis
+export async function fetchBranchOverview(repo: string): Promise<BranchOverviewResponse> {
+  const response = await fetch(`/api/github/branches?repo=${encodeURIComponent(repo)}`);
+  
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to fetch branches');
+  }
+  
+  return response.json();
+}
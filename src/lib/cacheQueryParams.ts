@@ -0,0 +1,74 @@
+import { CONFIG } from './constants';
+import { CacheQuery } from './cacheStore';
+
+type ParsedQuery = { query: CacheQuery; error?: undefined } | { query?: undefined; error: string };
+
+// Cursors are opaque to clients so the paging scheme can change without breaking them
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// A bare date means the whole day: since starts at its first millisecond, until ends at its last (UTC)
+function parseDate(value: string | null, endOfDay: boolean): string | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(DATE_ONLY.test(value) && endOfDay ? `${value}T23:59:59.999Z` : value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// Shared parsing for the cache query endpoints - returns an error message for anything malformed
+export function parseCacheQuery(searchParams: URLSearchParams): ParsedQuery {
+  const since = parseDate(searchParams.get('since'), false);
+  const until = parseDate(searchParams.get('until'), true);
+  if (since === null || until === null) {
+    return { error: 'since and until must be valid dates (e.g. 2024-01-31 or 2024-01-31T12:00:00Z)' };
+  }
+
+  const sort = searchParams.get('sort') || 'desc';
+  if (sort !== 'asc' && sort !== 'desc') {
+    return { error: 'sort must be "asc" or "desc"' };
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam ? parseInt(limitParam) : CONFIG.QUERY_DEFAULT_PAGE_SIZE;
+  if (isNaN(limit) || limit < 1 || limit > CONFIG.QUERY_MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${CONFIG.QUERY_MAX_PAGE_SIZE}` };
+  }
+
+  const cursor = searchParams.get('cursor');
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  if (offset === null) {
+    return { error: 'Invalid cursor' };
+  }
+
+  return {
+    query: {
+      repo: searchParams.get('repo') || undefined,
+      author: searchParams.get('author') || undefined,
+      branch: searchParams.get('branch') || undefined,
+      state: searchParams.get('state') || undefined,
+      text: searchParams.get('q')?.trim() || undefined,
+      since,
+      until,
+      order: sort,
+      limit,
+      offset
+    }
+  };
+}
+
+// Cursor for the page after this one, or null when the last page has been returned
+export function getNextCursor(query: CacheQuery, returnedCount: number, total: number): string | null {
+  const nextOffset = (query.offset || 0) + returnedCount;
+  return nextOffset < total ? encodeCursor(nextOffset) : null;
+}
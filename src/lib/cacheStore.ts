@@ -0,0 +1,180 @@
+import path from 'path';
+import { GitHubCommit, GitHubPR, GitHubIssue, GitHubRelease, GitHubDeployment, GitHubUser, GitHubRepository, RepositorySyncStatus } from '@/types/github';
+
+export const CACHE_DIR = path.join(process.cwd(), '.github-dashboard-cache');
+
+export type CacheBackend = 'json' | 'sqlite';
+
+export interface CacheMetadata {
+  lastSync: string;
+  lastFullSync: string;
+  version: string;
+  truncatedRepos?: string[]; // Repositories whose PR history hit the PR_MAX_PAGES cap
+  repoStatuses?: RepositorySyncStatus[]; // Outcome of the last sync for each repository
+}
+
+export interface CachedDataSet {
+  commits: GitHubCommit[];
+  pull_requests: GitHubPR[];
+  issues: GitHubIssue[];
+  releases: GitHubRelease[];
+  deployments: GitHubDeployment[];
+  user_info: GitHubUser | null;
+  repositories: GitHubRepository[];
+}
+
+export interface CachedData extends CachedDataSet {
+  metadata: CacheMetadata;
+}
+
+// New and refetched records to merge into the cache; collections left out are untouched
+export type CachedDataDelta = Partial<Omit<CachedDataSet, 'user_info'>>;
+
+export interface CacheMergeOptions {
+  replaceRepositories?: boolean; // The delta's repositories are the complete list, not additions
+  retainRepository?: (nameWithOwner: string) => boolean; // Records of repositories it rejects are dropped
+}
+
+// Records a merge inserted; records that replaced a cached one with the same key aren't counted
+export interface CacheMergeCounts {
+  commits: number;
+  pull_requests: number;
+  issues: number;
+  releases: number;
+  deployments: number;
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+// Filters shared by every backend - dates are ISO strings, bounds are inclusive
+export interface CacheQuery {
+  repo?: string;
+  author?: string;
+  branch?: string; // Commit branch, or PR head/base branch
+  state?: string; // PRs only, case-insensitive
+  text?: string; // Case-insensitive substring of message/SHA (commits) or title (PRs)
+  since?: string;
+  until?: string;
+  order?: SortOrder; // By commit date or PR creation date, newest first by default
+  limit?: number;
+  offset?: number;
+}
+
+export interface CacheQueryResult<T> {
+  items: T[];
+  total: number; // Matches before limit/offset were applied
+}
+
+// Storage backend behind fileCache - JSON files by default, SQLite for large installs
+export interface CacheStore {
+  readonly backend: CacheBackend;
+  readMetadata(): CacheMetadata | null;
+  writeMetadata(metadata: CacheMetadata): void;
+  readData(): CachedDataSet;
+  // Replaces all cached data and metadata together
+  writeData(data: CachedDataSet, metadata: CacheMetadata): void;
+  // Inserts or updates records by key (repo + SHA, number, tag or id) and writes metadata in the same step
+  mergeData(delta: CachedDataDelta, metadata: CacheMetadata, options?: CacheMergeOptions): CacheMergeCounts;
+  queryCommits(query: CacheQuery): CacheQueryResult<GitHubCommit>;
+  queryPullRequests(query: CacheQuery): CacheQueryResult<GitHubPR>;
+  clear(): void;
+  // Checked once when the store is opened - false means a previous write was interrupted
+  verifyIntegrity(): boolean;
+}
+
+// How each record type maps onto the shared query filters
+export interface QueryFields<T> {
+  date: (item: T) => string;
+  branches: (item: T) => (string | undefined)[];
+  state?: (item: T) => string;
+  text: (item: T) => string[];
+}
+
+export const COMMIT_QUERY_FIELDS: QueryFields<GitHubCommit> = {
+  date: commit => commit.date,
+  branches: commit => [commit.branch_name],
+  text: commit => [commit.message, commit.sha]
+};
+
+export const PR_QUERY_FIELDS: QueryFields<GitHubPR> = {
+  date: pr => pr.created_at,
+  branches: pr => [pr.head_branch, pr.base_branch],
+  state: pr => pr.state,
+  text: pr => [pr.title]
+};
+
+// In-memory fallback for backends without native indexes
+export function filterByQuery<T extends { repo: string; author: string }>(items: T[], query: CacheQuery, fields: QueryFields<T>): CacheQueryResult<T> {
+  const text = query.text?.toLowerCase();
+  const state = query.state?.toLowerCase();
+  const direction = query.order === 'asc' ? 1 : -1;
+  // Cached dates come from GitHub with and without milliseconds or UTC offsets, so bounds compare as timestamps
+  const since = query.since ? new Date(query.since).getTime() : undefined;
+  const until = query.until ? new Date(query.until).getTime() : undefined;
+
+  const filtered = items
+    .filter(item => !query.repo || item.repo === query.repo)
+    .filter(item => !query.author || item.author === query.author)
+    .filter(item => !query.branch || fields.branches(item).includes(query.branch))
+    .filter(item => !state || (fields.state !== undefined && fields.state(item).toLowerCase() === state))
+    .filter(item => !text || fields.text(item).some(value => value?.toLowerCase().includes(text)))
+    .filter(item => since === undefined || new Date(fields.date(item)).getTime() >= since)
+    .filter(item => until === undefined || new Date(fields.date(item)).getTime() <= until)
+    .sort((a, b) => direction * (new Date(fields.date(a)).getTime() - new Date(fields.date(b)).getTime()));
+
+  const offset = query.offset || 0;
+  return {
+    items: query.limit !== undefined ? filtered.slice(offset, offset + query.limit) : filtered.slice(offset),
+    total: filtered.length
+  };
+}
+
+function mergeRecords<T extends { repo: string }>(existing: T[], incoming: T[] = [], key: (item: T) => string, date: (item: T) => string, retain: (nameWithOwner: string) => boolean) {
+  const merged = new Map(existing.map(item => [key(item), item]));
+  let inserted = 0;
+  incoming.forEach(item => {
+    if (!merged.has(key(item))) {
+      inserted++;
+    }
+    merged.set(key(item), item);
+  });
+
+  const items = Array.from(merged.values())
+    .filter(item => retain(item.repo))
+    .sort((a, b) => new Date(date(b)).getTime() - new Date(date(a)).getTime());
+  return { items, inserted };
+}
+
+// In-memory merge for backends that rewrite whole collections; later records win over cached ones with the same key
+export function mergeDataSet(existing: CachedDataSet, delta: CachedDataDelta, options: CacheMergeOptions = {}): { data: CachedDataSet; counts: CacheMergeCounts } {
+  const retain = options.retainRepository || (() => true);
+  const commits = mergeRecords(existing.commits, delta.commits, commit => `${commit.repo}-${commit.sha}`, commit => commit.date, retain);
+  const pullRequests = mergeRecords(existing.pull_requests, delta.pull_requests, pr => `${pr.repo}-${pr.number}`, pr => pr.created_at, retain);
+  const issues = mergeRecords(existing.issues, delta.issues, issue => `${issue.repo}-${issue.number}`, issue => issue.created_at, retain);
+  const releases = mergeRecords(existing.releases, delta.releases, release => `${release.repo}-${release.tag}`, release => release.published_at, retain);
+  const deployments = mergeRecords(existing.deployments, delta.deployments, deployment => `${deployment.repo}-${deployment.id}`, deployment => deployment.created_at, retain);
+
+  const repoMap = new Map((options.replaceRepositories ? [] : existing.repositories).map(repo => [repo.nameWithOwner, repo]));
+  (delta.repositories || []).forEach(repo => repoMap.set(repo.nameWithOwner, repo));
+
+  return {
+    data: {
+      commits: commits.items,
+      pull_requests: pullRequests.items,
+      issues: issues.items,
+      releases: releases.items,
+      deployments: deployments.items,
+      user_info: existing.user_info,
+      repositories: Array.from(repoMap.values())
+        .filter(repo => retain(repo.nameWithOwner))
+        .sort((a, b) => a.nameWithOwner.localeCompare(b.nameWithOwner))
+    },
+    counts: {
+      commits: commits.inserted,
+      pull_requests: pullRequests.inserted,
+      issues: issues.inserted,
+      releases: releases.inserted,
+      deployments: deployments.inserted
+    }
+  };
+}
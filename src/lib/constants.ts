@@ -1,3 +1,15 @@
+// A cap of zero, a negative number or a typo would silently stop the fetch it bounds, so those fall back to the default
+function positiveIntFromEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') return defaultValue;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 1) {
+    console.warn(`⚠️  Ignoring ${name}=${raw}: expected a positive integer, using ${defaultValue}`);
+    return defaultValue;
+  }
+  return value;
+}
+
 export const CONFIG = {
   DEBUG_DATA_FILENAME: "github_data.json",
   COMMIT_STREAM_DEBUG_FILENAME: "cs_debug.json", 
@@ -9,10 +21,54 @@ export const CONFIG = {
   MAX_REPOS_FOR_COMMIT_STREAM: 5,
   REQUEST_TIMEOUT: 30000,
   GRAPHQL_QUERY_TIMEOUT: 45000,
+  // Maximum pages of 100 PRs fetched per repository before the repo is marked as truncated
+  PR_MAX_PAGES: positiveIntFromEnv('PR_MAX_PAGES', 10),
+  // Rate limit governor: slow batches below the slowdown threshold, pause until reset below the pause threshold
+  RATE_LIMIT_SLOWDOWN_THRESHOLD: parseInt(process.env.RATE_LIMIT_SLOWDOWN_THRESHOLD || '1000'),
+  RATE_LIMIT_PAUSE_THRESHOLD: parseInt(process.env.RATE_LIMIT_PAUSE_THRESHOLD || '100'),
+  RATE_LIMIT_MAX_WAIT: 15 * 60 * 1000,
+  RATE_LIMIT_MAX_RETRIES: 3,
+  SECONDARY_RATE_LIMIT_WAIT: 60000,
+  SYNC_BATCH_DELAY: 1000,
+  RATE_LIMIT_MAX_BATCH_DELAY: 10000,
+  // Transient failure retries (5xx, network errors, timeouts) with jittered exponential backoff
+  RETRY_MAX_ATTEMPTS: parseInt(process.env.RETRY_MAX_ATTEMPTS || '3'),
+  RETRY_BASE_DELAY: parseInt(process.env.RETRY_BASE_DELAY || '1000'),
+  RETRY_MAX_DELAY: 30000,
+  // Background incremental sync interval; 0 disables the scheduler
+  SYNC_INTERVAL_MINUTES: parseInt(process.env.SYNC_INTERVAL_MINUTES || '15'),
+  // Fetch strategy feedback: runs kept per repository, runs averaged per strategy, runs needed before a strategy's numbers count,
+  // how much more efficient (commits per API call) an alternative must be to take over, and how often an untried strategy is sampled
+  STRATEGY_METRICS_HISTORY: 50,
+  STRATEGY_STATS_WINDOW: 5,
+  STRATEGY_MIN_SAMPLES: 3,
+  STRATEGY_SWITCH_MARGIN: 0.2,
+  STRATEGY_EXPLORATION_INTERVAL: parseInt(process.env.STRATEGY_EXPLORATION_INTERVAL || '10'),
+  // REST Compare API: commits per page, and how large a range the adaptive strategy compares before using GraphQL history
+  COMPARE_PAGE_SIZE: 100,
+  COMPARE_MAX_COMMITS: 250,
+  // Adaptive batch strategy: branches compared in parallel, doubled after a clean batch and halved after failures or a low budget
+  ADAPTIVE_BATCH_INITIAL_SIZE: 3,
+  ADAPTIVE_BATCH_MAX_SIZE: 10,
+  // Branch explorer: branches compared against the default branch in parallel
+  BRANCH_COMPARE_CONCURRENCY: 5,
+  // Newest releases and tags fetched per repository on a full sync, and on an incremental sync of a pushed repository
+  RELEASES_PER_REPO: parseInt(process.env.RELEASES_PER_REPO || '50'),
+  RELEASES_INCREMENTAL_LIMIT: 10,
+  // Newest deployments (all environments) fetched per repository on a full sync, and on an incremental sync of a pushed repository
+  DEPLOYMENTS_PER_REPO: parseInt(process.env.DEPLOYMENTS_PER_REPO || '100'),
+  DEPLOYMENTS_INCREMENTAL_LIMIT: 20,
+  // Commit authors treated as bots (comma-separated, * matches anything, case-insensitive); hidden from contributor charts unless included
+  BOT_AUTHOR_PATTERNS: (process.env.NEXT_PUBLIC_BOT_AUTHOR_PATTERNS || '*[bot],dependabot*,renovate*,github-actions*,snyk-bot,greenkeeper*')
+    .split(',').map(pattern => pattern.trim()).filter(Boolean),
+  // Page size for /api/github/commits and /api/github/pulls
+  QUERY_DEFAULT_PAGE_SIZE: 50,
+  QUERY_MAX_PAGE_SIZE: 500,
   STREAM_CONTAINER_HEIGHT: 900,
   TABLE_CONTAINER_HEIGHT: 350,
   COMMIT_MESSAGE_MAX_LENGTH: 100,
   PR_TITLE_MAX_LENGTH: 100,
+  ISSUE_TITLE_MAX_LENGTH: 100,
   DEFAULT_TEXT_TRUNCATION_SUFFIX: "...",
   DEFAULT_DISPLAY_COUNT: 10,
   MIN_DISPLAY_COUNT: 1,
@@ -25,9 +81,15 @@ export const PR_STATUS_EMOJIS = {
   "Closed": "❌"
 };
 
+export const ISSUE_STATUS_EMOJIS = {
+  "Open": "🟢",
+  "Closed": "🟣"
+};
+
 export const ACTIVITY_EMOJIS = {
   "commit": "📝",
   "pr": "🔀",
+  "issue": "🐛",
   "repo": "📦", 
   "branch": "🌿",
   "author": "👤",
@@ -49,10 +111,11 @@ export const DATE_COLORS = {
 };
 
 export const ERROR_MESSAGES = {
-  "no_token": "GITHUB_TOKEN environment variable not set.",
+  "no_token": "GITHUB_TOKEN environment variable not set (and no GitHub App or organization tokens configured).",
   "no_repos": "No repositories found.",
   "no_commits": "No commits found.", 
   "no_prs": "No pull requests found.",
+  "no_issues": "No issues found.",
   "api_error": "Error communicating with GitHub API.",
   "timeout_error": "Request timed out.",
   "file_not_found": "Debug file not found.",
@@ -68,10 +131,15 @@ export const INFO_MESSAGES = {
 };
 
 // GitHub configuration with environment variable support
+// For GitHub Enterprise Server, GITHUB_BASE_URL alone is enough - the API endpoints are derived from it
+const GITHUB_BASE_URL = (process.env.GITHUB_BASE_URL || 'https://github.com').replace(/\/+$/, '');
+const IS_GITHUB_DOTCOM = GITHUB_BASE_URL === 'https://github.com';
+
 export const GITHUB_CONFIG = {
-  API_URL: process.env.GITHUB_API_URL || 'https://api.github.com/graphql',
-  BASE_URL: process.env.GITHUB_BASE_URL || 'https://github.com',
-  RAW_URL: process.env.GITHUB_RAW_URL || 'https://raw.githubusercontent.com'
+  API_URL: process.env.GITHUB_API_URL || (IS_GITHUB_DOTCOM ? 'https://api.github.com/graphql' : `${GITHUB_BASE_URL}/api/graphql`),
+  REST_API_URL: process.env.GITHUB_REST_API_URL || (IS_GITHUB_DOTCOM ? 'https://api.github.com' : `${GITHUB_BASE_URL}/api/v3`),
+  BASE_URL: GITHUB_BASE_URL,
+  RAW_URL: process.env.GITHUB_RAW_URL || (IS_GITHUB_DOTCOM ? 'https://raw.githubusercontent.com' : `${GITHUB_BASE_URL}/raw`)
 };
 
 // Legacy export for backward compatibility
@@ -1,55 +1,50 @@
-import fs from 'fs';
-import path from 'path';
-import { GitHubCommit, GitHubPR, GitHubUser, GitHubRepository } from '@/types/github';
-
-const CACHE_DIR = path.join(process.cwd(), '.github-dashboard-cache');
-const COMMITS_FILE = path.join(CACHE_DIR, 'commits.json');
-const PRS_FILE = path.join(CACHE_DIR, 'pull-requests.json');
-const USER_FILE = path.join(CACHE_DIR, 'user-info.json');
-const REPOS_FILE = path.join(CACHE_DIR, 'repositories.json');
-const METADATA_FILE = path.join(CACHE_DIR, 'metadata.json');
-
-interface CacheMetadata {
-  lastSync: string;
-  lastFullSync: string;
-  version: string;
-}
-
-interface CachedData {
-  commits: GitHubCommit[];
-  pull_requests: GitHubPR[];
-  user_info: GitHubUser | null;
-  repositories: GitHubRepository[];
-  metadata: CacheMetadata;
-}
+import { GitHubCommit, GitHubPR, RepositorySyncStatus } from '@/types/github';
+import { CacheStore, CacheBackend, CacheMetadata, CachedData, CachedDataDelta, CacheMergeOptions, CacheMergeCounts, CacheQuery, CacheQueryResult } from './cacheStore';
+import { JsonCacheStore } from './jsonCacheStore';
+import { SqliteCacheStore } from './sqliteCacheStore';
+
+// One store per process, not per bundle - each new store re-parses every JSON file or opens another SQLite connection
+const globalForCache = globalThis as typeof globalThis & { cacheStore?: CacheStore };
+
+// Storage backend is chosen once per process via CACHE_BACKEND (json | sqlite)
+export function getCacheStore(): CacheStore {
+  if (!globalForCache.cacheStore) {
+    let cacheStore: CacheStore;
+    const backend = (process.env.CACHE_BACKEND || 'json').toLowerCase() as CacheBackend;
+    if (backend === 'sqlite') {
+      cacheStore = new SqliteCacheStore();
+    } else {
+      if (backend !== 'json') {
+        console.warn(`⚠️  Unknown CACHE_BACKEND "${backend}", falling back to json`);
+      }
+      cacheStore = new JsonCacheStore();
+    }
+    console.log(`💾 Cache backend: ${cacheStore.backend}`);
 
-// Ensure cache directory exists
-function ensureCacheDir() {
-  if (!fs.existsSync(CACHE_DIR)) {
-    fs.mkdirSync(CACHE_DIR, { recursive: true });
-    console.log(`📁 Created cache directory: ${CACHE_DIR}`);
+    // A cache that can't be trusted is dropped, so the next request performs a full sync
+    if (!cacheStore.verifyIntegrity()) {
+      console.warn('⚠️  Cache integrity check failed - clearing cache to force a full sync');
+      cacheStore.clear();
+    }
+    globalForCache.cacheStore = cacheStore;
   }
+  return globalForCache.cacheStore;
 }
 
-// Read metadata from file
+// Read cache metadata
 export function getCacheMetadata(): CacheMetadata | null {
   try {
-    ensureCacheDir();
-    if (fs.existsSync(METADATA_FILE)) {
-      const data = fs.readFileSync(METADATA_FILE, 'utf8');
-      return JSON.parse(data);
-    }
+    return getCacheStore().readMetadata();
   } catch (error) {
     console.error('Error reading cache metadata:', error);
   }
   return null;
 }
 
-// Write metadata to file
+// Write cache metadata
 export function setCacheMetadata(metadata: CacheMetadata) {
   try {
-    ensureCacheDir();
-    fs.writeFileSync(METADATA_FILE, JSON.stringify(metadata, null, 2));
+    getCacheStore().writeMetadata(metadata);
     console.log(`💾 Cache metadata updated: last sync ${metadata.lastSync}`);
   } catch (error) {
     console.error('Error writing cache metadata:', error);
@@ -59,33 +54,20 @@ export function setCacheMetadata(metadata: CacheMetadata) {
 // Read all cached data
 export function getCachedData(): CachedData | null {
   try {
-    ensureCacheDir();
-    
     const metadata = getCacheMetadata();
     if (!metadata) return null;
 
-    const commits = fs.existsSync(COMMITS_FILE) 
-      ? JSON.parse(fs.readFileSync(COMMITS_FILE, 'utf8')) 
-      : [];
-    
-    const pull_requests = fs.existsSync(PRS_FILE) 
-      ? JSON.parse(fs.readFileSync(PRS_FILE, 'utf8')) 
-      : [];
-    
-    const user_info = fs.existsSync(USER_FILE) 
-      ? JSON.parse(fs.readFileSync(USER_FILE, 'utf8')) 
-      : null;
-    
-    const repositories = fs.existsSync(REPOS_FILE) 
-      ? JSON.parse(fs.readFileSync(REPOS_FILE, 'utf8')) 
-      : [];
-
-    console.log(`📖 Loaded cached data: ${commits.length} commits, ${pull_requests.length} PRs, ${repositories.length} repos`);
+    const { commits, pull_requests, issues, releases, deployments, user_info, repositories } = getCacheStore().readData();
+
+    console.log(`📖 Loaded cached data: ${commits.length} commits, ${pull_requests.length} PRs, ${issues.length} issues, ${releases.length} releases, ${deployments.length} deployments, ${repositories.length} repos`);
     console.log(`📅 Last sync: ${metadata.lastSync}, Last full sync: ${metadata.lastFullSync}`);
 
     return {
       commits,
       pull_requests,
+      issues,
+      releases,
+      deployments,
       user_info,
       repositories,
       metadata
@@ -96,120 +78,88 @@ export function getCachedData(): CachedData | null {
   }
 }
 
-// Write all data to cache files
-export function setCachedData(data: Omit<CachedData, 'metadata'>, isFullSync: boolean = false) {
+// Query cached commits without loading the whole cache
+export function queryCachedCommits(query: CacheQuery): CacheQueryResult<GitHubCommit> {
   try {
-    ensureCacheDir();
-    
-    const now = new Date().toISOString();
-    const existingMetadata = getCacheMetadata();
-    
-    const metadata: CacheMetadata = {
-      lastSync: now,
-      lastFullSync: isFullSync ? now : (existingMetadata?.lastFullSync || now),
-      version: '1.0.0'
-    };
-
-    // Write data files
-    fs.writeFileSync(COMMITS_FILE, JSON.stringify(data.commits, null, 2));
-    fs.writeFileSync(PRS_FILE, JSON.stringify(data.pull_requests, null, 2));
-    fs.writeFileSync(USER_FILE, JSON.stringify(data.user_info, null, 2));
-    fs.writeFileSync(REPOS_FILE, JSON.stringify(data.repositories, null, 2));
-    
-    // Write metadata
-    setCacheMetadata(metadata);
-
-    console.log(`💾 Cached data saved: ${data.commits.length} commits, ${data.pull_requests.length} PRs, ${data.repositories.length} repos`);
-    console.log(`📅 ${isFullSync ? 'Full sync' : 'Incremental sync'} completed at ${now}`);
+    return getCacheStore().queryCommits(query);
   } catch (error) {
-    console.error('Error writing cached data:', error);
+    console.error('Error querying cached commits:', error);
+    return { items: [], total: 0 };
   }
 }
 
-// Merge new data with existing cached data
-export function mergeCachedData(newCommits: GitHubCommit[], newPRs: GitHubPR[], newRepos: GitHubRepository[] = []) {
-  const existingData = getCachedData();
-  if (!existingData) {
-    console.log('🆕 No existing cache, treating as full sync');
-    return {
-      commits: newCommits,
-      pull_requests: newPRs,
-      repositories: newRepos
-    };
+// Query cached pull requests without loading the whole cache
+export function queryCachedPullRequests(query: CacheQuery): CacheQueryResult<GitHubPR> {
+  try {
+    return getCacheStore().queryPullRequests(query);
+  } catch (error) {
+    console.error('Error querying cached pull requests:', error);
+    return { items: [], total: 0 };
   }
+}
 
-  // Merge commits (deduplicate by repo + SHA)
-  const commitMap = new Map<string, GitHubCommit>();
-  
-  // Add existing commits
-  existingData.commits.forEach(commit => {
-    const key = `${commit.repo}-${commit.sha}`;
-    commitMap.set(key, commit);
-  });
-  
-  // Add/update with new commits
-  let newCommitCount = 0;
-  newCommits.forEach(commit => {
-    const key = `${commit.repo}-${commit.sha}`;
-    if (!commitMap.has(key)) {
-      newCommitCount++;
-    }
-    commitMap.set(key, commit);
-  });
-
-  // Merge PRs (deduplicate by repo + number)
-  const prMap = new Map<string, GitHubPR>();
-  
-  // Add existing PRs
-  existingData.pull_requests.forEach(pr => {
-    const key = `${pr.repo}-${pr.number}`;
-    prMap.set(key, pr);
-  });
-  
-  // Add/update with new PRs
-  let newPRCount = 0;
-  newPRs.forEach(pr => {
-    const key = `${pr.repo}-${pr.number}`;
-    if (!prMap.has(key)) {
-      newPRCount++;
-    }
-    prMap.set(key, pr);
-  });
-
-  // Merge repositories (keep existing + add new)
-  const repoMap = new Map<string, GitHubRepository>();
-  
-  // Add existing repos
-  existingData.repositories.forEach(repo => {
-    repoMap.set(repo.nameWithOwner, repo);
-  });
-  
-  // Add/update with new repos
-  newRepos.forEach(repo => {
-    repoMap.set(repo.nameWithOwner, repo);
-  });
-
-  const mergedData = {
-    commits: Array.from(commitMap.values()).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
-    pull_requests: Array.from(prMap.values()).sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
-    repositories: Array.from(repoMap.values()).sort((a, b) => a.nameWithOwner.localeCompare(b.nameWithOwner))
+// Metadata for a sync that finished now
+function buildSyncMetadata(isFullSync: boolean, truncatedRepos: string[], repoStatuses?: RepositorySyncStatus[]): CacheMetadata {
+  const now = new Date().toISOString();
+  const existingMetadata = getCacheMetadata();
+
+  // A full sync resets truncation; an incremental sync can only add gaps until the next full sync
+  const allTruncatedRepos = isFullSync
+    ? truncatedRepos
+    : Array.from(new Set([...(existingMetadata?.truncatedRepos || []), ...truncatedRepos]));
+
+  return {
+    lastSync: now,
+    lastFullSync: isFullSync ? now : (existingMetadata?.lastFullSync || now),
+    version: '1.0.0',
+    truncatedRepos: allTruncatedRepos,
+    repoStatuses: repoStatuses || existingMetadata?.repoStatuses
   };
+}
+
+// Write all data to the cache store
+export function setCachedData(data: Omit<CachedData, 'metadata'>, isFullSync: boolean = false, truncatedRepos: string[] = [], repoStatuses?: RepositorySyncStatus[]) {
+  try {
+    const metadata = buildSyncMetadata(isFullSync, truncatedRepos, repoStatuses);
+
+    // Data and metadata are written together so the store can apply them atomically
+    getCacheStore().writeData(data, metadata);
+
+    console.log(`💾 Cached data saved: ${data.commits.length} commits, ${data.pull_requests.length} PRs, ${data.issues.length} issues, ${data.repositories.length} repos`);
+    console.log(`📅 ${isFullSync ? 'Full sync' : 'Incremental sync'} completed at ${metadata.lastSync}`);
+  } catch (error) {
+    console.error('Error writing cached data:', error);
+  }
+}
 
-  console.log(`🔄 Merged data: +${newCommitCount} new commits, +${newPRCount} new PRs`);
-  console.log(`📊 Total after merge: ${mergedData.commits.length} commits, ${mergedData.pull_requests.length} PRs, ${mergedData.repositories.length} repos`);
+// Merge new and refetched records into the cache as an incremental sync
+export function mergeCachedData(delta: CachedDataDelta, truncatedRepos: string[] = [], repoStatuses?: RepositorySyncStatus[], options?: CacheMergeOptions): CacheMergeCounts | null {
+  return mergeIntoCache(delta, buildSyncMetadata(false, truncatedRepos, repoStatuses), options);
+}
 
-  return mergedData;
+// Merge records without touching sync timestamps - for out-of-band updates such as webhooks,
+// which must not move lastSync forward past changes the next incremental sync still has to fetch
+export function updateCachedData(delta: CachedDataDelta): CacheMergeCounts | null {
+  const metadata = getCacheMetadata();
+  return metadata ? mergeIntoCache(delta, metadata) : null;
+}
+
+// Only the given records are written; everything else stays cached as it is
+function mergeIntoCache(delta: CachedDataDelta, metadata: CacheMetadata, options?: CacheMergeOptions): CacheMergeCounts | null {
+  try {
+    const counts = getCacheStore().mergeData(delta, metadata, options);
+    console.log(`🔄 Merged data: +${counts.commits} new commits, +${counts.pull_requests} new PRs, +${counts.issues} new issues, +${counts.releases} new releases, +${counts.deployments} new deployments`);
+    return counts;
+  } catch (error) {
+    console.error('Error merging cached data:', error);
+    return null;
+  }
 }
 
 // Clear all cached data
 export function clearCache() {
   try {
-    const files = [COMMITS_FILE, PRS_FILE, USER_FILE, REPOS_FILE, METADATA_FILE];
-    files.forEach(file => {
-      if (fs.existsSync(file)) {
-        fs.unlinkSync(file);
-      }
-    });
+    getCacheStore().clear();
     console.log('🗑️ Cache cleared successfully');
   } catch (error) {
     console.error('Error clearing cache:', error);
@@ -1,32 +1,47 @@
-import { GITHUB_API_URL, CONFIG } from './constants';
+import { GITHUB_API_URL, GITHUB_CONFIG, CONFIG } from './constants';
+import { rateLimitGovernor } from './rateLimitGovernor';
+import { githubCredentials, GitHubCredential } from './githubCredentials';
+import { loadRepositoryProfiles, saveRepositoryProfiles, loadBranchMergeAnalysis, saveBranchMergeAnalysis } from './profileStore';
+import { isBranchIncluded } from './repositoryConfig';
+import { FETCH_STRATEGIES, summarizeStrategyMetrics } from './strategyStats';
+import { parseCoAuthors } from '@/utils/attributionUtils';
+import { median } from '@/utils/statsUtils';
+import { AsyncLocalStorage } from 'async_hooks';
 import fs from 'fs';
 import path from 'path';
 import { 
   GET_USER_INFO_QUERY, 
   GET_REPOSITORIES_QUERY, 
   GET_ORGANIZATION_REPOS_QUERY,
+  GET_USER_REPOS_QUERY,
+  GET_REPOSITORY_QUERY,
   GET_BRANCH_COMMITS_SINCE_QUERY,
   GET_SINGLE_BRANCH_COMMITS_QUERY,
   GET_BRANCHES_WITH_MERGE_INFO_QUERY,
   GET_MORE_BRANCH_COMMITS_QUERY,
   GET_REPOSITORY_PRS_QUERY,
-  GET_REPOSITORY_PRS_SINCE_QUERY
+  GET_REPOSITORY_PRS_SINCE_QUERY,
+  GET_REPOSITORY_ISSUES_QUERY,
+  GET_REPOSITORY_ISSUES_SINCE_QUERY,
+  GET_COMMIT_STATS_QUERY,
+  GET_REPOSITORY_RELEASES_QUERY,
+  GET_REPOSITORY_DEPLOYMENTS_QUERY
 } from './githubQueries';
-import { GitHubUser, GitHubRepository, GitHubCommit, GitHubPR } from '@/types/github';
+import { GitHubUser, GitHubRepository, GitHubCommit, GitHubPR, GitHubPRReview, GitHubIssue, GitHubRelease, GitHubDeployment, GitHubDeploymentStatus, GitHubCheckStatus } from '@/types/github';
 import { 
   RepositoryProfile, 
   FetchStrategy, 
   BranchMetadata, 
   BranchMergeInfo,
   BranchComparisonStats,
-  ProfileCache
+  BranchMergeCacheEntry,
+  ProfileCache,
+  ProfileListEntry,
+  BranchOverview,
+  StrategyMetric,
+  StrategySelectionReason
 } from '@/types/profiling';
 
-const headers = {
-  "Authorization": `Bearer ${process.env.GITHUB_TOKEN}`,
-  "Content-Type": "application/json"
-};
-
 // API Call Tracking System
 interface ApiCallRecord {
   type: string;
@@ -38,12 +53,28 @@ interface ApiCallRecord {
   error?: string;
   repository?: string;
   branch?: string;
+  hasFallback?: boolean; // The caller recovers from a failure, so it doesn't count against the repository
+  rateLimitRemaining?: number;
+  rateLimitWaitMs?: number;
+  attempts?: number;
+  retryErrors?: string[];
+}
+
+interface RateLimitPauseRecord {
+  timestamp: string;
+  waitMs: number;
+  reason: string;
+  callType: string;
 }
 
 class ApiCallTracker {
   private static instance: ApiCallTracker;
   private calls: ApiCallRecord[] = [];
+  private rateLimitPauses: RateLimitPauseRecord[] = [];
   private startTime: number = 0;
+  private startRateLimitRemaining: number | undefined;
+  // Failed calls per repository, kept independently of the per-sync call log so incremental syncs can use it too
+  private repositoryFailures = new Map<string, string[]>();
 
   static getInstance(): ApiCallTracker {
     if (!ApiCallTracker.instance) {
@@ -54,7 +85,9 @@ class ApiCallTracker {
 
   startTracking() {
     this.calls = [];
+    this.rateLimitPauses = [];
     this.startTime = Date.now();
+    this.startRateLimitRemaining = rateLimitGovernor.getStatus()?.remaining;
     console.log('🔍 API Call Tracking Started');
   }
 
@@ -63,6 +96,28 @@ class ApiCallTracker {
       ...record,
       timestamp: new Date().toISOString()
     });
+
+    if (!record.success && record.repository && !record.hasFallback) {
+      const failures = this.repositoryFailures.get(record.repository) || [];
+      failures.push(`${record.type}: ${record.error || 'Unknown error'}`);
+      this.repositoryFailures.set(record.repository, failures);
+    }
+  }
+
+  // Returns the failures recorded for a repository and forgets them, so the next sync starts clean
+  takeRepositoryFailures(repository: string): string[] {
+    const failures = this.repositoryFailures.get(repository) || [];
+    this.repositoryFailures.delete(repository);
+    return failures;
+  }
+
+  recordRateLimitPause(waitMs: number, reason: string, callType: string) {
+    this.rateLimitPauses.push({
+      timestamp: new Date().toISOString(),
+      waitMs,
+      reason,
+      callType
+    });
   }
 
   getStats() {
@@ -77,6 +132,22 @@ class ApiCallTracker {
       return acc;
     }, {} as Record<string, number>);
 
+    const retriesByType = this.calls.reduce((acc, call) => {
+      const retries = (call.attempts || 1) - 1;
+      if (retries === 0) return acc;
+      const entry = acc[call.type] || { retriedCalls: 0, totalRetries: 0, maxRetries: 0 };
+      entry.retriedCalls++;
+      entry.totalRetries += retries;
+      entry.maxRetries = Math.max(entry.maxRetries, retries);
+      acc[call.type] = entry;
+      return acc;
+    }, {} as Record<string, { retriedCalls: number; totalRetries: number; maxRetries: number }>);
+
+    // First call's remaining budget is the best "before" figure if tracking started cold
+    const rateLimitStart = this.startRateLimitRemaining ?? this.calls.find(call => call.rateLimitRemaining !== undefined)?.rateLimitRemaining;
+    const rateLimitEnd = rateLimitGovernor.getStatus();
+    const totalRateLimitWait = this.calls.reduce((sum, call) => sum + (call.rateLimitWaitMs || 0), 0);
+
     return {
       totalCalls,
       successfulCalls,
@@ -84,8 +155,17 @@ class ApiCallTracker {
       totalDuration,
       avgDuration,
       callsByType,
+      retriesByType,
       totalTime: Date.now() - this.startTime,
-      calls: this.calls
+      calls: this.calls,
+      rateLimit: {
+        startRemaining: rateLimitStart,
+        endRemaining: rateLimitEnd?.remaining,
+        limit: rateLimitEnd?.limit,
+        resetAt: rateLimitEnd?.reset_at,
+        pauses: this.rateLimitPauses,
+        totalWaitMs: totalRateLimitWait
+      }
     };
   }
 
@@ -112,7 +192,10 @@ class ApiCallTracker {
   }
 
   private formatReport(stats: any): string {
-    const { totalCalls, successfulCalls, failedCalls, totalDuration, avgDuration, callsByType, totalTime, calls } = stats;
+    const { totalCalls, successfulCalls, failedCalls, totalDuration, avgDuration, callsByType, retriesByType, totalTime, calls, rateLimit } = stats;
+    const pointsUsed = rateLimit.startRemaining !== undefined && rateLimit.endRemaining !== undefined
+      ? rateLimit.startRemaining - rateLimit.endRemaining
+      : undefined;
     
     let report = `GitHub Dashboard - API Call Report
 Generated: ${new Date().toISOString()}
@@ -144,17 +227,35 @@ CALL BREAKDOWN BY TYPE
 RATE LIMITING ANALYSIS
 ======================
 API Calls per Second: ${totalTime > 0 ? ((totalCalls / (totalTime / 1000)).toFixed(2)) : 0}
-Estimated Rate Limit Usage: ${(totalCalls / 5000 * 100).toFixed(2)}% (assuming 5000/hour limit)
+Rate Limit Budget: ${rateLimit.endRemaining ?? 'unknown'} / ${rateLimit.limit ?? 'unknown'} points remaining
+Budget at Start: ${rateLimit.startRemaining ?? 'unknown'}
+Points Used This Session: ${pointsUsed !== undefined && pointsUsed >= 0 ? pointsUsed : 'unknown (window reset during sync)'}
+Budget Resets At: ${rateLimit.resetAt || 'unknown'}
+Rate Limit Pauses: ${rateLimit.pauses.length} (${(rateLimit.totalWaitMs / 1000).toFixed(1)}s total wait)
+${rateLimit.pauses.map((pause: RateLimitPauseRecord) => `   - [${pause.timestamp}] ${pause.callType}: ${pause.reason}, waited ${(pause.waitMs / 1000).toFixed(0)}s`).join('\n')}
+
+RETRY ANALYSIS
+==============
+`;
+
+    const retryEntries = Object.entries(retriesByType) as [string, { retriedCalls: number; totalRetries: number; maxRetries: number }][];
+    if (retryEntries.length === 0) {
+      report += `No transient failures - every call succeeded or failed on its first attempt\n`;
+    }
+    retryEntries.forEach(([type, { retriedCalls, totalRetries, maxRetries }]) => {
+      report += `${type}: ${totalRetries} retries across ${retriedCalls} calls (max ${maxRetries} for a single call)\n`;
+    });
 
+    report += `
 DETAILED CALL LOG
 =================
 `;
 
     calls.forEach((call: ApiCallRecord, index: number) => {
       report += `${index + 1}. [${call.timestamp}] ${call.type}
-   Duration: ${call.duration}ms | Success: ${call.success}
+   Duration: ${call.duration}ms | Success: ${call.success} | Budget Left: ${call.rateLimitRemaining ?? 'N/A'}${call.rateLimitWaitMs ? ` | Throttled: ${call.rateLimitWaitMs}ms` : ''}${call.attempts && call.attempts > 1 ? ` | Attempts: ${call.attempts}` : ''}
    Repository: ${call.repository || 'N/A'} | Branch: ${call.branch || 'N/A'}
-   ${call.error ? `Error: ${call.error}` : ''}
+   ${call.error ? `Error: ${call.error}` : ''}${call.retryErrors?.length ? `\n   Retried After: ${call.retryErrors.join('; ')}` : ''}
    
 `;
     });
@@ -191,6 +292,7 @@ End of Report
     console.log(`✅ Successful: ${stats.successfulCalls} | ❌ Failed: ${stats.failedCalls}`);
     console.log(`⏱️  Total API Time: ${(stats.totalDuration / 1000).toFixed(2)}s | Avg: ${stats.avgDuration.toFixed(0)}ms`);
     console.log(`🚀 Rate: ${stats.totalTime > 0 ? (stats.totalCalls / (stats.totalTime / 1000)).toFixed(2) : 0} calls/second`);
+    console.log(`⛽ Rate Limit Budget: ${stats.rateLimit.endRemaining ?? '?'} / ${stats.rateLimit.limit ?? '?'} remaining (${stats.rateLimit.pauses.length} pauses)`);
     console.log('📋 Call Types:');
     Object.entries(stats.callsByType).forEach(([type, count]) => {
       console.log(`   ${type}: ${count}`);
@@ -219,22 +321,43 @@ End of Report
 
 const apiTracker = ApiCallTracker.getInstance();
 
+// Profiling state is persisted, so every route bundle must share one instance or they'd overwrite each other's files
+const globalForProfiling = globalThis as typeof globalThis & {
+  repositoryProfiler?: RepositoryProfiler;
+  mergedBranchDetector?: MergedBranchDetector;
+  branchComparisons?: Map<string, { baseSha: string; headSha: string; stats: BranchComparisonStats }>;
+};
+
+// Merge analysis includes days-since-commit figures that go stale, so entries are recomputed after a week
+const BRANCH_ANALYSIS_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// Bumped when profiling changes how branch sizes are measured; profiles from other versions are re-analyzed
+const PROFILE_ANALYSIS_VERSION = '2.0';
+
+// Counts HTTP requests made while a fetch strategy runs; scoped per async context so PR and issue
+// fetches running alongside for the same repository aren't billed to the strategy
+interface StrategyCallCounter {
+  apiCalls: number;
+  failedCalls: number;
+}
+const strategyCallCounter = new AsyncLocalStorage<StrategyCallCounter>();
+
 // Repository Profiling System for Optimal Strategy Selection
 class RepositoryProfiler {
-  private static instance: RepositoryProfiler;
-  private profileCache = new Map<string, ProfileCache>();
+  // Reloaded from the cache directory so a restart doesn't re-analyze every repository
+  private profileCache: Map<string, ProfileCache> = loadRepositoryProfiles();
   
   static getInstance(): RepositoryProfiler {
-    if (!RepositoryProfiler.instance) {
-      RepositoryProfiler.instance = new RepositoryProfiler();
+    if (!globalForProfiling.repositoryProfiler) {
+      globalForProfiling.repositoryProfiler = new RepositoryProfiler();
     }
-    return RepositoryProfiler.instance;
+    return globalForProfiling.repositoryProfiler;
   }
 
   async getOrCreateProfile(repo: GitHubRepository): Promise<RepositoryProfile> {
     const cached = this.profileCache.get(repo.nameWithOwner);
     
-    // Use cached profile if recent (less than 7 days old) and confident
+    // Use cached profile while it's recent enough for how confident its classification was
     if (cached && this.isProfileValid(cached)) {
       console.log(`📋 Using cached profile for ${repo.nameWithOwner} (${cached.profile.repositoryType})`);
       return cached.profile;
@@ -247,19 +370,81 @@ class RepositoryProfiler {
     this.profileCache.set(repo.nameWithOwner, {
       repositoryId: repo.nameWithOwner,
       profile,
-      strategyMetrics: [],
-      fetchCount: 0,
+      strategyMetrics: cached?.strategyMetrics || [],
+      fetchCount: cached?.fetchCount || 0,
       lastUpdated: new Date().toISOString()
     });
+    saveRepositoryProfiles(this.profileCache);
     
     return profile;
   }
 
+  // Every completed fetch is recorded so later fetches can compare strategies on real numbers
+  recordStrategyMetric(repositoryId: string, metric: StrategyMetric) {
+    const cached = this.profileCache.get(repositoryId);
+    if (!cached) return;
+
+    this.profileCache.set(repositoryId, {
+      ...cached,
+      strategyMetrics: [...cached.strategyMetrics, metric].slice(-CONFIG.STRATEGY_METRICS_HISTORY),
+      fetchCount: cached.fetchCount + 1
+    });
+    saveRepositoryProfiles(this.profileCache);
+  }
+
+  // Starts from the profile heuristic, then lets measured commits-per-call override it
+  chooseStrategy(profile: RepositoryProfile): { strategy: FetchStrategy; reason: StrategySelectionReason } {
+    const heuristic = this.selectOptimalStrategy(profile);
+    const cached = this.profileCache.get(profile.repositoryId);
+    if (!cached) return { strategy: heuristic, reason: 'heuristic' };
+
+    const stats = summarizeStrategyMetrics(cached.strategyMetrics);
+    const proven = stats.filter(s => s.runs >= CONFIG.STRATEGY_MIN_SAMPLES);
+    const heuristicStats = proven.find(s => s.strategy === heuristic);
+
+    // Until the heuristic's own choice has enough runs there is nothing to compare against
+    if (!heuristicStats) return { strategy: heuristic, reason: 'heuristic' };
+
+    // Every so often, give a strategy without enough runs a try so a better one can be discovered
+    const nextFetch = cached.fetchCount + 1;
+    if (CONFIG.STRATEGY_EXPLORATION_INTERVAL > 0 && nextFetch % CONFIG.STRATEGY_EXPLORATION_INTERVAL === 0) {
+      const untried = FETCH_STRATEGIES.find(strategy => !proven.some(s => s.strategy === strategy));
+      if (untried) {
+        console.log(`🧪 Exploring ${untried} for ${profile.repositoryName} (fetch #${nextFetch})`);
+        return { strategy: untried, reason: 'exploration' };
+      }
+    }
+
+    const best = [...proven].sort((a, b) => b.commitsPerCall - a.commitsPerCall || a.avgDurationMs - b.avgDurationMs)[0];
+    if (best.strategy !== heuristic && best.commitsPerCall > heuristicStats.commitsPerCall * (1 + CONFIG.STRATEGY_SWITCH_MARGIN)) {
+      console.log(`📈 Switching ${profile.repositoryName} to ${best.strategy}: ${best.commitsPerCall.toFixed(1)} commits/call vs ${heuristicStats.commitsPerCall.toFixed(1)} for ${heuristic}`);
+      return { strategy: best.strategy, reason: 'feedback' };
+    }
+
+    return { strategy: heuristic, reason: 'heuristic' };
+  }
+
+  listProfiles(): ProfileCache[] {
+    return Array.from(this.profileCache.values()).sort((a, b) => a.repositoryId.localeCompare(b.repositoryId));
+  }
+
+  // The next fetch of this repository will re-analyze it from scratch
+  invalidateProfile(repositoryId: string): boolean {
+    const existed = this.profileCache.delete(repositoryId);
+    if (existed) {
+      saveRepositoryProfiles(this.profileCache);
+    }
+    return existed;
+  }
+
+  // Unclear classifications are still reused, just re-analyzed sooner in case the branch mix settles
   private isProfileValid(cached: ProfileCache): boolean {
     const age = Date.now() - new Date(cached.lastUpdated).getTime();
-    const maxAge = 7 * 24 * 60 * 60 * 1000; // 7 days
+    const maxAge = cached.profile.confidence > 0.7
+      ? 7 * 24 * 60 * 60 * 1000 // 7 days
+      : 24 * 60 * 60 * 1000; // 1 day
     
-    return age < maxAge && cached.profile.confidence > 0.7;
+    return age < maxAge && cached.profile.analysisVersion === PROFILE_ANALYSIS_VERSION;
   }
 
   private async analyzeRepository(repo: GitHubRepository): Promise<RepositoryProfile> {
@@ -344,8 +529,19 @@ class RepositoryProfiler {
     baseBranch: string, 
     headBranch: string
   ): Promise<BranchComparisonStats> {
-    // For profiling, we need to estimate branch size
-    // Since GitHub's GraphQL doesn't have a direct compare, we'll use a workaround
+    // The Compare API gives exact ahead/behind counts in a single call
+    try {
+      const data = await executeRestRequest(`${comparePath(owner, name, baseBranch, headBranch)}?per_page=1`, 'BranchSizeCompare', `${owner}/${name}`, headBranch, true);
+      return {
+        branchName: headBranch,
+        aheadBy: data.ahead_by,
+        behindBy: data.behind_by,
+        totalCommits: data.total_commits
+      };
+    } catch (error) {
+      console.warn(`⚠️  Compare failed for ${headBranch}, estimating size from GraphQL history:`, error);
+    }
+    
     const data = await executeGraphQLQuery(GET_SINGLE_BRANCH_COMMITS_QUERY, {
       owner, name, branch: `refs/heads/${headBranch}`
     }, 'BranchSizeEstimate', `${owner}/${name}`, headBranch);
@@ -376,7 +572,7 @@ class RepositoryProfiler {
   ): RepositoryProfile {
     const branchSizes = branchStats.map(s => s.aheadBy);
     const average = branchSizes.reduce((sum, size) => sum + size, 0) / branchSizes.length;
-    const median = this.calculateMedian(branchSizes);
+    const medianSize = median(branchSizes) ?? 0;
     const variance = this.calculateVariance(branchSizes, average);
     
     // Classify branch sizes
@@ -391,7 +587,7 @@ class RepositoryProfiler {
     
     // Determine repository type and confidence
     const { repositoryType, confidence } = this.classifyRepository(
-      average, median, smallPercentage, mediumPercentage, largePercentage, variance
+      average, medianSize, smallPercentage, mediumPercentage, largePercentage, variance
     );
     
     return {
@@ -401,7 +597,7 @@ class RepositoryProfiler {
       sampleSize: branchStats.length,
       branchSizes,
       averageBranchSize: average,
-      medianBranchSize: median,
+      medianBranchSize: medianSize,
       branchSizeVariance: variance,
       smallBranchPercentage: smallPercentage,
       mediumBranchPercentage: mediumPercentage,
@@ -411,7 +607,7 @@ class RepositoryProfiler {
       confidence,
       createdAt: new Date().toISOString(),
       lastAnalyzed: new Date().toISOString(),
-      analysisVersion: '1.0'
+      analysisVersion: PROFILE_ANALYSIS_VERSION
     };
   }
 
@@ -448,14 +644,6 @@ class RepositoryProfiler {
     return { repositoryType: 'mixed', confidence: 0.6 };
   }
 
-  private calculateMedian(numbers: number[]): number {
-    const sorted = [...numbers].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    return sorted.length % 2 === 0 
-      ? (sorted[mid - 1] + sorted[mid]) / 2 
-      : sorted[mid];
-  }
-
   private calculateVariance(numbers: number[], mean: number): number {
     const squaredDiffs = numbers.map(num => Math.pow(num - mean, 2));
     return squaredDiffs.reduce((sum, diff) => sum + diff, 0) / numbers.length;
@@ -479,7 +667,7 @@ class RepositoryProfiler {
       confidence: 0.5,
       createdAt: new Date().toISOString(),
       lastAnalyzed: new Date().toISOString(),
-      analysisVersion: '1.0'
+      analysisVersion: PROFILE_ANALYSIS_VERSION
     };
   }
 
@@ -516,29 +704,95 @@ const repositoryProfiler = RepositoryProfiler.getInstance();
 
 // Merged Branch Detection System for Maximum Efficiency
 class MergedBranchDetector {
-  private static instance: MergedBranchDetector;
-  private detectionCache = new Map<string, BranchMergeInfo>();
+  private detectionCache: Map<string, BranchMergeCacheEntry> = loadBranchMergeAnalysis();
+  private hasUnsavedAnalysis = false;
   
   static getInstance(): MergedBranchDetector {
-    if (!MergedBranchDetector.instance) {
-      MergedBranchDetector.instance = new MergedBranchDetector();
+    if (!globalForProfiling.mergedBranchDetector) {
+      globalForProfiling.mergedBranchDetector = new MergedBranchDetector();
+    }
+    return globalForProfiling.mergedBranchDetector;
+  }
+
+  countEntries(repositoryId: string): number {
+    return Array.from(this.detectionCache.keys()).filter(key => key.startsWith(`${repositoryId}:`)).length;
+  }
+
+  invalidateRepository(repositoryId: string): number {
+    const keys = Array.from(this.detectionCache.keys()).filter(key => key.startsWith(`${repositoryId}:`));
+    keys.forEach(key => this.detectionCache.delete(key));
+    if (keys.length > 0) {
+      saveBranchMergeAnalysis(this.detectionCache);
     }
-    return MergedBranchDetector.instance;
+    return keys.length;
+  }
+
+  private cacheMergeInfo(cacheKey: string, mergeInfo: BranchMergeInfo) {
+    this.detectionCache.set(cacheKey, { mergeInfo, analyzedAt: new Date().toISOString() });
+    this.hasUnsavedAnalysis = true;
+  }
+
+  // Saved once per repository rather than per branch; expired entries (including old pushes' keys) are dropped here
+  private saveAnalysis() {
+    if (!this.hasUnsavedAnalysis) return;
+    this.detectionCache.forEach((entry, key) => {
+      if (Date.now() - new Date(entry.analyzedAt).getTime() >= BRANCH_ANALYSIS_MAX_AGE) {
+        this.detectionCache.delete(key);
+      }
+    });
+    saveBranchMergeAnalysis(this.detectionCache);
+    this.hasUnsavedAnalysis = false;
   }
 
-  async getBranchesWithMergeAnalysis(repo: GitHubRepository): Promise<BranchMetadata[]> {
+  // Pass 'since' to stop paging once branches are older than the cutoff (refs are ordered newest-first)
+  async getBranchesWithMergeAnalysis(repo: GitHubRepository, since?: string): Promise<BranchMetadata[]> {
     const [owner, name] = repo.nameWithOwner.split('/');
     
     try {
       console.log(`🔍 Analyzing branches for merged/inactive status in ${repo.nameWithOwner}...`);
       
-      const data = await executeGraphQLQuery(GET_BRANCHES_WITH_MERGE_INFO_QUERY, {
-        owner, name
-      }, 'BranchMergeAnalysis', repo.nameWithOwner);
+      const sinceDate = since ? new Date(since) : null;
+      const branches: any[] = [];
+      let defaultBranch = 'main';
+      let defaultBranchCommitDate: string = '';
+      let hasNextPage = true;
+      let after: string | null = null;
+      let pageCount = 0;
       
-      const defaultBranch = data.repository?.defaultBranchRef?.name || 'main';
-      const defaultBranchCommitDate = data.repository?.defaultBranchRef?.target?.committedDate;
-      const branches = data.repository?.refs?.nodes || [];
+      while (hasNextPage) {
+        pageCount++;
+        const data = await executeGraphQLQuery(GET_BRANCHES_WITH_MERGE_INFO_QUERY, {
+          owner, name, after
+        }, 'BranchMergeAnalysis', repo.nameWithOwner);
+        
+        defaultBranch = data.repository?.defaultBranchRef?.name || 'main';
+        defaultBranchCommitDate = data.repository?.defaultBranchRef?.target?.committedDate;
+        const refs = data.repository?.refs;
+        const pageBranches = refs?.nodes || [];
+        
+        if (sinceDate) {
+          // Refs whose target isn't a commit have no date to order by, so they're never a stop signal
+          const isStale = (branch: any) => 
+            Boolean(branch.target?.committedDate) && new Date(branch.target.committedDate) <= sinceDate;
+          const recentBranches = pageBranches.filter((branch: any) => !isStale(branch));
+          branches.push(...recentBranches);
+          
+          // Everything after the first stale branch is older still
+          if (recentBranches.length < pageBranches.length) {
+            console.log(`⏹️  Stopped branch paging for ${repo.nameWithOwner} at page ${pageCount}: remaining branches are older than ${since}`);
+            break;
+          }
+        } else {
+          branches.push(...pageBranches);
+        }
+        
+        hasNextPage = refs?.pageInfo?.hasNextPage || false;
+        after = refs?.pageInfo?.endCursor || null;
+      }
+      
+      if (pageCount > 1) {
+        console.log(`📄 Fetched ${branches.length} branches for ${repo.nameWithOwner} across ${pageCount} pages`);
+      }
       
       const branchAnalysis: BranchMetadata[] = [];
       let skippedCount = 0;
@@ -555,6 +809,8 @@ class MergedBranchDetector {
           name: branch.name,
           lastCommitSha: branch.target?.oid || '',
           lastCommitDate: branch.target?.committedDate || '',
+          lastCommitMessage: branch.target?.messageHeadline,
+          lastCommitAuthor: branch.target?.author?.name || branch.target?.author?.user?.login,
           isDefault: branch.name === defaultBranch,
           isMergedAndInactive: mergeInfo.appearsFullyMerged && mergeInfo.confidence > 0.7,
           mergeInfo
@@ -568,8 +824,10 @@ class MergedBranchDetector {
         branchAnalysis.push(branchMetadata);
       }
       
+      this.saveAnalysis();
+      
       const activeCount = branchAnalysis.filter(b => !b.isMergedAndInactive).length;
-      console.log(`📊 Branch analysis complete: ${activeCount} active, ${skippedCount} merged/inactive (${((skippedCount / branches.length) * 100).toFixed(0)}% reduction)`);
+      console.log(`📊 Branch analysis complete: ${activeCount} active, ${skippedCount} merged/inactive (${branches.length > 0 ? ((skippedCount / branches.length) * 100).toFixed(0) : 0}% reduction)`);
       
       return branchAnalysis;
       
@@ -590,8 +848,9 @@ class MergedBranchDetector {
     const cacheKey = `${repo.nameWithOwner}:${branchName}:${lastCommitDate}`;
     
     // Check cache first
-    if (this.detectionCache.has(cacheKey)) {
-      return this.detectionCache.get(cacheKey)!;
+    const cached = this.detectionCache.get(cacheKey);
+    if (cached && Date.now() - new Date(cached.analyzedAt).getTime() < BRANCH_ANALYSIS_MAX_AGE) {
+      return cached.mergeInfo;
     }
     
     const now = new Date();
@@ -608,7 +867,7 @@ class MergedBranchDetector {
         appearsFullyMerged: false,
         confidence: 0
       };
-      this.detectionCache.set(cacheKey, mergeInfo);
+      this.cacheMergeInfo(cacheKey, mergeInfo);
       return mergeInfo;
     }
     
@@ -680,7 +939,7 @@ class MergedBranchDetector {
     };
     
     // Cache the result
-    this.detectionCache.set(cacheKey, mergeInfo);
+    this.cacheMergeInfo(cacheKey, mergeInfo);
     
     return mergeInfo;
   }
@@ -710,34 +969,129 @@ class MergedBranchDetector {
 
 const mergedBranchDetector = MergedBranchDetector.getInstance();
 
-async function executeGraphQLQuery(query: string, variables?: any, callType: string = 'Unknown', repository?: string, branch?: string) {
+// Network failures and AbortSignal.timeout surface as thrown errors from fetch itself
+function isTransientFetchError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return error.name === 'TimeoutError' || error.name === 'AbortError' || error instanceof TypeError;
+}
+
+// Exponential backoff with jitter so a batch of parallel requests doesn't retry in lockstep
+function getRetryDelay(retry: number): number {
+  const backoff = Math.min(CONFIG.RETRY_MAX_DELAY, CONFIG.RETRY_BASE_DELAY * 2 ** retry);
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+async function executeGraphQLQuery(query: string, variables?: any, callType: string = 'Unknown', repository?: string, branch?: string, hasFallback = false) {
   const startTime = performance.now();
   let success = false;
   let errorMessage: string | undefined;
+  let rateLimitWaitMs = 0;
+  let attempts = 0;
+  let rateLimitRetries = 0;
+  let transientRetries = 0;
+  let credentialRefreshed = false;
+  const retryErrors: string[] = [];
+  // Credentials are chosen per owner, so org-specific tokens and App installations are used where configured
+  const owner: string | undefined = repository?.split('/')[0] || variables?.owner || variables?.org || variables?.login;
+  const callCounter = strategyCallCounter.getStore();
+  let credential: GitHubCredential | undefined;
+
+  // Waits out a transient failure if there are retries left - returns false once they're exhausted
+  const backoffBeforeRetry = async (reason: string) => {
+    if (transientRetries >= CONFIG.RETRY_MAX_ATTEMPTS) return false;
+    const delay = getRetryDelay(transientRetries);
+    transientRetries++;
+    retryErrors.push(reason);
+    console.warn(`🔁 ${callType} failed (${reason}), retry ${transientRetries}/${CONFIG.RETRY_MAX_ATTEMPTS} in ${delay}ms`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return true;
+  };
 
   try {
-    const response = await fetch(GITHUB_API_URL, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ query, variables }),
-      signal: AbortSignal.timeout(CONFIG.GRAPHQL_QUERY_TIMEOUT)
-    });
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-    }
-    
-    const result = await response.json();
-    
-    if (result.errors) {
-      console.error('GraphQL errors:', result.errors);
-      throw new Error(`GraphQL error: ${result.errors[0].message}`);
+    while (true) {
+      attempts++;
+      if (callCounter) callCounter.apiCalls++;
+      
+      // Fetched every attempt so an expired or rotated token is replaced between retries; each token has its own budget
+      credential = await githubCredentials.getCredential(owner);
+      rateLimitWaitMs += await rateLimitGovernor.waitForBudget(credential.token);
+      
+      let response: Response;
+      try {
+        response = await fetch(GITHUB_API_URL, {
+          method: 'POST',
+          headers: {
+            "Authorization": `Bearer ${credential.token}`,
+            "Content-Type": "application/json"
+          },
+          body: JSON.stringify({ query, variables }),
+          signal: AbortSignal.timeout(CONFIG.GRAPHQL_QUERY_TIMEOUT)
+        });
+      } catch (error) {
+        if (isTransientFetchError(error) && await backoffBeforeRetry((error as Error).name === 'TimeoutError' ? 'timeout' : (error as Error).message)) {
+          continue;
+        }
+        throw error;
+      }
+      
+      rateLimitGovernor.updateFromHeaders(credential.token, response.headers);
+      
+      if (!response.ok) {
+        // A revoked or expired token gets one retry with freshly loaded credentials
+        if (response.status === 401 && !credentialRefreshed) {
+          credentialRefreshed = true;
+          retryErrors.push('HTTP 401 credentials refreshed');
+          githubCredentials.invalidate(credential);
+          continue;
+        }
+        
+        const body = await response.text().catch(() => '');
+        const rateLimitWait = rateLimitGovernor.getRateLimitWait(credential.token, response.status, response.headers, body);
+        
+        if (rateLimitWait !== null && rateLimitRetries < CONFIG.RATE_LIMIT_MAX_RETRIES) {
+          rateLimitRetries++;
+          retryErrors.push(`HTTP ${response.status} rate limited`);
+          rateLimitGovernor.pause(credential.token, rateLimitWait, `HTTP ${response.status} on ${callType}`);
+          apiTracker.recordRateLimitPause(rateLimitWait, `HTTP ${response.status}`, callType);
+          continue;
+        }
+        
+        // 5xx is GitHub having a bad moment; 4xx (bad credentials, bad request) won't fix itself
+        if (response.status >= 500 && await backoffBeforeRetry(`HTTP ${response.status}`)) {
+          continue;
+        }
+        
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+      
+      const result = await response.json();
+      
+      rateLimitGovernor.updateFromGraphQL(credential.token, result.data?.rateLimit);
+      
+      if (result.errors) {
+        // Primary limit exhaustion comes back as a 200 with a RATE_LIMITED error
+        const rateLimitError = result.errors.find((e: any) => e.type === 'RATE_LIMITED');
+        if (rateLimitError && rateLimitRetries < CONFIG.RATE_LIMIT_MAX_RETRIES) {
+          rateLimitRetries++;
+          retryErrors.push('RATE_LIMITED');
+          const rateLimitWait = rateLimitGovernor.getRateLimitWait(credential.token, response.status, response.headers, 'RATE_LIMITED') ?? CONFIG.SECONDARY_RATE_LIMIT_WAIT;
+          rateLimitGovernor.pause(credential.token, rateLimitWait, `RATE_LIMITED on ${callType}`);
+          apiTracker.recordRateLimitPause(rateLimitWait, 'RATE_LIMITED', callType);
+          continue;
+        }
+        
+        // Validation and other GraphQL errors are deterministic, so they are never retried
+        
+        console.error('GraphQL errors:', result.errors);
+        throw new Error(`GraphQL error: ${result.errors[0].message}`);
+      }
+      
+      success = true;
+      return result.data;
     }
-    
-    success = true;
-    return result.data;
   } catch (error) {
     errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (callCounter) callCounter.failedCalls++;
     console.error('API request failed:', error);
     throw error;
   } finally {
@@ -750,12 +1104,150 @@ async function executeGraphQLQuery(query: string, variables?: any, callType: str
       success,
       error: errorMessage,
       repository,
-      branch
+      branch,
+      hasFallback,
+      rateLimitRemaining: credential ? rateLimitGovernor.getStatus(credential.token)?.remaining : undefined,
+      rateLimitWaitMs,
+      attempts,
+      retryErrors: retryErrors.length > 0 ? retryErrors : undefined
     });
   }
 }
 
+// REST counterpart of executeGraphQLQuery with the same credentials, retries and call tracking. REST has its own
+// rate limit bucket, so running it dry fails the call (callers fall back to GraphQL) rather than pausing everything
+async function executeRestRequest(path: string, callType: string, repository?: string, branch?: string, hasFallback = false) {
+  const startTime = performance.now();
+  let success = false;
+  let errorMessage: string | undefined;
+  let rateLimitWaitMs = 0;
+  let attempts = 0;
+  let rateLimitRetries = 0;
+  let transientRetries = 0;
+  let credentialRefreshed = false;
+  const retryErrors: string[] = [];
+  const callCounter = strategyCallCounter.getStore();
+  let credential: GitHubCredential | undefined;
+
+  const backoffBeforeRetry = async (reason: string) => {
+    if (transientRetries >= CONFIG.RETRY_MAX_ATTEMPTS) return false;
+    const delay = getRetryDelay(transientRetries);
+    transientRetries++;
+    retryErrors.push(reason);
+    console.warn(`🔁 ${callType} failed (${reason}), retry ${transientRetries}/${CONFIG.RETRY_MAX_ATTEMPTS} in ${delay}ms`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return true;
+  };
+
+  try {
+    while (true) {
+      attempts++;
+      if (callCounter) callCounter.apiCalls++;
+      
+      credential = await githubCredentials.getCredential(repository?.split('/')[0]);
+      rateLimitWaitMs += await rateLimitGovernor.waitForBudget(credential.token);
+      
+      let response: Response;
+      try {
+        response = await fetch(`${GITHUB_CONFIG.REST_API_URL}${path}`, {
+          headers: {
+            "Authorization": `Bearer ${credential.token}`,
+            "Accept": "application/vnd.github+json",
+            "X-GitHub-Api-Version": "2022-11-28"
+          },
+          signal: AbortSignal.timeout(CONFIG.REQUEST_TIMEOUT)
+        });
+      } catch (error) {
+        if (isTransientFetchError(error) && await backoffBeforeRetry((error as Error).name === 'TimeoutError' ? 'timeout' : (error as Error).message)) {
+          continue;
+        }
+        throw error;
+      }
+      
+      if (response.ok) {
+        success = true;
+        return await response.json();
+      }
+      
+      if (response.status === 401 && !credentialRefreshed) {
+        credentialRefreshed = true;
+        retryErrors.push('HTTP 401 credentials refreshed');
+        githubCredentials.invalidate(credential);
+        continue;
+      }
+      
+      if (response.status === 403 || response.status === 429) {
+        if (response.headers.get('x-ratelimit-remaining') === '0') {
+          throw new Error(`REST rate limit exhausted (HTTP ${response.status})`);
+        }
+        // Secondary limits apply to GraphQL and REST alike, so those do pause every request
+        const body = await response.text().catch(() => '');
+        const rateLimitWait = rateLimitGovernor.getRateLimitWait(credential.token, response.status, response.headers, body);
+        if (rateLimitWait !== null && rateLimitRetries < CONFIG.RATE_LIMIT_MAX_RETRIES) {
+          rateLimitRetries++;
+          retryErrors.push(`HTTP ${response.status} rate limited`);
+          rateLimitGovernor.pause(credential.token, rateLimitWait, `HTTP ${response.status} on ${callType}`);
+          apiTracker.recordRateLimitPause(rateLimitWait, `HTTP ${response.status}`, callType);
+          continue;
+        }
+      }
+      
+      if (response.status >= 500 && await backoffBeforeRetry(`HTTP ${response.status}`)) {
+        continue;
+      }
+      
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  } catch (error) {
+    errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (callCounter) callCounter.failedCalls++;
+    console.error('REST request failed:', error);
+    throw error;
+  } finally {
+    apiTracker.recordCall({
+      type: callType,
+      query: `GET ${path.split('?')[0]}`,
+      duration: performance.now() - startTime,
+      success,
+      error: errorMessage,
+      repository,
+      branch,
+      hasFallback,
+      rateLimitWaitMs,
+      attempts,
+      retryErrors: retryErrors.length > 0 ? retryErrors : undefined
+    });
+  }
+}
+
+function comparePath(owner: string, name: string, base: string, head: string): string {
+  return `/repos/${owner}/${name}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`;
+}
+
+// Installation tokens act as a bot with no profile, so App-only setups show the App instead
+async function fetchAppUserInfo(): Promise<GitHubUser> {
+  const app = await githubCredentials.getAppInfo();
+  return {
+    login: app.slug,
+    name: app.name,
+    avatar_url: app.owner?.avatar_url || '',
+    url: app.html_url,
+    created_at: app.created_at,
+    followers: 0,
+    following: 0,
+    public_repos: 0,
+    total_commit_contributions: 0,
+    total_pr_contributions: 0,
+    total_issue_contributions: 0,
+    total_repository_contributions: 0,
+  };
+}
+
 export async function fetchUserInfo(): Promise<GitHubUser> {
+  if (!githubCredentials.hasPersonalToken() && githubCredentials.isAppConfigured()) {
+    return fetchAppUserInfo();
+  }
+  
   const startTime = performance.now();
   const data = await executeGraphQLQuery(GET_USER_INFO_QUERY, {}, 'UserInfo');
   const endTime = performance.now();
@@ -785,6 +1277,52 @@ export async function fetchUserInfo(): Promise<GitHubUser> {
   };
 }
 
+// Check runs report a conclusion once finished and only a status before that; commit statuses always have a state
+function mapStatusCheckRollup(rollup: any): GitHubCheckStatus | undefined {
+  if (!rollup) return undefined;
+  return {
+    state: rollup.state,
+    checks: (rollup.contexts?.nodes || []).filter(Boolean).map((context: any) => context.__typename === 'CheckRun'
+      ? { name: context.name, state: context.conclusion || context.status, url: context.detailsUrl || undefined }
+      : { name: context.context, state: context.state, url: context.targetUrl || undefined })
+  };
+}
+
+// Map a CommitFields node to our commit model (shared by every GraphQL history fetch)
+function mapCommitNode(commit: any, repo: GitHubRepository, branchName: string): GitHubCommit {
+  const author = commit.author?.name || commit.author?.user?.login || "Unknown";
+  const coAuthors = parseCoAuthors(commit.message, author);
+  return {
+    repo: repo.nameWithOwner,
+    repo_url: repo.url,
+    branch_name: branchName,
+    branch_url: `${repo.url}/tree/${branchName}`,
+    sha: commit.oid.substring(0, 7),
+    message: commit.message || "No message",
+    author,
+    date: commit.committedDate,
+    url: commit.url,
+    additions: commit.additions,
+    deletions: commit.deletions,
+    // null when GitHub considers the commit too large to count its files
+    changed_files: commit.changedFilesIfAvailable ?? undefined,
+    coAuthors: coAuthors.length > 0 ? coAuthors : undefined,
+    check_status: mapStatusCheckRollup(commit.statusCheckRollup)
+  };
+}
+
+// Map a RepositoryFields node to our repository model
+function mapRepositoryNode(node: any): GitHubRepository {
+  return {
+    name: node.name,
+    nameWithOwner: node.nameWithOwner,
+    url: node.url,
+    pushedAt: node.pushedAt,
+    isPrivate: node.isPrivate,
+    defaultBranch: node.defaultBranchRef?.name || 'main'
+  };
+}
+
 export async function fetchRepositories(): Promise<GitHubRepository[]> {
   const startTime = performance.now();
   const repositories: GitHubRepository[] = [];
@@ -795,14 +1333,7 @@ export async function fetchRepositories(): Promise<GitHubRepository[]> {
     const data = await executeGraphQLQuery(GET_REPOSITORIES_QUERY, { after }, 'UserRepositories');
     const repoData = data.viewer.repositories;
     
-    repositories.push(...repoData.nodes.map((node: any) => ({
-      name: node.name,
-      nameWithOwner: node.nameWithOwner,
-      url: node.url,
-      pushedAt: node.pushedAt,
-      isPrivate: node.isPrivate,
-      defaultBranch: node.defaultBranchRef?.name || 'main'
-    })));
+    repositories.push(...repoData.nodes.map(mapRepositoryNode));
     
     hasNextPage = repoData.pageInfo.hasNextPage;
     after = repoData.pageInfo.endCursor;
@@ -825,14 +1356,7 @@ export async function fetchOrganizationRepositories(orgName: string): Promise<Gi
     const data = await executeGraphQLQuery(GET_ORGANIZATION_REPOS_QUERY, { org: orgName, after }, 'OrganizationRepositories');
     const repoData = data.organization.repositories;
     
-    repositories.push(...repoData.nodes.map((node: any) => ({
-      name: node.name,
-      nameWithOwner: node.nameWithOwner,
-      url: node.url,
-      pushedAt: node.pushedAt,
-      isPrivate: node.isPrivate,
-      defaultBranch: node.defaultBranchRef?.name || 'main'
-    })));
+    repositories.push(...repoData.nodes.map(mapRepositoryNode));
     
     hasNextPage = repoData.pageInfo.hasNextPage;
     after = repoData.pageInfo.endCursor;
@@ -841,38 +1365,59 @@ export async function fetchOrganizationRepositories(orgName: string): Promise<Gi
   return repositories;
 }
 
+// Repositories owned by another user account (not the token owner)
+export async function fetchUserRepositories(login: string): Promise<GitHubRepository[]> {
+  const repositories: GitHubRepository[] = [];
+  let hasNextPage = true;
+  let after: string | null = null;
+  
+  while (hasNextPage) {
+    const data = await executeGraphQLQuery(GET_USER_REPOS_QUERY, { login, after }, 'UserOwnedRepositories');
+    const repoData = data.user.repositories;
+    
+    repositories.push(...repoData.nodes.map(mapRepositoryNode));
+    
+    hasNextPage = repoData.pageInfo.hasNextPage;
+    after = repoData.pageInfo.endCursor;
+  }
+  
+  return repositories;
+}
+
+// A single repository by owner/name; null when it doesn't exist or the token can't see it
+export async function fetchRepository(nameWithOwner: string): Promise<GitHubRepository | null> {
+  const [owner, name] = nameWithOwner.split('/');
+  const data = await executeGraphQLQuery(GET_REPOSITORY_QUERY, { owner, name }, 'Repository', nameWithOwner);
+  return data.repository ? mapRepositoryNode(data.repository) : null;
+}
+
 export async function fetchRepositoryCommits(repo: GitHubRepository): Promise<GitHubCommit[]> {
   try {
     console.log(`🔍 Fetching commits for ${repo.nameWithOwner} using intelligent profiling...`);
     
     // Step 1: Get or create repository profile
     const profile = await repositoryProfiler.getOrCreateProfile(repo);
-    const strategy = repositoryProfiler.selectOptimalStrategy(profile);
+    const { strategy, reason } = repositoryProfiler.chooseStrategy(profile);
     
-    // Step 2: Execute the optimal strategy
+    // Step 2: Execute the chosen strategy, counting its API calls
     const startTime = performance.now();
-    let commits: GitHubCommit[];
-    
-    switch (strategy) {
-      case 'PURE_COMPARE_API':
-        commits = await fetchWithPureCompareStrategy(repo, profile);
-        break;
-      case 'PURE_GRAPHQL':
-        commits = await fetchWithPureGraphQLStrategy(repo, profile);
-        break;
-      case 'HYBRID_THRESHOLD':
-        commits = await fetchWithHybridThresholdStrategy(repo, profile);
-        break;
-      case 'ADAPTIVE_BATCH':
-        commits = await fetchWithAdaptiveBatchStrategy(repo, profile);
-        break;
-      default:
-        console.warn(`⚠️  Unknown strategy ${strategy}, falling back to PURE_GRAPHQL`);
-        commits = await fetchWithPureGraphQLStrategy(repo, profile);
-    }
+    const callCounter: StrategyCallCounter = { apiCalls: 0, failedCalls: 0 };
+    const commits = await strategyCallCounter.run(callCounter, () => executeFetchStrategy(strategy, repo, profile));
     
     const executionTime = performance.now() - startTime;
-    console.log(`✅ Strategy ${strategy} completed in ${executionTime.toFixed(0)}ms: ${commits.length} unique commits`);
+    console.log(`✅ Strategy ${strategy} completed in ${executionTime.toFixed(0)}ms: ${commits.length} unique commits from ${callCounter.apiCalls} API calls`);
+    
+    // Step 3: Feed the run back into strategy selection; runs with failed calls understate the cost and are left out
+    if (callCounter.failedCalls === 0) {
+      repositoryProfiler.recordStrategyMetric(repo.nameWithOwner, {
+        strategy,
+        reason,
+        apiCalls: callCounter.apiCalls,
+        durationMs: Math.round(executionTime),
+        commitsYielded: commits.length,
+        recordedAt: new Date().toISOString()
+      });
+    }
     
     return commits;
     
@@ -882,109 +1427,459 @@ export async function fetchRepositoryCommits(repo: GitHubRepository): Promise<Gi
   }
 }
 
-// Strategy Implementation: Pure Compare API (for repositories with mostly small branches)
-async function fetchWithPureCompareStrategy(repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
-  console.log(`🚀 Executing PURE_COMPARE_API strategy for ${repo.nameWithOwner}`);
-  
-  // Note: This would use REST API Compare endpoint in a real implementation
-  // For now, we'll use GraphQL with efficient filtering as a placeholder
-  return await fetchWithPureGraphQLStrategy(repo, profile);
+async function executeFetchStrategy(strategy: FetchStrategy, repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
+  switch (strategy) {
+    case 'PURE_COMPARE_API':
+      return fetchWithPureCompareStrategy(repo, profile);
+    case 'PURE_GRAPHQL':
+      return fetchWithPureGraphQLStrategy(repo, profile);
+    case 'HYBRID_THRESHOLD':
+      return fetchWithHybridThresholdStrategy(repo, profile);
+    case 'ADAPTIVE_BATCH':
+      return fetchWithAdaptiveBatchStrategy(repo, profile);
+    default:
+      console.warn(`⚠️  Unknown strategy ${strategy}, falling back to PURE_GRAPHQL`);
+      return fetchWithPureGraphQLStrategy(repo, profile);
+  }
 }
 
-// Strategy Implementation: Pure GraphQL (for repositories with mostly large branches) 
-async function fetchWithPureGraphQLStrategy(repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
-  console.log(`🔧 Executing PURE_GRAPHQL strategy for ${repo.nameWithOwner}`);
+interface BranchComparison {
+  stats: BranchComparisonStats;
+  commits: GitHubCommit[];
+  complete: boolean; // false when the branch has more unique commits than were fetched
+}
+
+// Compare API commits carry the full commit object but no diff stats; date is the committer date to match GraphQL's committedDate
+function mapCompareCommit(commit: any, repo: GitHubRepository, branchName: string, stats?: any): GitHubCommit {
+  const author = commit.commit?.author?.name || commit.author?.login || "Unknown";
+  const coAuthors = parseCoAuthors(commit.commit?.message, author);
+  return {
+    repo: repo.nameWithOwner,
+    repo_url: repo.url,
+    branch_name: branchName,
+    branch_url: `${repo.url}/tree/${branchName}`,
+    sha: commit.sha.substring(0, 7),
+    message: commit.commit?.message || "No message",
+    author,
+    date: commit.commit?.committer?.date,
+    url: commit.html_url,
+    additions: stats?.additions,
+    deletions: stats?.deletions,
+    changed_files: stats?.changedFilesIfAvailable ?? undefined,
+    coAuthors: coAuthors.length > 0 ? coAuthors : undefined,
+    check_status: mapStatusCheckRollup(stats?.statusCheckRollup)
+  };
+}
+
+// Diff stats and CI status by full SHA, one GraphQL call per 100 commits; commits keep neither if the lookup fails,
+// which doesn't make the repository's sync a failure
+async function fetchCommitStats(repo: GitHubRepository, nodeIds: string[]): Promise<Map<string, any>> {
+  const statsBySha = new Map<string, any>();
+  try {
+    for (let index = 0; index < nodeIds.length; index += 100) {
+      const data = await executeGraphQLQuery(GET_COMMIT_STATS_QUERY, { ids: nodeIds.slice(index, index + 100) }, 'CommitStats', repo.nameWithOwner, undefined, true);
+      (data.nodes || []).filter(Boolean).forEach((node: any) => statsBySha.set(node.oid, node));
+    }
+  } catch (error) {
+    console.warn(`⚠️  Could not fetch diff stats for ${nodeIds.length} commits in ${repo.nameWithOwner}:`, error);
+  }
+  return statsBySha;
+}
+
+// Commits on head that aren't on base, paging until aheadBy is reached or maxCommits have been fetched. Only called
+// through fetchBranchViaCompare, which falls back to GraphQL history, so failed compare calls are marked as recoverable
+async function compareBranch(repo: GitHubRepository, base: string, head: string, maxCommits: number = Infinity): Promise<BranchComparison> {
+  const [owner, name] = repo.nameWithOwner.split('/');
+  const fetchPage = (page: number) => executeRestRequest(
+    `${comparePath(owner, name, base, head)}?per_page=${CONFIG.COMPARE_PAGE_SIZE}&page=${page}`, 'CompareBranch', repo.nameWithOwner, head, true
+  );
   
+  const firstPage = await fetchPage(1);
+  const stats: BranchComparisonStats = {
+    branchName: head,
+    aheadBy: firstPage.ahead_by,
+    behindBy: firstPage.behind_by,
+    totalCommits: firstPage.total_commits
+  };
+  const rawCommits: any[] = [...(firstPage.commits || [])];
+  let lastPageSize = rawCommits.length;
+  
+  for (let page = 2; rawCommits.length < stats.aheadBy && rawCommits.length < maxCommits && lastPageSize === CONFIG.COMPARE_PAGE_SIZE; page++) {
+    const data = await fetchPage(page);
+    lastPageSize = data.commits?.length || 0;
+    rawCommits.push(...(data.commits || []));
+  }
+  
+  const complete = rawCommits.length >= stats.aheadBy;
+  // Incomplete comparisons are thrown away for GraphQL history, so don't spend calls on their stats
+  const commitStats = complete ? await fetchCommitStats(repo, rawCommits.map(commit => commit.node_id)) : new Map<string, any>();
+  const commits = rawCommits.map(commit => mapCompareCommit(commit, repo, head, commitStats.get(commit.sha)));
+  
+  return { stats, commits, complete };
+}
+
+// One branch via the Compare API, falling back to its GraphQL history when the compare fails or the branch is
+// bigger than maxCommits
+async function fetchBranchViaCompare(
+  repo: GitHubRepository,
+  defaultBranch: string,
+  branchName: string,
+  maxCommits: number
+): Promise<{ commits: GitHubCommit[]; compareFailed: boolean }> {
   const [owner, name] = repo.nameWithOwner.split('/');
   const fetchAllCommits = process.env.FETCH_ALL_COMMITS !== 'false';
-  const excludePrefixes = process.env.EXCLUDE_BRANCH_PREFIXES 
-    ? process.env.EXCLUDE_BRANCH_PREFIXES.split(',').map(prefix => prefix.trim()).filter(Boolean)
-    : [];
-    
+  
+  try {
+    const comparison = await compareBranch(repo, defaultBranch, branchName, maxCommits);
+    if (comparison.complete) {
+      console.log(`🔀 Branch '${branchName}': ${comparison.stats.aheadBy} ahead, ${comparison.stats.behindBy} behind '${defaultBranch}'`);
+      return { commits: comparison.commits, compareFailed: false };
+    }
+    console.log(`📏 Branch '${branchName}' is ${comparison.stats.aheadBy} commits ahead - using GraphQL history instead`);
+    return { commits: await fetchSingleBranchCommits(owner, name, branchName, repo, fetchAllCommits), compareFailed: false };
+  } catch (error) {
+    console.warn(`⚠️  Compare failed for branch ${branchName}, using GraphQL history:`, error);
+    return { commits: await fetchSingleBranchCommits(owner, name, branchName, repo, fetchAllCommits), compareFailed: true };
+  }
+}
+
+// Active, included branches with the default branch first - the branch list every strategy works from
+async function getStrategyBranches(repo: GitHubRepository, profile: RepositoryProfile, strategy: FetchStrategy): Promise<BranchMetadata[]> {
   // Get branches with merge analysis - this automatically filters merged/inactive branches
   const allBranchesWithMergeInfo = await mergedBranchDetector.getBranchesWithMergeAnalysis(repo);
   const activeBranches = mergedBranchDetector.getActiveBranches(allBranchesWithMergeInfo);
   const mergedInactiveBranches = mergedBranchDetector.getMergedInactiveBranches(allBranchesWithMergeInfo);
   
-  // Apply additional exclude prefix filtering
-  const filteredBranches = activeBranches.filter(branch => {
-    const shouldExclude = excludePrefixes.some(prefix => 
-      branch.name.toLowerCase().startsWith(prefix.toLowerCase())
-    );
-    return !shouldExclude;
-  });
-  
-  const defaultBranch = profile.defaultBranch;
-  const allCommits: GitHubCommit[] = [];
-  const seenCommitShas = new Set<string>();
+  // Apply exclude prefix and per-repository branch filtering
+  const filteredBranches = activeBranches.filter(branch => isBranchIncluded(repo, branch.name));
   
   // Record optimization metrics
-  apiTracker.recordOptimizationMetrics(mergedInactiveBranches.length, filteredBranches.length, 'PURE_GRAPHQL');
+  apiTracker.recordOptimizationMetrics(mergedInactiveBranches.length, filteredBranches.length, strategy);
   
   console.log(`🎯 Processing ${filteredBranches.length} active branches (${mergedInactiveBranches.length} merged/inactive branches automatically skipped)`);
   
   // Process main branch first, then others
-  const sortedBranches = filteredBranches.sort((a, b) => {
-    if (a.name === defaultBranch) return -1;
-    if (b.name === defaultBranch) return 1;
+  return filteredBranches.sort((a, b) => {
+    if (a.name === profile.defaultBranch) return -1;
+    if (b.name === profile.defaultBranch) return 1;
     return 0;
   });
+}
+
+// Appends commits not seen on an earlier branch; the first branch a commit is found on keeps it
+function collectUniqueCommits(allCommits: GitHubCommit[], seenCommitShas: Set<string>, branchName: string, branchCommits: GitHubCommit[]) {
+  const newCommits = branchCommits.filter(commit => {
+    if (seenCommitShas.has(commit.sha)) return false;
+    seenCommitShas.add(commit.sha);
+    return true;
+  });
+  
+  allCommits.push(...newCommits);
+  console.log(`📂 Branch '${branchName}': ${newCommits.length} unique commits (${branchCommits.length - newCommits.length} duplicates filtered)`);
+}
+
+function sortCommitsByDate(commits: GitHubCommit[]): GitHubCommit[] {
+  return commits.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+}
+
+// Compare-based strategies still need the default branch's own history, which only GraphQL can page through
+async function fetchDefaultBranchCommits(repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
+  const [owner, name] = repo.nameWithOwner.split('/');
+  return fetchSingleBranchCommits(owner, name, profile.defaultBranch, repo, process.env.FETCH_ALL_COMMITS !== 'false');
+}
+
+// Strategy Implementation: Pure Compare API (for repositories with mostly small branches)
+async function fetchWithPureCompareStrategy(repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
+  console.log(`🚀 Executing PURE_COMPARE_API strategy for ${repo.nameWithOwner}`);
+  
+  const branches = await getStrategyBranches(repo, profile, 'PURE_COMPARE_API');
+  const allCommits: GitHubCommit[] = [];
+  const seenCommitShas = new Set<string>();
+  
+  collectUniqueCommits(allCommits, seenCommitShas, profile.defaultBranch, await fetchDefaultBranchCommits(repo, profile));
+  
+  // Every feature branch is compared in full, however many pages that takes
+  for (const branch of branches.filter(b => b.name !== profile.defaultBranch)) {
+    const { commits } = await fetchBranchViaCompare(repo, profile.defaultBranch, branch.name, Infinity);
+    collectUniqueCommits(allCommits, seenCommitShas, branch.name, commits);
+  }
+  
+  return sortCommitsByDate(allCommits);
+}
+
+// Strategy Implementation: Pure GraphQL (for repositories with mostly large branches) 
+async function fetchWithPureGraphQLStrategy(repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
+  console.log(`🔧 Executing PURE_GRAPHQL strategy for ${repo.nameWithOwner}`);
   
-  for (const branch of sortedBranches) {
+  const [owner, name] = repo.nameWithOwner.split('/');
+  const fetchAllCommits = process.env.FETCH_ALL_COMMITS !== 'false';
+  
+  const branches = await getStrategyBranches(repo, profile, 'PURE_GRAPHQL');
+  const allCommits: GitHubCommit[] = [];
+  const seenCommitShas = new Set<string>();
+  
+  for (const branch of branches) {
     const branchCommits = await fetchSingleBranchCommits(owner, name, branch.name, repo, fetchAllCommits);
-    
-    // Filter out already seen commits
-    const newCommits = branchCommits.filter(commit => {
-      const sha = commit.sha;
-      if (seenCommitShas.has(sha)) return false;
-      seenCommitShas.add(sha);
-      return true;
-    });
-    
-    allCommits.push(...newCommits);
-    console.log(`📂 Branch '${branch.name}': ${newCommits.length} unique commits (${branchCommits.length - newCommits.length} duplicates filtered)`);
+    collectUniqueCommits(allCommits, seenCommitShas, branch.name, branchCommits);
   }
   
-  return allCommits.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+  return sortCommitsByDate(allCommits);
 }
 
 // Strategy Implementation: Hybrid Threshold (for mixed repositories)
 async function fetchWithHybridThresholdStrategy(repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
   console.log(`⚖️  Executing HYBRID_THRESHOLD strategy for ${repo.nameWithOwner}`);
   
-  // For now, use the GraphQL strategy as a placeholder
-  // In a full implementation, this would check branch sizes and use Compare API for small branches
-  return await fetchWithPureGraphQLStrategy(repo, profile);
+  const branches = await getStrategyBranches(repo, profile, 'HYBRID_THRESHOLD');
+  const allCommits: GitHubCommit[] = [];
+  const seenCommitShas = new Set<string>();
+  
+  collectUniqueCommits(allCommits, seenCommitShas, profile.defaultBranch, await fetchDefaultBranchCommits(repo, profile));
+  
+  // The first compare page doubles as the size check: small branches are done in one call, larger ones use GraphQL
+  for (const branch of branches.filter(b => b.name !== profile.defaultBranch)) {
+    const { commits } = await fetchBranchViaCompare(repo, profile.defaultBranch, branch.name, CONFIG.COMPARE_PAGE_SIZE);
+    collectUniqueCommits(allCommits, seenCommitShas, branch.name, commits);
+  }
+  
+  return sortCommitsByDate(allCommits);
 }
 
 // Strategy Implementation: Adaptive Batch (for complex/experimental repositories)
 async function fetchWithAdaptiveBatchStrategy(repo: GitHubRepository, profile: RepositoryProfile): Promise<GitHubCommit[]> {
   console.log(`🔄 Executing ADAPTIVE_BATCH strategy for ${repo.nameWithOwner}`);
   
-  // For complex repositories, use the most conservative GraphQL approach
-  return await fetchWithPureGraphQLStrategy(repo, profile);
+  const branches = await getStrategyBranches(repo, profile, 'ADAPTIVE_BATCH');
+  const featureBranches = branches.filter(b => b.name !== profile.defaultBranch);
+  const allCommits: GitHubCommit[] = [];
+  const seenCommitShas = new Set<string>();
+  
+  collectUniqueCommits(allCommits, seenCommitShas, profile.defaultBranch, await fetchDefaultBranchCommits(repo, profile));
+  
+  // Batches are sized by the budget of the token this repository's compares are made with
+  const { token } = await githubCredentials.getCredential(repo.nameWithOwner.split('/')[0]);
+  let batchSize = CONFIG.ADAPTIVE_BATCH_INITIAL_SIZE;
+  for (let index = 0; index < featureBranches.length; ) {
+    const batch = featureBranches.slice(index, index + batchSize);
+    index += batch.length;
+    
+    // Branches up to COMPARE_MAX_COMMITS ahead are compared; anything bigger is fetched through GraphQL
+    const results = await Promise.all(batch.map(branch =>
+      fetchBranchViaCompare(repo, profile.defaultBranch, branch.name, CONFIG.COMPARE_MAX_COMMITS)
+    ));
+    // Collected in branch order so the same branch keeps a shared commit on every run
+    results.forEach((result, i) => collectUniqueCommits(allCommits, seenCommitShas, batch[i].name, result.commits));
+    
+    const budgetLow = rateLimitGovernor.getBatchDelay(token) > CONFIG.SYNC_BATCH_DELAY;
+    if (budgetLow || results.some(result => result.compareFailed)) {
+      batchSize = Math.max(1, Math.floor(batchSize / 2));
+      console.log(`🐢 Adaptive batch size reduced to ${batchSize} (${budgetLow ? 'rate limit budget low' : 'compare failures'})`);
+      if (budgetLow && index < featureBranches.length) {
+        await new Promise(resolve => setTimeout(resolve, rateLimitGovernor.getBatchDelay(token)));
+      }
+    } else {
+      batchSize = Math.min(CONFIG.ADAPTIVE_BATCH_MAX_SIZE, batchSize * 2);
+    }
+  }
+  
+  return sortCommitsByDate(allCommits);
+}
+
+// Map a PullRequestFields node to our PR model (shared by full and incremental fetches)
+function mapPullRequestNode(pr: any, repo: GitHubRepository): GitHubPR {
+  // Pending reviews have no submittedAt and are invisible to everyone but their author
+  const reviews: GitHubPRReview[] = (pr.reviews?.nodes || [])
+    .filter((review: any) => review.submittedAt && review.state !== 'PENDING')
+    .map((review: any) => ({
+      reviewer: review.author?.login || "Unknown",
+      state: review.state,
+      submitted_at: review.submittedAt
+    }));
+  
+  const requestedReviewers: string[] = (pr.reviewRequests?.nodes || [])
+    .map((request: any) => request.requestedReviewer?.login || request.requestedReviewer?.name)
+    .filter(Boolean);
+
+  const readyForReviewAt = pr.readyForReview?.nodes?.[0]?.createdAt;
+  
+  return {
+    repo: repo.nameWithOwner,
+    repo_url: repo.url,
+    number: pr.number,
+    title: pr.title,
+    state: (pr.state.charAt(0).toUpperCase() + pr.state.slice(1).toLowerCase()) as "Open" | "Merged" | "Closed",
+    author: pr.author?.login || "Unknown",
+    created_at: pr.createdAt,
+    merged_at: pr.mergedAt,
+    url: pr.url,
+    head_branch: pr.headRefName,
+    head_sha: pr.headRefOid,
+    base_branch: pr.baseRefName,
+    reviews,
+    requested_reviewers: requestedReviewers,
+    check_status: mapStatusCheckRollup(pr.commits?.nodes?.[0]?.commit?.statusCheckRollup),
+    is_draft: pr.isDraft,
+    first_commit_at: pr.firstCommit?.nodes?.[0]?.commit?.authoredDate,
+    ready_for_review_at: pr.isDraft ? undefined : (readyForReviewAt || pr.createdAt),
+    labels: (pr.labels?.nodes || []).map((label: any) => label.name),
+    milestone: pr.milestone?.title,
+    additions: pr.additions,
+    deletions: pr.deletions,
+    changed_files: pr.changedFiles,
+    linked_issues: (pr.closingIssuesReferences?.nodes || []).map((issue: any) => ({
+      repo: issue.repository?.nameWithOwner || repo.nameWithOwner,
+      number: issue.number,
+      title: issue.title,
+      url: issue.url
+    }))
+  };
+}
+
+export interface PullRequestFetchResult {
+  pullRequests: GitHubPR[];
+  truncated: boolean; // true when PR_MAX_PAGES was reached before running out of pages
+}
+
+export async function fetchRepositoryPRs(repo: GitHubRepository): Promise<PullRequestFetchResult> {
+  const [owner, name] = repo.nameWithOwner.split('/');
+  const pullRequests: GitHubPR[] = [];
+  let hasNextPage = true;
+  let after: string | null = null;
+  let pageCount = 0;
+  
+  try {
+    while (hasNextPage && pageCount < CONFIG.PR_MAX_PAGES) {
+      pageCount++;
+      const data = await executeGraphQLQuery(GET_REPOSITORY_PRS_QUERY, { owner, name, after }, 'PullRequests', repo.nameWithOwner);
+      const prData = data.repository?.pullRequests;
+      const prs = prData?.nodes || [];
+      
+      pullRequests.push(...prs.map((pr: any) => mapPullRequestNode(pr, repo)));
+      
+      hasNextPage = prData?.pageInfo?.hasNextPage || false;
+      after = prData?.pageInfo?.endCursor || null;
+    }
+    
+    const truncated = hasNextPage;
+    if (truncated) {
+      console.warn(`✂️  PRs for ${repo.nameWithOwner} truncated at ${pageCount} pages (${pullRequests.length} PRs, PR_MAX_PAGES=${CONFIG.PR_MAX_PAGES})`);
+    } else if (pageCount > 1) {
+      console.log(`📄 Fetched ${pullRequests.length} PRs for ${repo.nameWithOwner} across ${pageCount} pages`);
+    }
+    
+    return { pullRequests, truncated };
+  } catch (error) {
+    console.error(`Error fetching PRs for ${repo.nameWithOwner}:`, error);
+    return { pullRequests: [], truncated: false };
+  }
 }
 
-export async function fetchRepositoryPRs(repo: GitHubRepository): Promise<GitHubPR[]> {
+export async function fetchRepositoryIssues(repo: GitHubRepository): Promise<GitHubIssue[]> {
   const [owner, name] = repo.nameWithOwner.split('/');
   
   try {
-    const data = await executeGraphQLQuery(GET_REPOSITORY_PRS_QUERY, { owner, name }, 'PullRequests', repo.nameWithOwner);
-    const prs = data.repository?.pullRequests?.nodes || [];
+    const data = await executeGraphQLQuery(GET_REPOSITORY_ISSUES_QUERY, { owner, name }, 'Issues', repo.nameWithOwner);
+    const issues = data.repository?.issues?.nodes || [];
     
-    return prs.map((pr: any) => ({
+    return issues.map((issue: any) => ({
       repo: repo.nameWithOwner,
       repo_url: repo.url,
-      number: pr.number,
-      title: pr.title,
-      state: (pr.state.charAt(0).toUpperCase() + pr.state.slice(1).toLowerCase()) as "Open" | "Merged" | "Closed",
-      author: pr.author?.login || "Unknown",
-      created_at: pr.createdAt,
-      merged_at: pr.mergedAt,
-      url: pr.url
+      number: issue.number,
+      title: issue.title,
+      state: (issue.state.charAt(0).toUpperCase() + issue.state.slice(1).toLowerCase()) as "Open" | "Closed",
+      author: issue.author?.login || "Unknown",
+      created_at: issue.createdAt,
+      closed_at: issue.closedAt || undefined,
+      labels: (issue.labels?.nodes || []).map((label: any) => label.name),
+      comments: issue.comments?.totalCount || 0,
+      url: issue.url
     }));
   } catch (error) {
-    console.error(`Error fetching PRs for ${repo.nameWithOwner}:`, error);
+    console.error(`Error fetching issues for ${repo.nameWithOwner}:`, error);
+    return [];
+  }
+}
+
+// Releases plus tags that have no release, newest first; drafts are skipped since they haven't shipped
+export async function fetchRepositoryReleases(repo: GitHubRepository, limit: number = CONFIG.RELEASES_PER_REPO): Promise<GitHubRelease[]> {
+  const [owner, name] = repo.nameWithOwner.split('/');
+
+  try {
+    const data = await executeGraphQLQuery(GET_REPOSITORY_RELEASES_QUERY, { owner, name, first: limit }, 'Releases', repo.nameWithOwner);
+
+    const releases: GitHubRelease[] = (data.repository?.releases?.nodes || [])
+      .filter((release: any) => !release.isDraft && release.publishedAt)
+      .map((release: any) => ({
+        repo: repo.nameWithOwner,
+        repo_url: repo.url,
+        tag: release.tagName,
+        name: release.name || release.tagName,
+        kind: 'release' as const,
+        published_at: release.publishedAt,
+        is_prerelease: release.isPrerelease,
+        author: release.author?.login || "Unknown",
+        target_sha: release.tagCommit?.oid.substring(0, 7),
+        target_date: release.tagCommit?.committedDate,
+        url: release.url
+      }));
+
+    const releasedTags = new Set(releases.map(release => release.tag));
+    const tags: GitHubRelease[] = (data.repository?.refs?.nodes || [])
+      .filter((ref: any) => !releasedTags.has(ref.name))
+      .map((ref: any) => {
+        const annotated = ref.target?.__typename === 'Tag';
+        const commit = annotated ? ref.target.target : ref.target;
+        const author = annotated ? ref.target.tagger : commit?.author;
+        return {
+          repo: repo.nameWithOwner,
+          repo_url: repo.url,
+          tag: ref.name,
+          name: ref.name,
+          kind: 'tag' as const,
+          published_at: (annotated ? ref.target.tagger?.date : undefined) || commit?.committedDate,
+          is_prerelease: false,
+          author: author?.user?.login || author?.name || "Unknown",
+          target_sha: commit?.oid?.substring(0, 7),
+          target_date: commit?.committedDate,
+          url: `${repo.url}/tree/${ref.name}`
+        };
+      })
+      // Tags on trees or blobs have no commit to date them by
+      .filter((tag: GitHubRelease) => tag.published_at);
+
+    return [...releases, ...tags].sort((a, b) => new Date(b.published_at).getTime() - new Date(a.published_at).getTime());
+  } catch (error) {
+    console.error(`Error fetching releases for ${repo.nameWithOwner}:`, error);
+    return [];
+  }
+}
+
+// Newest deployments across all environments, each with its full status history
+export async function fetchRepositoryDeployments(repo: GitHubRepository, limit: number = CONFIG.DEPLOYMENTS_PER_REPO): Promise<GitHubDeployment[]> {
+  const [owner, name] = repo.nameWithOwner.split('/');
+
+  try {
+    const data = await executeGraphQLQuery(GET_REPOSITORY_DEPLOYMENTS_QUERY, { owner, name, first: limit }, 'Deployments', repo.nameWithOwner);
+
+    return (data.repository?.deployments?.nodes || []).map((deployment: any) => ({
+      repo: repo.nameWithOwner,
+      repo_url: repo.url,
+      id: deployment.databaseId,
+      environment: deployment.environment || 'default',
+      sha: deployment.commitOid?.substring(0, 7) || '',
+      ref: deployment.ref?.name,
+      creator: deployment.creator?.login || "Unknown",
+      created_at: deployment.createdAt,
+      statuses: (deployment.statuses?.nodes || [])
+        .map((status: any): GitHubDeploymentStatus => ({
+          state: status.state,
+          created_at: status.createdAt,
+          log_url: status.logUrl || undefined
+        }))
+        .sort((a: GitHubDeploymentStatus, b: GitHubDeploymentStatus) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    }));
+  } catch (error) {
+    console.error(`Error fetching deployments for ${repo.nameWithOwner}:`, error);
     return [];
   }
 }
@@ -1048,25 +1943,20 @@ async function getChangedBranches(repo: GitHubRepository, since: string): Promis
     console.log(`🔍 Analyzing changed branches in ${repo.nameWithOwner} since ${since} (with merged branch detection)`);
     
     // Get branches with merge analysis to automatically filter out merged/inactive branches
-    const allBranchesWithMergeInfo = await mergedBranchDetector.getBranchesWithMergeAnalysis(repo);
+    // (only branches with commits after 'since' are paged in)
+    const allBranchesWithMergeInfo = await mergedBranchDetector.getBranchesWithMergeAnalysis(repo, since);
     const activeBranches = mergedBranchDetector.getActiveBranches(allBranchesWithMergeInfo);
     const mergedInactiveBranches = mergedBranchDetector.getMergedInactiveBranches(allBranchesWithMergeInfo);
     
     console.log(`📊 Branch filtering: ${activeBranches.length} active, ${mergedInactiveBranches.length} merged/inactive (${mergedInactiveBranches.length} automatically skipped)`);
     
-    // Apply exclude prefix filtering to active branches
-    const excludePrefixes = process.env.EXCLUDE_BRANCH_PREFIXES 
-      ? process.env.EXCLUDE_BRANCH_PREFIXES.split(',').map(prefix => prefix.trim()).filter(Boolean)
-      : [];
-    
+    // Apply exclude prefix and per-repository branch filtering to active branches
     const filteredActiveBranches = activeBranches.filter(branch => {
-      const shouldExclude = excludePrefixes.some(prefix => 
-        branch.name.toLowerCase().startsWith(prefix.toLowerCase())
-      );
-      if (shouldExclude) {
-        console.log(`🚫 Excluding active branch '${branch.name}' (matches prefix filter)`);
+      const included = isBranchIncluded(repo, branch.name);
+      if (!included) {
+        console.log(`🚫 Excluding active branch '${branch.name}' (matches branch filter)`);
       }
-      return !shouldExclude;
+      return included;
     });
     
     // Find branches with commits newer than since date
@@ -1086,28 +1976,50 @@ async function getChangedBranches(repo: GitHubRepository, since: string): Promis
 }
 
 // Optimized incremental PR fetching - uses GitHub's native filtering for efficiency
-export async function fetchRepositoryPRsSince(repo: GitHubRepository, since: string): Promise<GitHubPR[]> {
+export async function fetchRepositoryPRsSince(repo: GitHubRepository, since: string): Promise<PullRequestFetchResult> {
   const [owner, name] = repo.nameWithOwner.split('/');
   
   try {
     console.log(`🔄 Starting optimized incremental PR fetch for ${repo.nameWithOwner} since ${since}`);
     
-    // Fetch recent PRs and filter client-side (GitHub GraphQL doesn't support PR since filtering)
-    const data = await executeGraphQLQuery(GET_REPOSITORY_PRS_SINCE_QUERY, {
-      owner,
-      name
-    }, 'IncrementalPRs', repo.nameWithOwner);
+    const sinceDate = new Date(since);
+    const allPRs: any[] = [];
+    let hasNextPage = true;
+    let reachedSince = false;
+    let after: string | null = null;
+    let pageCount = 0;
+    
+    // PRs are ordered by UPDATED_AT DESC (GitHub GraphQL doesn't support PR since filtering),
+    // so keep paging only until a page reaches PRs last updated before the since timestamp
+    while (hasNextPage && !reachedSince && pageCount < CONFIG.PR_MAX_PAGES) {
+      pageCount++;
+      const data = await executeGraphQLQuery(GET_REPOSITORY_PRS_SINCE_QUERY, {
+        owner,
+        name,
+        after
+      }, 'IncrementalPRs', repo.nameWithOwner);
+      
+      const prData = data.repository?.pullRequests;
+      const prs = prData?.nodes || [];
+      allPRs.push(...prs);
+      
+      const oldestOnPage = prs[prs.length - 1];
+      reachedSince = !oldestOnPage || new Date(oldestOnPage.updatedAt || oldestOnPage.createdAt) <= sinceDate;
+      hasNextPage = prData?.pageInfo?.hasNextPage || false;
+      after = prData?.pageInfo?.endCursor || null;
+    }
     
-    const allPRs = data.repository?.pullRequests?.nodes || [];
+    const truncated = hasNextPage && !reachedSince;
+    if (truncated) {
+      console.warn(`✂️  Incremental PRs for ${repo.nameWithOwner} truncated at ${pageCount} pages (PR_MAX_PAGES=${CONFIG.PR_MAX_PAGES})`);
+    }
     
     if (allPRs.length === 0) {
       console.log(`📭 No updated PRs found for ${repo.nameWithOwner} since ${since}`);
-      return [];
+      return { pullRequests: [], truncated };
     }
     
-    console.log(`🎯 Processing ${allPRs.length} potentially updated PRs for ${repo.nameWithOwner}`);
-    
-    const sinceDate = new Date(since);
+    console.log(`🎯 Processing ${allPRs.length} potentially updated PRs for ${repo.nameWithOwner} (${pageCount} pages)`);
     
     // Filter PRs that were actually created or updated since the last sync
     const updatedPRs = allPRs.filter((pr: any) => {
@@ -1119,22 +2031,59 @@ export async function fetchRepositoryPRsSince(repo: GitHubRepository, since: str
     
     console.log(`✅ Found ${updatedPRs.length} truly updated PRs (filtered from ${allPRs.length} candidates)`);
     
-    const mappedPRs = updatedPRs.map((pr: any) => ({
+    const mappedPRs: GitHubPR[] = updatedPRs.map((pr: any) => mapPullRequestNode(pr, repo));
+    
+    return {
+      pullRequests: mappedPRs.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+      truncated
+    };
+    
+  } catch (error) {
+    console.error(`❌ Error in optimized incremental PR fetch for ${repo.nameWithOwner}:`, error);
+    return { pullRequests: [], truncated: false };
+  }
+}
+
+// Incremental issue fetching - GitHub supports a native 'since' filter on issues
+export async function fetchRepositoryIssuesSince(repo: GitHubRepository, since: string): Promise<GitHubIssue[]> {
+  const [owner, name] = repo.nameWithOwner.split('/');
+  
+  try {
+    console.log(`🔄 Starting incremental issue fetch for ${repo.nameWithOwner} since ${since}`);
+    
+    const data = await executeGraphQLQuery(GET_REPOSITORY_ISSUES_SINCE_QUERY, {
+      owner,
+      name,
+      since
+    }, 'IncrementalIssues', repo.nameWithOwner);
+    
+    const updatedIssues = data.repository?.issues?.nodes || [];
+    
+    if (updatedIssues.length === 0) {
+      console.log(`📭 No updated issues found for ${repo.nameWithOwner} since ${since}`);
+      return [];
+    }
+    
+    console.log(`✅ Found ${updatedIssues.length} updated issues for ${repo.nameWithOwner}`);
+    
+    const mappedIssues: GitHubIssue[] = updatedIssues.map((issue: any) => ({
       repo: repo.nameWithOwner,
       repo_url: repo.url,
-      number: pr.number,
-      title: pr.title,
-      state: (pr.state.charAt(0).toUpperCase() + pr.state.slice(1).toLowerCase()) as "Open" | "Merged" | "Closed",
-      author: pr.author?.login || "Unknown",
-      created_at: pr.createdAt,
-      merged_at: pr.mergedAt,
-      url: pr.url
+      number: issue.number,
+      title: issue.title,
+      state: (issue.state.charAt(0).toUpperCase() + issue.state.slice(1).toLowerCase()) as "Open" | "Closed",
+      author: issue.author?.login || "Unknown",
+      created_at: issue.createdAt,
+      closed_at: issue.closedAt || undefined,
+      labels: (issue.labels?.nodes || []).map((label: any) => label.name),
+      comments: issue.comments?.totalCount || 0,
+      url: issue.url
     }));
     
-    return mappedPRs.sort((a: any, b: any) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+    return mappedIssues.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
     
   } catch (error) {
-    console.error(`❌ Error in optimized incremental PR fetch for ${repo.nameWithOwner}:`, error);
+    console.error(`❌ Error in incremental issue fetch for ${repo.nameWithOwner}:`, error);
     return [];
   }
 }
@@ -1172,21 +2121,8 @@ async function fetchAdditionalBranchCommits(
     console.log(`  📝 Got ${commits.length} additional commits (${newCommits.length} new) on page ${pageCount}`);
     
     const branchCommits = newCommits.map((commit: any) => {
-      const fullSha = commit.oid;
-      const shortSha = fullSha.substring(0, 7);
-      seenCommitShas.add(fullSha); // Track this commit
-      
-      return {
-        repo: repo.nameWithOwner,
-        repo_url: repo.url,
-        branch_name: branchName,
-        branch_url: `${repo.url}/tree/${branchName}`,
-        sha: shortSha,
-        message: commit.message || "No message",
-        author: commit.author?.name || commit.author?.user?.login || "Unknown",
-        date: commit.committedDate,
-        url: commit.url
-      };
+      seenCommitShas.add(commit.oid); // Track this commit
+      return mapCommitNode(commit, repo, branchName);
     });
     
     allAdditionalCommits.push(...branchCommits);
@@ -1222,17 +2158,7 @@ async function fetchBranchCommitsSince(
     
     const commits = data.repository?.ref?.target?.history?.nodes || [];
     
-    return commits.map((commit: any) => ({
-      repo: repo.nameWithOwner,
-      repo_url: repo.url,
-      branch_name: branchName,
-      branch_url: `${repo.url}/tree/${branchName}`,
-      sha: commit.oid.substring(0, 7),
-      message: commit.message || "No message",
-      author: commit.author?.name || commit.author?.user?.login || "Unknown",
-      date: commit.committedDate,
-      url: commit.url
-    }));
+    return commits.map((commit: any) => mapCommitNode(commit, repo, branchName));
   } catch (error) {
     console.error(`❌ Error fetching commits since ${since} for branch ${branchName}:`, error);
     return [];
@@ -1258,17 +2184,7 @@ async function fetchSingleBranchCommits(
     const pageInfo = data.repository?.ref?.target?.history?.pageInfo;
     
     // Map initial commits
-    const allCommits = commits.map((commit: any) => ({
-      repo: repo.nameWithOwner,
-      repo_url: repo.url,
-      branch_name: branchName,
-      branch_url: `${repo.url}/tree/${branchName}`,
-      sha: commit.oid.substring(0, 7),
-      message: commit.message || "No message",
-      author: commit.author?.name || commit.author?.user?.login || "Unknown",
-      date: commit.committedDate,
-      url: commit.url
-    }));
+    const allCommits = commits.map((commit: any) => mapCommitNode(commit, repo, branchName));
     
     // Fetch additional pages if needed and configured
     if (fetchAllCommits && pageInfo?.hasNextPage) {
@@ -1311,17 +2227,7 @@ async function fetchAdditionalBranchCommitsSimple(
     
     console.log(`  📝 Got ${commits.length} additional commits (page ${pageCount})`);
     
-    const branchCommits = commits.map((commit: any) => ({
-      repo: repo.nameWithOwner,
-      repo_url: repo.url,
-      branch_name: branchName,
-      branch_url: `${repo.url}/tree/${branchName}`,
-      sha: commit.oid.substring(0, 7),
-      message: commit.message || "No message",
-      author: commit.author?.name || commit.author?.user?.login || "Unknown",
-      date: commit.committedDate,
-      url: commit.url
-    }));
+    const branchCommits = commits.map((commit: any) => mapCommitNode(commit, repo, branchName));
     
     allAdditionalCommits.push(...branchCommits);
     
@@ -1341,4 +2247,78 @@ async function fetchAdditionalBranchCommitsSimple(
 // Export API tracking functions
 export const startApiTracking = () => apiTracker.startTracking();
 export const logApiSummary = () => apiTracker.logSummary();
-export const generateApiReport = () => apiTracker.generateReport();
\ No newline at end of file
+export const generateApiReport = () => apiTracker.generateReport();
+export const getRateLimitStatus = () => rateLimitGovernor.getStatus();
+export const takeRepositoryFailures = (repository: string) => apiTracker.takeRepositoryFailures(repository);
+
+// Delay before a batch of repositories, set by the most drained token among the ones those repositories use
+export async function getBatchDelay(repositories: string[]): Promise<number> {
+  const owners = Array.from(new Set(repositories.map(repository => repository.split('/')[0])));
+  // A repository without credentials fails on its own fetch; it has no budget to wait for
+  const credentials = await Promise.all(owners.map(owner => githubCredentials.getCredential(owner).catch(() => null)));
+  return Math.max(CONFIG.SYNC_BATCH_DELAY, ...credentials.map(credential => credential ? rateLimitGovernor.getBatchDelay(credential.token) : 0));
+}
+
+export function listRepositoryProfiles(): ProfileListEntry[] {
+  return repositoryProfiler.listProfiles().map(entry => ({
+    ...entry,
+    branchAnalysisEntries: mergedBranchDetector.countEntries(entry.repositoryId),
+    strategyStats: summarizeStrategyMetrics(entry.strategyMetrics)
+  }));
+}
+
+// Forget a repository's profile and branch merge analysis; false if nothing was cached for it
+export function invalidateRepositoryProfile(repositoryId: string): boolean {
+  const hadProfile = repositoryProfiler.invalidateProfile(repositoryId);
+  const clearedAnalyses = mergedBranchDetector.invalidateRepository(repositoryId);
+  if (hadProfile || clearedAnalyses > 0) {
+    console.log(`🗑️  Invalidated profile for ${repositoryId} (${clearedAnalyses} branch analyses cleared)`);
+  }
+  return hadProfile || clearedAnalyses > 0;
+}
+
+// Ahead/behind counts only change when one of the two tips moves, so a comparison is reused until then
+const branchComparisons = globalForProfiling.branchComparisons ??= new Map();
+
+async function getBranchComparison(repo: GitHubRepository, base: BranchMetadata, head: BranchMetadata): Promise<BranchComparisonStats | undefined> {
+  const key = `${repo.nameWithOwner}:${head.name}`;
+  const cached = branchComparisons.get(key);
+  if (cached && cached.baseSha === base.lastCommitSha && cached.headSha === head.lastCommitSha) {
+    return cached.stats;
+  }
+
+  const [owner, name] = repo.nameWithOwner.split('/');
+  try {
+    const data = await executeRestRequest(`${comparePath(owner, name, base.name, head.name)}?per_page=1`, 'BranchOverviewCompare', repo.nameWithOwner, head.name, true);
+    const stats: BranchComparisonStats = {
+      branchName: head.name,
+      aheadBy: data.ahead_by,
+      behindBy: data.behind_by,
+      totalCommits: data.total_commits
+    };
+    branchComparisons.set(key, { baseSha: base.lastCommitSha, headSha: head.lastCommitSha, stats });
+    return stats;
+  } catch (error) {
+    console.warn(`⚠️  Could not compare ${head.name} with ${base.name} in ${repo.nameWithOwner}:`, error);
+    return undefined;
+  }
+}
+
+// Every branch of a repository with its merge analysis and ahead/behind counts, for the branch explorer
+export async function fetchBranchOverview(repo: GitHubRepository): Promise<BranchOverview[]> {
+  const branches = await mergedBranchDetector.getBranchesWithMergeAnalysis(repo);
+  const defaultBranch = branches.find(branch => branch.isDefault);
+
+  const overview: BranchOverview[] = [];
+  for (let index = 0; index < branches.length; index += CONFIG.BRANCH_COMPARE_CONCURRENCY) {
+    const batch = branches.slice(index, index + CONFIG.BRANCH_COMPARE_CONCURRENCY);
+    overview.push(...await Promise.all(batch.map(async branch => ({
+      ...branch,
+      comparison: defaultBranch && !branch.isDefault ? await getBranchComparison(repo, defaultBranch, branch) : undefined,
+      mergedPRUrl: branch.mergeInfo?.mergedPRNumber ? `${repo.url}/pull/${branch.mergeInfo.mergedPRNumber}` : undefined
+    }))));
+  }
+
+  console.log(`🌿 Branch overview for ${repo.nameWithOwner}: ${overview.length} branches`);
+  return overview;
+}
@@ -0,0 +1,249 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { GITHUB_CONFIG } from './constants';
+
+export type CredentialSource = 'app_installation' | 'org_token' | 'token';
+
+export interface GitHubCredential {
+  token: string;
+  source: CredentialSource;
+}
+
+export interface GitHubAppInfo {
+  slug: string;
+  name: string;
+  html_url: string;
+  created_at: string;
+  owner?: { avatar_url?: string };
+}
+
+interface InstallationToken {
+  token: string;
+  expiresAt: number; // epoch ms
+}
+
+// Contents of GITHUB_TOKENS_FILE - re-read whenever the file changes, so tokens rotate without a restart
+interface TokenFile {
+  default?: string;
+  organizations?: Record<string, string>;
+}
+
+// Installation tokens live for an hour; replace them a few minutes early so in-flight syncs never see one expire
+const TOKEN_REFRESH_MARGIN = 5 * 60 * 1000;
+// How long a list of App installations is trusted before an unknown owner triggers a fresh lookup
+const INSTALLATION_LOOKUP_TTL = 10 * 60 * 1000;
+
+function parseOrgTokens(value: string | undefined): Record<string, string> {
+  const tokens: Record<string, string> = {};
+  (value || '').split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+      tokens[entry.slice(0, separator).trim().toLowerCase()] = entry.slice(separator + 1).trim();
+    }
+  });
+  return tokens;
+}
+
+const globalForCredentials = globalThis as typeof globalThis & { githubCredentials?: GitHubCredentialsProvider };
+
+// GitHub Credentials Provider - picks a token per request owner: App installation, then org PAT, then GITHUB_TOKEN
+class GitHubCredentialsProvider {
+  private installationTokens = new Map<number, InstallationToken>();
+  private pendingInstallationTokens = new Map<number, Promise<InstallationToken>>();
+  private installations: Map<string, number> | null = null;
+  private pendingInstallationLookup: Promise<Map<string, number>> | null = null;
+  private installationsFetchedAt = 0;
+  private tokenFile: { mtimeMs: number; contents: TokenFile } | null = null;
+
+  static getInstance(): GitHubCredentialsProvider {
+    if (!globalForCredentials.githubCredentials) {
+      globalForCredentials.githubCredentials = new GitHubCredentialsProvider();
+    }
+    return globalForCredentials.githubCredentials;
+  }
+
+  isAppConfigured(): boolean {
+    return Boolean(process.env.GITHUB_APP_ID && (process.env.GITHUB_APP_PRIVATE_KEY || process.env.GITHUB_APP_PRIVATE_KEY_FILE));
+  }
+
+  // A token that belongs to a user - needed for viewer queries (profile, the viewer's own repositories)
+  hasPersonalToken(): boolean {
+    return Boolean(this.getDefaultToken());
+  }
+
+  hasCredentials(): boolean {
+    return this.hasPersonalToken() || this.isAppConfigured() || Object.keys(this.getOrgTokens()).length > 0;
+  }
+
+  async getCredential(owner?: string): Promise<GitHubCredential> {
+    if (owner) {
+      if (this.isAppConfigured()) {
+        const installationId = await this.findInstallation(owner);
+        if (installationId) {
+          return { token: await this.getInstallationToken(installationId), source: 'app_installation' };
+        }
+      }
+
+      const orgToken = this.getOrgTokens()[owner.toLowerCase()];
+      if (orgToken) {
+        return { token: orgToken, source: 'org_token' };
+      }
+    }
+
+    const defaultToken = this.getDefaultToken();
+    if (defaultToken) {
+      return { token: defaultToken, source: 'token' };
+    }
+
+    // App-only setups still need something for requests that aren't tied to an owner
+    if (this.isAppConfigured()) {
+      const installationId = await this.findInstallation();
+      if (installationId) {
+        return { token: await this.getInstallationToken(installationId), source: 'app_installation' };
+      }
+    }
+
+    throw new Error(owner ? `No GitHub credentials available for ${owner}` : 'No GitHub credentials configured');
+  }
+
+  // Called after a 401 so the next getCredential mints or re-reads a fresh token instead of reusing this one
+  invalidate(credential: GitHubCredential) {
+    if (credential.source === 'app_installation') {
+      this.installationTokens.forEach((installationToken, installationId) => {
+        if (installationToken.token === credential.token) {
+          this.installationTokens.delete(installationId);
+        }
+      });
+      console.warn('🔑 GitHub App installation token rejected - a new one will be requested');
+    } else {
+      this.tokenFile = null;
+      console.warn(`🔑 GitHub ${credential.source === 'org_token' ? 'organization token' : 'token'} rejected - reloading credentials`);
+    }
+  }
+
+  async getAppInfo(): Promise<GitHubAppInfo> {
+    return this.appRequest<GitHubAppInfo>('GET', '/app');
+  }
+
+  private readTokenFile(): TokenFile {
+    const file = process.env.GITHUB_TOKENS_FILE;
+    if (!file) return {};
+
+    try {
+      const { mtimeMs } = fs.statSync(file);
+      if (this.tokenFile?.mtimeMs !== mtimeMs) {
+        const contents: TokenFile = JSON.parse(fs.readFileSync(file, 'utf8'));
+        this.tokenFile = { mtimeMs, contents };
+        console.log(`🔑 Loaded GitHub tokens from ${file}`);
+      }
+    } catch (error) {
+      // Mid-rotation the file may be briefly missing or half-written; keep using the previous tokens
+      console.error(`Error reading GITHUB_TOKENS_FILE ${file}:`, error);
+    }
+    return this.tokenFile?.contents || {};
+  }
+
+  private getDefaultToken(): string | undefined {
+    return this.readTokenFile().default || process.env.GITHUB_TOKEN || undefined;
+  }
+
+  private getOrgTokens(): Record<string, string> {
+    const fileTokens = Object.fromEntries(
+      Object.entries(this.readTokenFile().organizations || {}).map(([org, token]) => [org.toLowerCase(), token])
+    );
+    return { ...parseOrgTokens(process.env.GITHUB_ORG_TOKENS), ...fileTokens };
+  }
+
+  private getPrivateKey(): string {
+    if (process.env.GITHUB_APP_PRIVATE_KEY) {
+      // Environment variables often carry the PEM with escaped newlines
+      return process.env.GITHUB_APP_PRIVATE_KEY.replace(/\\n/g, '\n');
+    }
+    // Read on every use so a rotated key file takes effect immediately
+    return fs.readFileSync(process.env.GITHUB_APP_PRIVATE_KEY_FILE!, 'utf8');
+  }
+
+  // Short-lived RS256 JWT identifying the App itself; only used to mint installation tokens
+  private createAppJwt(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    // iat is backdated to tolerate clock drift between us and GitHub
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({ iat: now - 60, exp: now + 9 * 60, iss: process.env.GITHUB_APP_ID })}`;
+    const signature = crypto.createSign('RSA-SHA256').update(unsigned).sign(this.getPrivateKey(), 'base64url');
+    return `${unsigned}.${signature}`;
+  }
+
+  private async appRequest<T>(method: string, path: string): Promise<T> {
+    const response = await fetch(`${GITHUB_CONFIG.REST_API_URL}${path}`, {
+      method,
+      headers: {
+        "Authorization": `Bearer ${this.createAppJwt()}`,
+        "Accept": "application/vnd.github+json",
+        "X-GitHub-Api-Version": "2022-11-28"
+      },
+      signal: AbortSignal.timeout(30000)
+    });
+    if (!response.ok) {
+      throw new Error(`GitHub App request ${method} ${path} failed: HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+
+  // Installation for an account (or any installation when no owner is given); null if the App isn't installed there
+  private async findInstallation(owner?: string): Promise<number | null> {
+    if (process.env.GITHUB_APP_INSTALLATION_ID) {
+      return parseInt(process.env.GITHUB_APP_INSTALLATION_ID);
+    }
+
+    const isStale = Date.now() - this.installationsFetchedAt > INSTALLATION_LOOKUP_TTL;
+    const isUnknown = owner !== undefined && !this.installations?.has(owner.toLowerCase());
+    if (!this.installations || (isStale && isUnknown)) {
+      // Parallel requests share one lookup
+      this.pendingInstallationLookup ??= this.fetchInstallations().finally(() => {
+        this.pendingInstallationLookup = null;
+      });
+      this.installations = await this.pendingInstallationLookup;
+    }
+
+    if (!owner) {
+      return this.installations.values().next().value ?? null;
+    }
+    return this.installations.get(owner.toLowerCase()) ?? null;
+  }
+
+  private async fetchInstallations(): Promise<Map<string, number>> {
+    const installations: { id: number; account: { login: string } }[] = [];
+    for (let page = 1; ; page++) {
+      const batch = await this.appRequest<{ id: number; account: { login: string } }[]>('GET', `/app/installations?per_page=100&page=${page}`);
+      installations.push(...batch);
+      if (batch.length < 100) break;
+    }
+    this.installationsFetchedAt = Date.now();
+    console.log(`🔑 GitHub App installed on ${installations.length} accounts`);
+    return new Map(installations.map(installation => [installation.account.login.toLowerCase(), installation.id]));
+  }
+
+  private async getInstallationToken(installationId: number): Promise<string> {
+    const cached = this.installationTokens.get(installationId);
+    if (cached && cached.expiresAt - Date.now() > TOKEN_REFRESH_MARGIN) {
+      return cached.token;
+    }
+
+    // Parallel requests share one refresh instead of each minting a token
+    let pending = this.pendingInstallationTokens.get(installationId);
+    if (!pending) {
+      pending = this.appRequest<{ token: string; expires_at: string }>('POST', `/app/installations/${installationId}/access_tokens`)
+        .then(({ token, expires_at }) => {
+          const installationToken = { token, expiresAt: new Date(expires_at).getTime() };
+          this.installationTokens.set(installationId, installationToken);
+          console.log(`🔑 Refreshed GitHub App installation token for installation ${installationId} (expires ${expires_at})`);
+          return installationToken;
+        })
+        .finally(() => this.pendingInstallationTokens.delete(installationId));
+      this.pendingInstallationTokens.set(installationId, pending);
+    }
+    return (await pending).token;
+  }
+}
+
+export const githubCredentials = GitHubCredentialsProvider.getInstance();
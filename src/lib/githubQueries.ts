@@ -11,6 +11,29 @@ export const REPOSITORY_FIELDS_FRAGMENT = `
   }
 `;
 
+// Overall CI state of a commit plus its individual check runs (GitHub Actions, Apps) and commit statuses (legacy CI)
+const STATUS_CHECK_ROLLUP_FIELDS = `
+  statusCheckRollup {
+    state
+    contexts(first: 25) {
+      nodes {
+        __typename
+        ... on CheckRun {
+          name
+          status
+          conclusion
+          detailsUrl
+        }
+        ... on StatusContext {
+          context
+          state
+          targetUrl
+        }
+      }
+    }
+  }
+`;
+
 export const COMMIT_FIELDS_FRAGMENT = `
   fragment CommitFields on Commit {
     oid
@@ -24,6 +47,10 @@ export const COMMIT_FIELDS_FRAGMENT = `
       }
     }
     url
+    additions
+    deletions
+    changedFilesIfAvailable
+    ${STATUS_CHECK_ROLLUP_FIELDS}
   }
 `;
 
@@ -35,18 +62,120 @@ export const PULL_REQUEST_FIELDS_FRAGMENT = `
     createdAt
     mergedAt
     state
+    isDraft
+    headRefName
+    headRefOid
+    baseRefName
     author {
       login
     }
+    additions
+    deletions
+    changedFiles
+    labels(first: 10) {
+      nodes {
+        name
+      }
+    }
+    milestone {
+      title
+    }
+    closingIssuesReferences(first: 10) {
+      nodes {
+        number
+        title
+        url
+        repository {
+          nameWithOwner
+        }
+      }
+    }
+    commits(last: 1) {
+      nodes {
+        commit {
+          ${STATUS_CHECK_ROLLUP_FIELDS}
+        }
+      }
+    }
+    firstCommit: commits(first: 1) {
+      nodes {
+        commit {
+          authoredDate
+        }
+      }
+    }
+    readyForReview: timelineItems(itemTypes: [READY_FOR_REVIEW_EVENT], last: 1) {
+      nodes {
+        ... on ReadyForReviewEvent {
+          createdAt
+        }
+      }
+    }
     repository {
       nameWithOwner
       url
     }
+    reviews(first: 50) {
+      nodes {
+        state
+        submittedAt
+        author {
+          login
+        }
+      }
+    }
+    reviewRequests(first: 20) {
+      nodes {
+        requestedReviewer {
+          ... on User {
+            login
+          }
+          ... on Team {
+            name
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const ISSUE_FIELDS_FRAGMENT = `
+  fragment IssueFields on Issue {
+    number
+    title
+    url
+    createdAt
+    closedAt
+    state
+    author {
+      login
+    }
+    labels(first: 10) {
+      nodes {
+        name
+      }
+    }
+    comments {
+      totalCount
+    }
+  }
+`;
+
+export const RATE_LIMIT_FIELDS_FRAGMENT = `
+  fragment RateLimitFields on RateLimit {
+    limit
+    cost
+    remaining
+    used
+    resetAt
   }
 `;
 
 export const GET_USER_INFO_QUERY = `
   query GetUserInfo {
+    rateLimit {
+      ...RateLimitFields
+    }
     viewer {
       login
       name
@@ -74,6 +203,7 @@ export const GET_USER_INFO_QUERY = `
       }
     }
   }
+  ${RATE_LIMIT_FIELDS_FRAGMENT}
 `;
 
 export const GET_REPOSITORIES_QUERY = `
@@ -110,6 +240,31 @@ export const GET_ORGANIZATION_REPOS_QUERY = `
   ${REPOSITORY_FIELDS_FRAGMENT}
 `;
 
+export const GET_USER_REPOS_QUERY = `
+  query GetUserRepos($login: String!, $after: String) {
+    user(login: $login) {
+      repositories(first: 100, after: $after, ownerAffiliations: OWNER, orderBy: {field: PUSHED_AT, direction: DESC}) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          ...RepositoryFields
+        }
+      }
+    }
+  }
+  ${REPOSITORY_FIELDS_FRAGMENT}
+`;
+
+export const GET_REPOSITORY_QUERY = `
+  query GetRepository($owner: String!, $name: String!) {
+    repository(owner: $owner, name: $name) {
+      ...RepositoryFields
+    }
+  }
+  ${REPOSITORY_FIELDS_FRAGMENT}
+`;
 
 // Query to fetch commits from a specific branch since a date (for more efficient branch processing)
 export const GET_BRANCH_COMMITS_SINCE_QUERY = `
@@ -161,9 +316,13 @@ export const GET_MORE_BRANCH_COMMITS_QUERY = `
 `;
 
 export const GET_REPOSITORY_PRS_QUERY = `
-  query GetRepositoryPRs($owner: String!, $name: String!) {
+  query GetRepositoryPRs($owner: String!, $name: String!, $after: String) {
     repository(owner: $owner, name: $name) {
-      pullRequests(first: 100, orderBy: {field: CREATED_AT, direction: DESC}) {
+      pullRequests(first: 100, after: $after, orderBy: {field: CREATED_AT, direction: DESC}) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
         nodes {
           ...PullRequestFields
         }
@@ -173,11 +332,15 @@ export const GET_REPOSITORY_PRS_QUERY = `
   ${PULL_REQUEST_FIELDS_FRAGMENT}
 `;
 
-// Query to fetch PRs updated since a specific date (for incremental sync)
+// Query to fetch PRs ordered by most recently updated (for incremental sync, paged until older than 'since')
 export const GET_REPOSITORY_PRS_SINCE_QUERY = `
-  query GetRepositoryPRsSince($owner: String!, $name: String!) {
+  query GetRepositoryPRsSince($owner: String!, $name: String!, $after: String) {
     repository(owner: $owner, name: $name) {
-      pullRequests(first: 100, orderBy: {field: UPDATED_AT, direction: DESC}) {
+      pullRequests(first: 100, after: $after, orderBy: {field: UPDATED_AT, direction: DESC}) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
         nodes {
           ...PullRequestFields
           updatedAt
@@ -188,6 +351,34 @@ export const GET_REPOSITORY_PRS_SINCE_QUERY = `
   ${PULL_REQUEST_FIELDS_FRAGMENT}
 `;
 
+export const GET_REPOSITORY_ISSUES_QUERY = `
+  query GetRepositoryIssues($owner: String!, $name: String!) {
+    repository(owner: $owner, name: $name) {
+      issues(first: 100, orderBy: {field: CREATED_AT, direction: DESC}) {
+        nodes {
+          ...IssueFields
+        }
+      }
+    }
+  }
+  ${ISSUE_FIELDS_FRAGMENT}
+`;
+
+// Query to fetch issues updated since a specific date (for incremental sync)
+export const GET_REPOSITORY_ISSUES_SINCE_QUERY = `
+  query GetRepositoryIssuesSince($owner: String!, $name: String!, $since: DateTime!) {
+    repository(owner: $owner, name: $name) {
+      issues(first: 100, orderBy: {field: UPDATED_AT, direction: DESC}, filterBy: {since: $since}) {
+        nodes {
+          ...IssueFields
+          updatedAt
+        }
+      }
+    }
+  }
+  ${ISSUE_FIELDS_FRAGMENT}
+`;
+
 
 // Query to get commits from a single branch (for main branch full fetch)
 export const GET_SINGLE_BRANCH_COMMITS_QUERY = `
@@ -213,9 +404,112 @@ export const GET_SINGLE_BRANCH_COMMITS_QUERY = `
   ${COMMIT_FIELDS_FRAGMENT}
 `;
 
+// Newest releases and tags of a repository; annotated tags point at a Tag object, lightweight tags straight at the commit
+export const GET_REPOSITORY_RELEASES_QUERY = `
+  query GetRepositoryReleases($owner: String!, $name: String!, $first: Int!) {
+    repository(owner: $owner, name: $name) {
+      releases(first: $first, orderBy: {field: CREATED_AT, direction: DESC}) {
+        nodes {
+          tagName
+          name
+          url
+          publishedAt
+          isPrerelease
+          isDraft
+          author {
+            login
+          }
+          tagCommit {
+            oid
+            committedDate
+          }
+        }
+      }
+      refs(refPrefix: "refs/tags/", first: $first, orderBy: {field: TAG_COMMIT_DATE, direction: DESC}) {
+        nodes {
+          name
+          target {
+            __typename
+            ... on Commit {
+              oid
+              committedDate
+              author {
+                name
+                user {
+                  login
+                }
+              }
+            }
+            ... on Tag {
+              tagger {
+                name
+                date
+                user {
+                  login
+                }
+              }
+              target {
+                ... on Commit {
+                  oid
+                  committedDate
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Newest deployments with their status history; statuses come back oldest first
+export const GET_REPOSITORY_DEPLOYMENTS_QUERY = `
+  query GetRepositoryDeployments($owner: String!, $name: String!, $first: Int!) {
+    repository(owner: $owner, name: $name) {
+      deployments(first: $first, orderBy: {field: CREATED_AT, direction: DESC}) {
+        nodes {
+          databaseId
+          environment
+          createdAt
+          commitOid
+          ref {
+            name
+          }
+          creator {
+            login
+          }
+          statuses(first: 20) {
+            nodes {
+              state
+              createdAt
+              logUrl
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Diff stats and CI status for commits fetched through the REST Compare API, looked up by node ID in batches of up to 100
+export const GET_COMMIT_STATS_QUERY = `
+  query GetCommitStats($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Commit {
+        oid
+        additions
+        deletions
+        changedFilesIfAvailable
+        ${STATUS_CHECK_ROLLUP_FIELDS}
+      }
+    }
+  }
+`;
+
 // Query to get branches with detailed merge analysis information
+// Ordered newest-first so callers interested in recent activity can stop paging early
 export const GET_BRANCHES_WITH_MERGE_INFO_QUERY = `
-  query GetBranchesWithMergeInfo($owner: String!, $name: String!) {
+  query GetBranchesWithMergeInfo($owner: String!, $name: String!, $after: String) {
     repository(owner: $owner, name: $name) {
       defaultBranchRef {
         name
@@ -226,13 +520,24 @@ export const GET_BRANCHES_WITH_MERGE_INFO_QUERY = `
           }
         }
       }
-      refs(refPrefix: "refs/heads/", first: 50) {
+      refs(refPrefix: "refs/heads/", first: 100, after: $after, orderBy: {field: TAG_COMMIT_DATE, direction: DESC}) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
         nodes {
           name
           target {
             ... on Commit {
               oid
               committedDate
+              messageHeadline
+              author {
+                name
+                user {
+                  login
+                }
+              }
               history(first: 1) {
                 nodes {
                   ... on Commit {
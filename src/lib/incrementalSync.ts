@@ -1,19 +1,94 @@
-import { fetchUserInfo, fetchRepositories, fetchOrganizationRepositories, fetchRepositoryCommits, fetchRepositoryCommitsSince, fetchRepositoryPRs, fetchRepositoryPRsSince, startApiTracking, logApiSummary, generateApiReport } from './githubApi';
+import { fetchUserInfo, fetchRepositories, fetchOrganizationRepositories, fetchUserRepositories, fetchRepository, fetchRepositoryCommits, fetchRepositoryCommitsSince, fetchRepositoryPRs, fetchRepositoryPRsSince, fetchRepositoryIssues, fetchRepositoryIssuesSince, fetchRepositoryReleases, fetchRepositoryDeployments, startApiTracking, logApiSummary, generateApiReport, getBatchDelay, takeRepositoryFailures, PullRequestFetchResult } from './githubApi';
 import { getCachedData, setCachedData, mergeCachedData, getCacheMetadata } from './fileCache';
 import { CONFIG } from './constants';
-import { GitHubRepository, GitHubCommit, GitHubPR } from '@/types/github';
+import { syncEvents } from './syncEvents';
+import { githubCredentials } from './githubCredentials';
+import { getRepositoryConfig, getRepositoryOverride, isRepositoryAllowed, filterToConfiguredRepositories } from './repositoryConfig';
+import { GitHubRepository, GitHubCommit, GitHubPR, GitHubIssue, GitHubRelease, GitHubDeployment, RepositorySyncStatus } from '@/types/github';
 
 export interface SyncResult {
   commits: GitHubCommit[];
   pull_requests: GitHubPR[];
+  issues: GitHubIssue[];
+  releases: GitHubRelease[];
+  deployments: GitHubDeployment[];
   repositories: GitHubRepository[];
   user_info: any;
   isIncremental: boolean;
   newCommitsCount: number;
   newPRsCount: number;
+  newIssuesCount: number;
+  newReleasesCount: number;
+  newDeploymentsCount: number;
+  truncatedRepos: string[];
+  repoStatuses: RepositorySyncStatus[];
   syncTimestamp: string;
 }
 
+// Fetch helpers log and swallow their errors, so failures are read back from the API call tracker
+export function buildRepositoryStatus(repo: string, truncated: boolean, syncTimestamp: string, previous?: RepositorySyncStatus, thrownError?: unknown): RepositorySyncStatus {
+  const errors = takeRepositoryFailures(repo);
+  if (thrownError) {
+    errors.push(thrownError instanceof Error ? thrownError.message : String(thrownError));
+  }
+
+  if (errors.length > 0) {
+    console.warn(`  ⚠️  ${repo} failed to sync: ${errors.join('; ')}`);
+    return { repo, status: 'failed', errors, last_synced_at: previous?.last_synced_at };
+  }
+
+  return { repo, status: truncated ? 'truncated' : 'ok', last_synced_at: syncTimestamp };
+}
+
+// Repositories selected by the repository config (or the token owner's repos plus TARGET_ORGANIZATIONS without one)
+async function discoverRepositories(): Promise<GitHubRepository[]> {
+  const config = getRepositoryConfig();
+  const repoMap = new Map<string, GitHubRepository>();
+  const addRepositories = (repos: GitHubRepository[]) => repos.forEach(repo => repoMap.set(repo.nameWithOwner, repo));
+
+  // The viewer's repositories only make sense for a user token - an App installation's viewer is a bot
+  if (config.includeViewerRepositories && githubCredentials.hasPersonalToken()) {
+    addRepositories(await fetchRepositories());
+  } else if (config.includeViewerRepositories) {
+    console.log('👤 Skipping viewer repositories: no personal access token configured');
+  }
+
+  for (const orgName of config.organizations) {
+    try {
+      addRepositories(await fetchOrganizationRepositories(orgName));
+    } catch (error) {
+      console.warn(`Failed to fetch repositories for org: ${orgName}`, error);
+    }
+  }
+
+  for (const login of config.users) {
+    try {
+      addRepositories(await fetchUserRepositories(login));
+    } catch (error) {
+      console.warn(`Failed to fetch repositories for user: ${login}`, error);
+    }
+  }
+
+  for (const nameWithOwner of config.repositories) {
+    try {
+      const repo = await fetchRepository(nameWithOwner);
+      if (repo) {
+        addRepositories([repo]);
+      } else {
+        console.warn(`Repository ${nameWithOwner} from the repository config was not found`);
+      }
+    } catch (error) {
+      console.warn(`Failed to fetch repository: ${nameWithOwner}`, error);
+    }
+  }
+
+  const repositories = Array.from(repoMap.values()).filter(repo => isRepositoryAllowed(repo.nameWithOwner));
+  if (repositories.length < repoMap.size) {
+    console.log(`🚫 ${repoMap.size - repositories.length} repositories excluded by the repository config`);
+  }
+  return repositories;
+}
+
 // Fetch only new commits since last sync for a specific repository
 async function fetchIncrementalCommits(repo: GitHubRepository, since: string): Promise<GitHubCommit[]> {
   try {
@@ -31,23 +106,38 @@ async function fetchIncrementalCommits(repo: GitHubRepository, since: string): P
 }
 
 // Fetch PRs with status updates since last sync for a specific repository
-async function fetchIncrementalPRs(repo: GitHubRepository, since: string, cachedPRs: GitHubPR[] = []): Promise<GitHubPR[]> {
+async function fetchIncrementalPRs(repo: GitHubRepository, since: string, cachedPRs: GitHubPR[] = []): Promise<PullRequestFetchResult> {
   try {
     console.log(`🔄 Fetching incremental PRs for ${repo.nameWithOwner} since ${since}`);
     
     // Use efficient GitHub API to only fetch PRs created or updated since last sync
-    const updatedPRs = await fetchRepositoryPRsSince(repo, since);
+    const result = await fetchRepositoryPRsSince(repo, since);
     
-    console.log(`🔀 Found ${updatedPRs.length} updated PRs for ${repo.nameWithOwner}`);
-    return updatedPRs;
+    console.log(`🔀 Found ${result.pullRequests.length} updated PRs for ${repo.nameWithOwner}`);
+    return result;
   } catch (error) {
     console.error(`❌ Error fetching incremental PRs for ${repo.nameWithOwner}:`, error);
+    return { pullRequests: [], truncated: false };
+  }
+}
+
+// Fetch issues created or updated since last sync for a specific repository
+async function fetchIncrementalIssues(repo: GitHubRepository, since: string): Promise<GitHubIssue[]> {
+  try {
+    console.log(`🔄 Fetching incremental issues for ${repo.nameWithOwner} since ${since}`);
+    
+    const updatedIssues = await fetchRepositoryIssuesSince(repo, since);
+    
+    console.log(`🐛 Found ${updatedIssues.length} updated issues for ${repo.nameWithOwner}`);
+    return updatedIssues;
+  } catch (error) {
+    console.error(`❌ Error fetching incremental issues for ${repo.nameWithOwner}:`, error);
     return [];
   }
 }
 
 // Perform incremental sync - only fetch new data since last sync
-export async function performIncrementalSync(): Promise<SyncResult> {
+async function runIncrementalSync(): Promise<SyncResult> {
   console.log('🔄 Starting incremental sync...');
   console.time('Incremental Sync');
   
@@ -56,7 +146,7 @@ export async function performIncrementalSync(): Promise<SyncResult> {
   
   if (!cachedData || !metadata) {
     console.log('📂 No cached data found, performing full sync instead');
-    return performFullSync();
+    return runFullSync();
   }
 
   const since = metadata.lastSync;
@@ -67,22 +157,7 @@ export async function performIncrementalSync(): Promise<SyncResult> {
     console.log(`🔄 Refreshing repository metadata for accurate incremental sync...`);
     console.time('Repository Metadata Refresh');
     
-    const targetOrgs = process.env.TARGET_ORGANIZATIONS?.split(',').map(org => org.trim()) || [];
-    const allRepositories: GitHubRepository[] = [];
-
-    // Fetch fresh user repositories
-    const userRepos = await fetchRepositories();
-    allRepositories.push(...userRepos);
-
-    // Fetch fresh organization repositories  
-    for (const orgName of targetOrgs) {
-      try {
-        const orgRepos = await fetchOrganizationRepositories(orgName);
-        allRepositories.push(...orgRepos);
-      } catch (error) {
-        console.warn(`Failed to fetch repositories for org: ${orgName}`, error);
-      }
-    }
+    const allRepositories = await discoverRepositories();
 
     console.log(`📦 Repository metadata refreshed: ${allRepositories.length} repos found`);
     console.timeEnd('Repository Metadata Refresh');
@@ -100,75 +175,138 @@ export async function performIncrementalSync(): Promise<SyncResult> {
       return wasUpdated;
     });
 
+    // Repositories that failed last time are retried from their last good sync, even without new pushes
+    const previousStatuses = new Map((metadata.repoStatuses || []).map(status => [status.repo, status]));
+    const retryRepos = allRepositories.filter(repo =>
+      previousStatuses.get(repo.nameWithOwner)?.status === 'failed' && !updatedRepos.includes(repo)
+    );
+    if (retryRepos.length > 0) {
+      console.log(`🔁 Retrying ${retryRepos.length} repositories that failed during the previous sync`);
+      updatedRepos.push(...retryRepos);
+    }
+
     console.log(`🎯 Found ${updatedRepos.length} repositories updated since last sync (${allRepositories.length} total repositories)`);
     
+    const syncTimestamp = new Date().toISOString();
+    // Repositories with nothing new are up to date as of this sync
+    const skippedStatuses: RepositorySyncStatus[] = allRepositories
+      .filter(repo => !updatedRepos.includes(repo))
+      .map(repo => ({ repo: repo.nameWithOwner, status: 'skipped', last_synced_at: syncTimestamp }));
+    
     if (updatedRepos.length === 0) {
       console.log(`✨ No repositories updated since last sync - returning cached data with refreshed repository metadata`);
       
-      // Still update cached repository data with fresh metadata
-      setCachedData({
-        commits: cachedData.commits,
-        pull_requests: cachedData.pull_requests,
-        repositories: allRepositories, // Use fresh repository metadata
-        user_info: cachedData.user_info
-      }, false);
+      // Still update cached repository data with fresh metadata (and drop repos the config no longer allows)
+      mergeCachedData({ repositories: allRepositories }, [], skippedStatuses, { replaceRepositories: true, retainRepository: isRepositoryAllowed });
+      const configuredData = filterToConfiguredRepositories({ ...cachedData, repositories: allRepositories });
       
       return {
-        commits: cachedData.commits,
-        pull_requests: cachedData.pull_requests,
+        commits: configuredData.commits,
+        pull_requests: configuredData.pull_requests,
+        issues: configuredData.issues,
+        releases: configuredData.releases,
+        deployments: configuredData.deployments,
         repositories: allRepositories, // Return fresh repository metadata
         user_info: cachedData.user_info,
         isIncremental: true,
         newCommitsCount: 0,
         newPRsCount: 0,
-        syncTimestamp: new Date().toISOString()
+        newIssuesCount: 0,
+        newReleasesCount: 0,
+        newDeploymentsCount: 0,
+        truncatedRepos: metadata.truncatedRepos || [],
+        repoStatuses: skippedStatuses,
+        syncTimestamp
       };
     }
 
     // Fetch incremental data for updated repositories
     const incrementalPromises = updatedRepos.map(async (repo) => {
-      const [commits, prs] = await Promise.all([
-        fetchIncrementalCommits(repo, since),
-        fetchIncrementalPRs(repo, since, cachedData.pull_requests)
+      const previousStatus = previousStatuses.get(repo.nameWithOwner);
+      const repoSince = previousStatus?.status === 'failed'
+        ? (previousStatus.last_synced_at || metadata.lastFullSync)
+        : since;
+      
+      takeRepositoryFailures(repo.nameWithOwner); // Discard failures left over from earlier syncs
+      // Releases and deployments have no 'since' filter, but a push rarely adds more than the newest few
+      const [commits, prResult, issues, releases, deployments] = await Promise.all([
+        fetchIncrementalCommits(repo, repoSince),
+        fetchIncrementalPRs(repo, repoSince, cachedData.pull_requests),
+        fetchIncrementalIssues(repo, repoSince),
+        fetchRepositoryReleases(repo, CONFIG.RELEASES_INCREMENTAL_LIMIT),
+        fetchRepositoryDeployments(repo, CONFIG.DEPLOYMENTS_INCREMENTAL_LIMIT)
       ]);
-      return { repo: repo.nameWithOwner, commits, prs };
+      const status = buildRepositoryStatus(repo.nameWithOwner, prResult.truncated, syncTimestamp, previousStatus);
+      return { repo: repo.nameWithOwner, commits, prs: prResult.pullRequests, issues, releases, deployments, truncated: prResult.truncated, status };
     });
 
     const results = await Promise.all(incrementalPromises);
     
-    // Combine all new commits and PRs
+    // Combine all new commits, PRs and issues
     const newCommits: GitHubCommit[] = [];
     const newPRs: GitHubPR[] = [];
+    const newIssues: GitHubIssue[] = [];
+    const newReleases: GitHubRelease[] = [];
+    const newDeployments: GitHubDeployment[] = [];
+    const truncatedRepos: string[] = [];
+    const repoStatuses: RepositorySyncStatus[] = [...skippedStatuses];
     
-    results.forEach(({ repo, commits, prs }) => {
+    // Partial results from failed repos are still merged - the merge never drops previously cached data
+    results.forEach(({ repo, commits, prs, issues, releases, deployments, truncated, status }) => {
       newCommits.push(...commits);
       newPRs.push(...prs);
+      newIssues.push(...issues);
+      newReleases.push(...releases);
+      newDeployments.push(...deployments);
+      repoStatuses.push(status);
+      if (truncated) {
+        truncatedRepos.push(repo);
+      }
     });
 
-    console.log(`✅ Incremental sync found: ${newCommits.length} new commits, ${newPRs.length} new PRs`);
-
-    // Merge with existing cached data
-    const mergedData = mergeCachedData(newCommits, newPRs, allRepositories);
-    
-    // Save merged data to cache (incremental sync)
-    setCachedData({
-      commits: mergedData.commits,
-      pull_requests: mergedData.pull_requests,
-      repositories: allRepositories, // Use fresh repository metadata
-      user_info: cachedData.user_info
-    }, false);
+    // Most fetched releases and deployments are already cached, so only the unknown ones count as new
+    const cachedReleaseKeys = new Set(cachedData.releases.map(release => `${release.repo}-${release.tag}`));
+    const newReleasesCount = newReleases.filter(release => !cachedReleaseKeys.has(`${release.repo}-${release.tag}`)).length;
+    const cachedDeploymentKeys = new Set(cachedData.deployments.map(deployment => `${deployment.repo}-${deployment.id}`));
+    const newDeploymentsCount = newDeployments.filter(deployment => !cachedDeploymentKeys.has(`${deployment.repo}-${deployment.id}`)).length;
+
+    console.log(`✅ Incremental sync found: ${newCommits.length} new commits, ${newPRs.length} new PRs, ${newIssues.length} updated issues, ${newReleasesCount} new releases, ${newDeploymentsCount} new deployments`);
+
+    // Merge into the cache with fresh repository metadata, dropping repos the config no longer allows
+    mergeCachedData({
+      commits: newCommits,
+      pull_requests: newPRs,
+      issues: newIssues,
+      releases: newReleases,
+      deployments: newDeployments,
+      repositories: allRepositories
+    }, truncatedRepos, repoStatuses, { replaceRepositories: true, retainRepository: isRepositoryAllowed });
+    const mergedData = getCachedData() || filterToConfiguredRepositories({ ...cachedData, repositories: allRepositories });
 
     console.timeEnd('Incremental Sync');
 
+    // Open dashboards merge these in place - clients dedupe against what they already show
+    if (newCommits.length > 0 || newPRs.length > 0) {
+      syncEvents.publish({ type: 'activity', commits: newCommits, pull_requests: newPRs, last_sync: syncTimestamp });
+    }
+
     return {
       commits: mergedData.commits,
       pull_requests: mergedData.pull_requests,
+      issues: mergedData.issues,
+      releases: mergedData.releases,
+      deployments: mergedData.deployments,
       repositories: allRepositories, // Return fresh repository metadata
       user_info: cachedData.user_info,
       isIncremental: true,
       newCommitsCount: newCommits.length,
       newPRsCount: newPRs.length,
-      syncTimestamp: new Date().toISOString()
+      newIssuesCount: newIssues.length,
+      newReleasesCount,
+      newDeploymentsCount,
+      truncatedRepos: getCacheMetadata()?.truncatedRepos || truncatedRepos, // Includes gaps left by earlier syncs
+      repoStatuses,
+      syncTimestamp
     };
 
   } catch (error) {
@@ -179,23 +317,36 @@ export async function performIncrementalSync(): Promise<SyncResult> {
     return {
       commits: cachedData.commits,
       pull_requests: cachedData.pull_requests,
+      issues: cachedData.issues,
+      releases: cachedData.releases,
+      deployments: cachedData.deployments,
       repositories: cachedData.repositories,
       user_info: cachedData.user_info,
       isIncremental: true,
       newCommitsCount: 0,
       newPRsCount: 0,
+      newIssuesCount: 0,
+      newReleasesCount: 0,
+      newDeploymentsCount: 0,
+      truncatedRepos: metadata.truncatedRepos || [],
+      repoStatuses: metadata.repoStatuses || [],
       syncTimestamp: metadata.lastSync
     };
   }
 }
 
 // Perform full sync - fetch all data fresh
-export async function performFullSync(): Promise<SyncResult> {
+async function runFullSync(): Promise<SyncResult> {
   console.log('🔄 Starting full sync...');
   console.time('Full Sync');
   
   // Start API tracking
   startApiTracking();
+  
+  // Previous cache is the fallback for any repository that fails this time
+  const previousData = getCachedData();
+  const previousStatuses = new Map((previousData?.metadata.repoStatuses || []).map(status => [status.repo, status]));
+  const syncTimestamp = new Date().toISOString();
 
   try {
     // 1. Fetch user info
@@ -204,26 +355,12 @@ export async function performFullSync(): Promise<SyncResult> {
     console.timeEnd('User Info Query');
 
     // 2. Get target organizations
-    const targetOrgs = process.env.TARGET_ORGANIZATIONS?.split(',').map(org => org.trim()) || [];
+    const targetOrgs = getRepositoryConfig().organizations;
     console.log(`🎯 Target organizations:`, targetOrgs.length > 0 ? targetOrgs.join(', ') : 'None');
 
     // 3. Fetch all repositories
     console.time('Repository Discovery');
-    const allRepositories: GitHubRepository[] = [];
-
-    // Fetch user repositories
-    const userRepos = await fetchRepositories();
-    allRepositories.push(...userRepos);
-
-    // Fetch organization repositories  
-    for (const orgName of targetOrgs) {
-      try {
-        const orgRepos = await fetchOrganizationRepositories(orgName);
-        allRepositories.push(...orgRepos);
-      } catch (error) {
-        console.warn(`Failed to fetch repositories for org: ${orgName}`, error);
-      }
-    }
+    const allRepositories = await discoverRepositories();
 
     console.log(`📦 Repository Discovery: ${allRepositories.length} repos found`);
     console.timeEnd('Repository Discovery');
@@ -235,10 +372,15 @@ export async function performFullSync(): Promise<SyncResult> {
     const sortedRepos = allRepositories
       .sort((a, b) => new Date(b.pushedAt).getTime() - new Date(a.pushedAt).getTime());
 
-    // 5. Fetch commits and PRs for ALL repositories
+    // 5. Fetch commits, PRs and issues for ALL repositories
     console.time('Bulk Data Query');
     const allCommits: GitHubCommit[] = [];
     const allPRs: GitHubPR[] = [];
+    const allIssues: GitHubIssue[] = [];
+    const allReleases: GitHubRelease[] = [];
+    const allDeployments: GitHubDeployment[] = [];
+    const truncatedRepos: string[] = [];
+    const repoStatuses: RepositorySyncStatus[] = [];
 
     // Process repositories in batches to avoid overwhelming the API
     const BATCH_SIZE = 10;
@@ -255,35 +397,85 @@ export async function performFullSync(): Promise<SyncResult> {
       console.log(`🔄 Processing batch ${batchIndex + 1}/${batches.length} (${batch.length} repos)`);
 
       const fetchPromises = batch.map(async (repo) => {
+        const previousStatus = previousStatuses.get(repo.nameWithOwner);
+        takeRepositoryFailures(repo.nameWithOwner); // Discard failures left over from earlier syncs
         try {
           console.log(`  📝 Fetching ${repo.nameWithOwner}...`);
-          const [commits, prs] = await Promise.all([
-            fetchRepositoryCommits(repo),
-            fetchRepositoryPRs(repo)
-          ]);
-          return { commits, prs };
+          // A lookBackDays override limits even a full sync to that window
+          const { lookBackDays } = getRepositoryOverride(repo.nameWithOwner);
+          const lookBackSince = lookBackDays ? new Date(Date.now() - lookBackDays * 24 * 60 * 60 * 1000).toISOString() : null;
+          const [commits, prResult, issues, releases, deployments] = lookBackSince
+            ? await Promise.all([
+              fetchRepositoryCommitsSince(repo, lookBackSince),
+              fetchRepositoryPRsSince(repo, lookBackSince),
+              fetchRepositoryIssuesSince(repo, lookBackSince),
+              fetchRepositoryReleases(repo),
+              fetchRepositoryDeployments(repo)
+            ])
+            : await Promise.all([
+              fetchRepositoryCommits(repo),
+              fetchRepositoryPRs(repo),
+              fetchRepositoryIssues(repo),
+              fetchRepositoryReleases(repo),
+              fetchRepositoryDeployments(repo)
+            ]);
+          const status = buildRepositoryStatus(repo.nameWithOwner, prResult.truncated, syncTimestamp, previousStatus);
+          return { repo: repo.nameWithOwner, commits, prs: prResult.pullRequests, issues, releases, deployments, truncated: prResult.truncated, status };
         } catch (error) {
           console.warn(`  ❌ Failed to fetch data for repo: ${repo.nameWithOwner}`, error);
-          return { commits: [], prs: [] };
+          const status = buildRepositoryStatus(repo.nameWithOwner, false, syncTimestamp, previousStatus, error);
+          return { repo: repo.nameWithOwner, commits: [], prs: [], issues: [], releases: [] as GitHubRelease[], deployments: [] as GitHubDeployment[], truncated: false, status };
         }
       });
 
       const results = await Promise.all(fetchPromises);
       
-      results.forEach(({ commits, prs }) => {
+      results.forEach(({ repo, commits, prs, issues, releases, deployments, truncated, status }) => {
+        // A failed fetch may be partial - keep the previously cached data for that repo instead
+        if (status.status === 'failed' && previousData) {
+          const cachedCommits = previousData.commits.filter(commit => commit.repo === repo);
+          const cachedPRs = previousData.pull_requests.filter(pr => pr.repo === repo);
+          const cachedIssues = previousData.issues.filter(issue => issue.repo === repo);
+          const cachedReleases = previousData.releases.filter(release => release.repo === repo);
+          const cachedDeployments = previousData.deployments.filter(deployment => deployment.repo === repo);
+          if (cachedCommits.length + cachedPRs.length + cachedIssues.length + cachedReleases.length + cachedDeployments.length > 0) {
+            console.log(`  📂 Keeping cached data for ${repo}: ${cachedCommits.length} commits, ${cachedPRs.length} PRs, ${cachedIssues.length} issues, ${cachedReleases.length} releases, ${cachedDeployments.length} deployments`);
+            commits = cachedCommits;
+            prs = cachedPRs;
+            issues = cachedIssues;
+            releases = cachedReleases;
+            deployments = cachedDeployments;
+          }
+        }
+        
         allCommits.push(...commits);
         allPRs.push(...prs);
+        allIssues.push(...issues);
+        allReleases.push(...releases);
+        allDeployments.push(...deployments);
+        repoStatuses.push(status);
+        if (truncated) {
+          truncatedRepos.push(repo);
+        }
       });
 
-      console.log(`  ✅ Batch ${batchIndex + 1} complete: ${allCommits.length} total commits, ${allPRs.length} total PRs`);
+      console.log(`  ✅ Batch ${batchIndex + 1} complete: ${allCommits.length} total commits, ${allPRs.length} total PRs, ${allIssues.length} total issues`);
       
-      // Small delay between batches to be respectful to GitHub API
+      // Delay between batches to be respectful to GitHub API - grows as the next batch's tokens run low
       if (batchIndex < batches.length - 1) {
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        const delay = await getBatchDelay(batches[batchIndex + 1].map(repo => repo.nameWithOwner));
+        await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
 
-    console.log(`✅ Full sync completed: ${allCommits.length} commits, ${allPRs.length} PRs`);
+    console.log(`✅ Full sync completed: ${allCommits.length} commits, ${allPRs.length} PRs, ${allIssues.length} issues, ${allReleases.length} releases, ${allDeployments.length} deployments`);
+    if (truncatedRepos.length > 0) {
+      console.warn(`✂️  ${truncatedRepos.length} repositories hit the PR page cap: ${truncatedRepos.join(', ')}`);
+    }
+    const failedRepos = repoStatuses.filter(status => status.status === 'failed');
+    if (failedRepos.length > 0) {
+      console.warn(`⚠️  ${failedRepos.length} repositories failed to sync: ${failedRepos.map(status => status.repo).join(', ')}`);
+    }
     console.timeEnd('Bulk Data Query');
 
     // Log API call summary and generate report
@@ -297,21 +489,35 @@ export async function performFullSync(): Promise<SyncResult> {
     setCachedData({
       commits: allCommits.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()),
       pull_requests: allPRs.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+      issues: allIssues.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
+      releases: allReleases.sort((a, b) => new Date(b.published_at).getTime() - new Date(a.published_at).getTime()),
+      deployments: allDeployments.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()),
       repositories: allRepositories,
       user_info: userInfo
-    }, true);
+    }, true, truncatedRepos, repoStatuses);
 
     console.timeEnd('Full Sync');
+    
+    // Everything may have changed, so dashboards reload instead of merging
+    syncEvents.publish({ type: 'full_sync', last_sync: syncTimestamp });
 
     return {
       commits: allCommits,
       pull_requests: allPRs,
+      issues: allIssues,
+      releases: allReleases,
+      deployments: allDeployments,
       repositories: allRepositories,
       user_info: userInfo,
       isIncremental: false,
       newCommitsCount: allCommits.length,
       newPRsCount: allPRs.length,
-      syncTimestamp: new Date().toISOString()
+      newIssuesCount: allIssues.length,
+      newReleasesCount: allReleases.length,
+      newDeploymentsCount: allDeployments.length,
+      truncatedRepos,
+      repoStatuses,
+      syncTimestamp
     };
 
   } catch (error) {
@@ -327,4 +533,44 @@ export async function performFullSync(): Promise<SyncResult> {
     
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Sync Lock - only one sync runs per server process; concurrent requests share its result
+type SyncKind = 'incremental' | 'full';
+
+// Kept on globalThis so the scheduler and route handlers share one lock even across module instances
+const syncLock = globalThis as typeof globalThis & { activeSync?: { kind: SyncKind; promise: Promise<SyncResult> } | null };
+
+async function runExclusive(kind: SyncKind, run: () => Promise<SyncResult>): Promise<SyncResult> {
+  while (syncLock.activeSync) {
+    const activeSync = syncLock.activeSync;
+    // A running full sync satisfies an incremental request, but not the other way round
+    if (activeSync.kind === kind || kind === 'incremental') {
+      console.log(`⏳ ${activeSync.kind === 'full' ? 'Full' : 'Incremental'} sync already running - waiting for its result`);
+      return activeSync.promise;
+    }
+    console.log('⏳ Incremental sync running - full sync will start once it finishes');
+    await activeSync.promise.catch(() => undefined);
+  }
+
+  const promise = run().finally(() => {
+    syncLock.activeSync = null;
+  });
+  syncLock.activeSync = { kind, promise };
+  return promise;
+}
+
+// Lets out-of-band cache writers (webhooks) avoid racing a sync that is about to overwrite the cache
+export async function waitForActiveSync(): Promise<void> {
+  while (syncLock.activeSync) {
+    await syncLock.activeSync.promise.catch(() => undefined);
+  }
+}
+
+export function performIncrementalSync(): Promise<SyncResult> {
+  return runExclusive('incremental', runIncrementalSync);
+}
+
+export function performFullSync(): Promise<SyncResult> {
+  return runExclusive('full', runFullSync);
+}
@@ -0,0 +1,147 @@
+import fs from 'fs';
+import path from 'path';
+import { GitHubCommit, GitHubPR } from '@/types/github';
+import { CACHE_DIR, CacheStore, CacheMetadata, CachedDataSet, CachedDataDelta, CacheMergeOptions, CacheMergeCounts, CacheQuery, CacheQueryResult, filterByQuery, mergeDataSet, COMMIT_QUERY_FIELDS, PR_QUERY_FIELDS } from './cacheStore';
+
+const COMMITS_FILE = path.join(CACHE_DIR, 'commits.json');
+const PRS_FILE = path.join(CACHE_DIR, 'pull-requests.json');
+const ISSUES_FILE = path.join(CACHE_DIR, 'issues.json');
+const RELEASES_FILE = path.join(CACHE_DIR, 'releases.json');
+const DEPLOYMENTS_FILE = path.join(CACHE_DIR, 'deployments.json');
+const USER_FILE = path.join(CACHE_DIR, 'user-info.json');
+const REPOS_FILE = path.join(CACHE_DIR, 'repositories.json');
+const METADATA_FILE = path.join(CACHE_DIR, 'metadata.json');
+
+// Ensure cache directory exists
+export function ensureCacheDir() {
+  if (!fs.existsSync(CACHE_DIR)) {
+    fs.mkdirSync(CACHE_DIR, { recursive: true });
+    console.log(`📁 Created cache directory: ${CACHE_DIR}`);
+  }
+}
+
+export function readJsonFile<T>(file: string, fallback: T): T {
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : fallback;
+}
+
+// Write to a temp file and rename over the target - readers only ever see a complete file
+export function writeJsonFileAtomic(file: string, data: unknown) {
+  const tempFile = `${file}.${process.pid}.${Date.now()}.tmp`;
+  try {
+    fs.writeFileSync(tempFile, JSON.stringify(data, null, 2));
+    fs.renameSync(tempFile, file);
+  } catch (error) {
+    if (fs.existsSync(tempFile)) {
+      fs.unlinkSync(tempFile);
+    }
+    throw error;
+  }
+}
+
+// Temp files are named `<file>.<pid>.<timestamp>.tmp`; another server process may be mid-write on its own
+const TEMP_FILE_PATTERN = /\.(\d+)\.(\d+)\.tmp$/;
+const STALE_TEMP_FILE_MS = 10 * 60 * 1000; // 10 minutes
+
+function isStaleTempFile(file: string): boolean {
+  const match = TEMP_FILE_PATTERN.exec(file);
+  if (!match) return false;
+  const [, pid, writtenAt] = match;
+  return Number(pid) !== process.pid && Date.now() - Number(writtenAt) > STALE_TEMP_FILE_MS;
+}
+
+const DATA_FILES = [COMMITS_FILE, PRS_FILE, ISSUES_FILE, RELEASES_FILE, DEPLOYMENTS_FILE, USER_FILE, REPOS_FILE, METADATA_FILE];
+
+// JSON Cache Store - one pretty-printed file per collection, rewritten in full on every sync
+export class JsonCacheStore implements CacheStore {
+  readonly backend = 'json' as const;
+
+  readMetadata(): CacheMetadata | null {
+    ensureCacheDir();
+    return readJsonFile<CacheMetadata | null>(METADATA_FILE, null);
+  }
+
+  writeMetadata(metadata: CacheMetadata) {
+    ensureCacheDir();
+    writeJsonFileAtomic(METADATA_FILE, metadata);
+  }
+
+  readData(): CachedDataSet {
+    ensureCacheDir();
+    return {
+      commits: readJsonFile(COMMITS_FILE, []),
+      pull_requests: readJsonFile(PRS_FILE, []),
+      issues: readJsonFile(ISSUES_FILE, []),
+      releases: readJsonFile(RELEASES_FILE, []),
+      deployments: readJsonFile(DEPLOYMENTS_FILE, []),
+      user_info: readJsonFile(USER_FILE, null),
+      repositories: readJsonFile(REPOS_FILE, [])
+    };
+  }
+
+  writeData(data: CachedDataSet, metadata: CacheMetadata) {
+    ensureCacheDir();
+    writeJsonFileAtomic(COMMITS_FILE, data.commits);
+    writeJsonFileAtomic(PRS_FILE, data.pull_requests);
+    writeJsonFileAtomic(ISSUES_FILE, data.issues);
+    writeJsonFileAtomic(RELEASES_FILE, data.releases);
+    writeJsonFileAtomic(DEPLOYMENTS_FILE, data.deployments);
+    writeJsonFileAtomic(USER_FILE, data.user_info);
+    writeJsonFileAtomic(REPOS_FILE, data.repositories);
+    // Metadata last, so a crash mid-write leaves the previous sync timestamp in place
+    this.writeMetadata(metadata);
+  }
+
+  // Every collection is one file, so merging means reading and rewriting all of them
+  mergeData(delta: CachedDataDelta, metadata: CacheMetadata, options?: CacheMergeOptions): CacheMergeCounts {
+    const { data, counts } = mergeDataSet(this.readData(), delta, options);
+    this.writeData(data, metadata);
+    return counts;
+  }
+
+  queryCommits(query: CacheQuery): CacheQueryResult<GitHubCommit> {
+    return filterByQuery<GitHubCommit>(readJsonFile(COMMITS_FILE, []), query, COMMIT_QUERY_FIELDS);
+  }
+
+  queryPullRequests(query: CacheQuery): CacheQueryResult<GitHubPR> {
+    return filterByQuery<GitHubPR>(readJsonFile(PRS_FILE, []), query, PR_QUERY_FIELDS);
+  }
+
+  clear() {
+    DATA_FILES.forEach(file => {
+      if (fs.existsSync(file)) {
+        fs.unlinkSync(file);
+      }
+    });
+  }
+
+  verifyIntegrity(): boolean {
+    ensureCacheDir();
+
+    // Old temp files from other processes mean a write was interrupted before its rename - the target file is still intact
+    fs.readdirSync(CACHE_DIR)
+      .filter(isStaleTempFile)
+      .forEach(file => {
+        console.warn(`🧹 Removing leftover temp file from an interrupted write: ${file}`);
+        try {
+          fs.unlinkSync(path.join(CACHE_DIR, file));
+        } catch (error) {
+          console.warn(`⚠️  Could not remove ${file}:`, error);
+        }
+      });
+
+    let intact = true;
+    DATA_FILES.forEach(file => {
+      if (!fs.existsSync(file)) return;
+      try {
+        JSON.parse(fs.readFileSync(file, 'utf8'));
+      } catch {
+        // Keep the broken file around for inspection instead of deleting it
+        const corruptFile = `${file}.corrupt-${Date.now()}`;
+        fs.renameSync(file, corruptFile);
+        console.error(`💥 Cache file ${path.basename(file)} is half-written or corrupt, moved to ${path.basename(corruptFile)}`);
+        intact = false;
+      }
+    });
+    return intact;
+  }
+}
@@ -0,0 +1,46 @@
+import path from 'path';
+import { CACHE_DIR } from './cacheStore';
+import { ensureCacheDir, readJsonFile, writeJsonFileAtomic } from './jsonCacheStore';
+import { ProfileCache, BranchMergeCacheEntry } from '@/types/profiling';
+
+const PROFILES_FILE = path.join(CACHE_DIR, 'repository-profiles.json');
+const BRANCH_ANALYSIS_FILE = path.join(CACHE_DIR, 'branch-merge-analysis.json');
+
+// Profiling state is only an optimization - an unreadable file just means analyzing again
+function loadEntries<T>(file: string): Map<string, T> {
+  try {
+    const entries = new Map(Object.entries(readJsonFile<Record<string, T>>(file, {})));
+    if (entries.size > 0) {
+      console.log(`📋 Loaded ${entries.size} entries from ${path.basename(file)}`);
+    }
+    return entries;
+  } catch (error) {
+    console.warn(`⚠️  Ignoring unreadable ${path.basename(file)}:`, error);
+    return new Map();
+  }
+}
+
+function saveEntries<T>(file: string, entries: Map<string, T>) {
+  try {
+    ensureCacheDir();
+    writeJsonFileAtomic(file, Object.fromEntries(entries));
+  } catch (error) {
+    console.error(`Error saving ${path.basename(file)}:`, error);
+  }
+}
+
+export function loadRepositoryProfiles(): Map<string, ProfileCache> {
+  return loadEntries<ProfileCache>(PROFILES_FILE);
+}
+
+export function saveRepositoryProfiles(profiles: Map<string, ProfileCache>) {
+  saveEntries(PROFILES_FILE, profiles);
+}
+
+export function loadBranchMergeAnalysis(): Map<string, BranchMergeCacheEntry> {
+  return loadEntries<BranchMergeCacheEntry>(BRANCH_ANALYSIS_FILE);
+}
+
+export function saveBranchMergeAnalysis(entries: Map<string, BranchMergeCacheEntry>) {
+  saveEntries(BRANCH_ANALYSIS_FILE, entries);
+}
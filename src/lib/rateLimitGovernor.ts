@@ -0,0 +1,171 @@
+import { CONFIG } from './constants';
+import { RateLimitInfo } from '@/types/github';
+
+// Every route bundle throttles against the same GitHub budgets, so the governor lives on globalThis
+const globalForRateLimit = globalThis as typeof globalThis & { rateLimitGovernor?: RateLimitGovernor };
+
+// GitHub keeps a separate budget per token (org tokens, each App installation, GITHUB_TOKEN)
+interface TokenBudget {
+  limit: number | null;
+  remaining: number | null;
+  used: number | null;
+  resetAt: number | null; // epoch ms
+  observedAt: number | null;
+  pausedUntil: number;
+}
+
+// A budget nobody has reported on for an hour belongs to a finished window or a rotated installation token
+const STALE_BUDGET_AGE = 60 * 60 * 1000;
+
+// Rate Limit Governor - tracks GitHub's point budget per token and throttles requests before we hit the wall
+class RateLimitGovernor {
+  private budgets = new Map<string, TokenBudget>();
+
+  static getInstance(): RateLimitGovernor {
+    if (!globalForRateLimit.rateLimitGovernor) {
+      globalForRateLimit.rateLimitGovernor = new RateLimitGovernor();
+    }
+    return globalForRateLimit.rateLimitGovernor;
+  }
+
+  // X-RateLimit-* headers are returned on every GraphQL response
+  updateFromHeaders(token: string, headers: Headers) {
+    const limit = headers.get('x-ratelimit-limit');
+    const remaining = headers.get('x-ratelimit-remaining');
+    const used = headers.get('x-ratelimit-used');
+    const reset = headers.get('x-ratelimit-reset');
+
+    if (remaining === null) return;
+
+    const budget = this.getBudget(token);
+    budget.limit = limit !== null ? parseInt(limit) : budget.limit;
+    budget.remaining = parseInt(remaining);
+    budget.used = used !== null ? parseInt(used) : budget.used;
+    budget.resetAt = reset !== null ? parseInt(reset) * 1000 : budget.resetAt;
+    budget.observedAt = Date.now();
+  }
+
+  // Queries that select the rateLimit object give us the same data in the response body
+  updateFromGraphQL(token: string, rateLimit: { limit?: number; remaining?: number; used?: number; resetAt?: string } | undefined) {
+    if (!rateLimit || rateLimit.remaining === undefined) return;
+
+    const budget = this.getBudget(token);
+    budget.limit = rateLimit.limit ?? budget.limit;
+    budget.remaining = rateLimit.remaining;
+    budget.used = rateLimit.used ?? budget.used;
+    budget.resetAt = rateLimit.resetAt ? new Date(rateLimit.resetAt).getTime() : budget.resetAt;
+    budget.observedAt = Date.now();
+  }
+
+  // Returns how long to wait (ms) before retrying a rate-limited response, or null if it isn't one
+  getRateLimitWait(token: string, status: number, headers: Headers, errorMessage: string = ''): number | null {
+    const retryAfter = headers.get('retry-after');
+    const isSecondaryLimit = /secondary rate limit|abuse detection/i.test(errorMessage);
+    const isPrimaryLimit = headers.get('x-ratelimit-remaining') === '0' || /RATE_LIMITED|API rate limit exceeded/i.test(errorMessage);
+
+    if ((status === 403 || status === 429) && retryAfter) {
+      return parseInt(retryAfter) * 1000;
+    }
+
+    if (isSecondaryLimit) {
+      return CONFIG.SECONDARY_RATE_LIMIT_WAIT;
+    }
+
+    if (isPrimaryLimit) {
+      return this.getMsUntilReset(this.getBudget(token)) ?? CONFIG.SECONDARY_RATE_LIMIT_WAIT;
+    }
+
+    return null;
+  }
+
+  // Stops every request made with this token from going out until the given time has passed
+  pause(token: string, ms: number, reason: string) {
+    const budget = this.getBudget(token);
+    const cappedMs = Math.min(ms, CONFIG.RATE_LIMIT_MAX_WAIT);
+    budget.pausedUntil = Math.max(budget.pausedUntil, Date.now() + cappedMs);
+    console.warn(`⏸️  GitHub rate limit: pausing requests for ${(cappedMs / 1000).toFixed(0)}s (${reason})`);
+  }
+
+  // Called before every request with the token it will use - sleeps while that token is paused or nearly exhausted
+  async waitForBudget(token: string): Promise<number> {
+    const budget = this.getBudget(token);
+    if (budget.remaining !== null && budget.remaining <= CONFIG.RATE_LIMIT_PAUSE_THRESHOLD) {
+      const untilReset = this.getMsUntilReset(budget);
+      if (untilReset && untilReset > 0) {
+        this.pause(token, untilReset, `only ${budget.remaining} points left`);
+        // Assume the budget is restored once we've waited out the reset window
+        budget.remaining = null;
+      }
+    }
+
+    const waitMs = budget.pausedUntil - Date.now();
+    if (waitMs <= 0) return 0;
+
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+    return waitMs;
+  }
+
+  // Delay between full-sync batches: 1s normally, stretched out as the token's budget runs low.
+  // Without a token, the lowest budget decides
+  getBatchDelay(token?: string): number {
+    const baseDelay = CONFIG.SYNC_BATCH_DELAY;
+    const remaining = token ? this.budgets.get(token)?.remaining ?? null : this.getLowestBudget()?.remaining ?? null;
+    if (remaining === null || remaining >= CONFIG.RATE_LIMIT_SLOWDOWN_THRESHOLD) {
+      return baseDelay;
+    }
+
+    const range = CONFIG.RATE_LIMIT_SLOWDOWN_THRESHOLD - CONFIG.RATE_LIMIT_PAUSE_THRESHOLD;
+    const depletion = 1 - Math.max(0, remaining - CONFIG.RATE_LIMIT_PAUSE_THRESHOLD) / range;
+    return Math.round(baseDelay + depletion * (CONFIG.RATE_LIMIT_MAX_BATCH_DELAY - baseDelay));
+  }
+
+  // One token's budget, or the lowest one (a paused budget first) for the dashboard
+  getStatus(token?: string): RateLimitInfo | null {
+    const budget = token ? this.budgets.get(token) : this.getLowestBudget();
+    if (!budget || (budget.observedAt === null && budget.pausedUntil <= Date.now())) return null;
+
+    return {
+      limit: budget.limit ?? undefined,
+      remaining: budget.remaining ?? undefined,
+      used: budget.used ?? undefined,
+      reset_at: budget.resetAt ? new Date(budget.resetAt).toISOString() : undefined,
+      observed_at: budget.observedAt ? new Date(budget.observedAt).toISOString() : undefined,
+      paused_until: budget.pausedUntil > Date.now() ? new Date(budget.pausedUntil).toISOString() : undefined
+    };
+  }
+
+  private getBudget(token: string): TokenBudget {
+    let budget = this.budgets.get(token);
+    if (!budget) {
+      this.pruneStaleBudgets();
+      budget = { limit: null, remaining: null, used: null, resetAt: null, observedAt: null, pausedUntil: 0 };
+      this.budgets.set(token, budget);
+    }
+    return budget;
+  }
+
+  private pruneStaleBudgets() {
+    const now = Date.now();
+    this.budgets.forEach((budget, token) => {
+      if (budget.pausedUntil <= now && (budget.observedAt === null || now - budget.observedAt > STALE_BUDGET_AGE)) {
+        this.budgets.delete(token);
+      }
+    });
+  }
+
+  private getLowestBudget(): TokenBudget | undefined {
+    const now = Date.now();
+    const fraction = (budget: TokenBudget) => budget.remaining === null ? Infinity : budget.remaining / (budget.limit || 1);
+    return Array.from(this.budgets.values())
+      .filter(budget => budget.observedAt !== null || budget.pausedUntil > now)
+      .sort((a, b) => Number(b.pausedUntil > now) - Number(a.pausedUntil > now) || fraction(a) - fraction(b))[0];
+  }
+
+  private getMsUntilReset(budget: TokenBudget): number | null {
+    if (!budget.resetAt) return null;
+    // Small buffer so we don't wake up a moment before GitHub actually resets the window
+    return Math.max(0, budget.resetAt - Date.now() + 1000);
+  }
+}
+
+export const rateLimitGovernor = RateLimitGovernor.getInstance();
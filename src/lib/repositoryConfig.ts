@@ -0,0 +1,252 @@
+import fs from 'fs';
+import path from 'path';
+import { GitHubCommit, GitHubIssue, GitHubPR, GitHubRelease, GitHubDeployment, GitHubRepository } from '@/types/github';
+
+export const REPOSITORY_CONFIG_FILE = path.resolve(process.cwd(), process.env.REPOSITORY_CONFIG_FILE || 'github-dashboard.config.json');
+
+export interface RepositoryOverride {
+  lookBackDays?: number;           // Full syncs only fetch this many days of history
+  excludeBranchPrefixes?: string[]; // Replaces EXCLUDE_BRANCH_PREFIXES for matching repositories
+  includeBranches?: string[];      // Glob patterns; when set, only matching branches are synced
+}
+
+export interface RepositoryConfig {
+  includeViewerRepositories: boolean;
+  organizations: string[];
+  users: string[];
+  repositories: string[];          // Explicit owner/name entries, synced even if no include pattern matches
+  include: string[];               // owner/name globs; a leading ! excludes instead
+  exclude: string[];
+  overrides: Record<string, RepositoryOverride>; // Keys are owner/name globs, applied in order
+  groups: Record<string, string[]>; // Group name to owner/name globs, for metrics reported per group
+}
+
+interface RepositoryScopedData {
+  commits: GitHubCommit[];
+  pull_requests: GitHubPR[];
+  issues: GitHubIssue[];
+  releases: GitHubRelease[];
+  deployments: GitHubDeployment[];
+  repositories: GitHubRepository[];
+}
+
+interface CompiledConfig {
+  config: RepositoryConfig;
+  explicit: Set<string>;
+  includePatterns: RegExp[];
+  excludePatterns: RegExp[];
+  overrides: { pattern: RegExp; override: RepositoryOverride }[];
+  groups: { name: string; patterns: RegExp[] }[];
+}
+
+let compiledConfig: CompiledConfig | null = null;
+
+// `*` and `?` stay within one path segment, so `acme/*` never matches across owners
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split('')
+    .map(char => char === '*' ? '[^/]*' : char === '?' ? '[^/]' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.trim().length > 0);
+}
+
+// Without a config file, fall back to the environment: the token owner's repositories plus TARGET_ORGANIZATIONS
+function getEnvironmentConfig(): RepositoryConfig {
+  return {
+    includeViewerRepositories: true,
+    organizations: process.env.TARGET_ORGANIZATIONS?.split(',').map(org => org.trim()).filter(Boolean) || [],
+    users: [],
+    repositories: [],
+    include: [],
+    exclude: [],
+    overrides: {},
+    groups: {}
+  };
+}
+
+// Returns every problem at once so a broken config can be fixed in one pass
+export function validateRepositoryConfig(raw: any): string[] {
+  const errors: string[] = [];
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return ['Config must be a JSON object'];
+  }
+
+  const knownKeys = ['includeViewerRepositories', 'organizations', 'users', 'repositories', 'include', 'exclude', 'overrides', 'groups'];
+  Object.keys(raw).filter(key => !knownKeys.includes(key)).forEach(key => errors.push(`Unknown key "${key}"`));
+
+  if (raw.includeViewerRepositories !== undefined && typeof raw.includeViewerRepositories !== 'boolean') {
+    errors.push('"includeViewerRepositories" must be true or false');
+  }
+  ['organizations', 'users', 'repositories', 'include', 'exclude'].forEach(key => {
+    if (raw[key] !== undefined && !isStringArray(raw[key])) {
+      errors.push(`"${key}" must be an array of non-empty strings`);
+    }
+  });
+  if (isStringArray(raw.repositories)) {
+    raw.repositories
+      .filter((repo: string) => !/^[\w.-]+\/[\w.-]+$/.test(repo))
+      .forEach((repo: string) => errors.push(`"repositories" entry "${repo}" must be owner/name without wildcards`));
+  }
+
+  if (raw.overrides !== undefined) {
+    if (typeof raw.overrides !== 'object' || raw.overrides === null || Array.isArray(raw.overrides)) {
+      errors.push('"overrides" must be an object keyed by owner/name pattern');
+    } else {
+      Object.entries(raw.overrides).forEach(([pattern, override]: [string, any]) => {
+        if (typeof override !== 'object' || override === null || Array.isArray(override)) {
+          errors.push(`Override "${pattern}" must be an object`);
+          return;
+        }
+        const overrideKeys = ['lookBackDays', 'excludeBranchPrefixes', 'includeBranches'];
+        Object.keys(override).filter(key => !overrideKeys.includes(key)).forEach(key => errors.push(`Override "${pattern}" has unknown key "${key}"`));
+        if (override.lookBackDays !== undefined && (!Number.isInteger(override.lookBackDays) || override.lookBackDays < 1)) {
+          errors.push(`Override "${pattern}": "lookBackDays" must be a positive integer`);
+        }
+        ['excludeBranchPrefixes', 'includeBranches'].forEach(key => {
+          if (override[key] !== undefined && !isStringArray(override[key])) {
+            errors.push(`Override "${pattern}": "${key}" must be an array of non-empty strings`);
+          }
+        });
+      });
+    }
+  }
+
+  if (raw.groups !== undefined) {
+    if (typeof raw.groups !== 'object' || raw.groups === null || Array.isArray(raw.groups)) {
+      errors.push('"groups" must be an object keyed by group name');
+    } else {
+      Object.entries(raw.groups)
+        .filter(([, patterns]) => !isStringArray(patterns))
+        .forEach(([name]) => errors.push(`Group "${name}" must be an array of owner/name patterns`));
+    }
+  }
+
+  const hasSource = raw.includeViewerRepositories !== false ||
+    [raw.organizations, raw.users, raw.repositories].some(list => Array.isArray(list) && list.length > 0);
+  if (errors.length === 0 && !hasSource) {
+    errors.push('No repositories to sync: list organizations, users or repositories, or enable includeViewerRepositories');
+  }
+
+  return errors;
+}
+
+function compileConfig(config: RepositoryConfig): CompiledConfig {
+  const patterns = [...config.include, ...config.exclude.map(pattern => `!${pattern}`)];
+  return {
+    config,
+    explicit: new Set(config.repositories.map(repo => repo.toLowerCase())),
+    includePatterns: patterns.filter(pattern => !pattern.startsWith('!')).map(globToRegExp),
+    excludePatterns: patterns.filter(pattern => pattern.startsWith('!')).map(pattern => globToRegExp(pattern.slice(1))),
+    overrides: Object.entries(config.overrides).map(([pattern, override]) => ({ pattern: globToRegExp(pattern), override })),
+    groups: Object.entries(config.groups).map(([name, patterns]) => ({ name, patterns: patterns.map(globToRegExp) }))
+  };
+}
+
+// Reads and validates the config file once per process; throws with every validation error
+function loadConfig(): CompiledConfig {
+  if (compiledConfig) return compiledConfig;
+
+  if (!fs.existsSync(REPOSITORY_CONFIG_FILE)) {
+    compiledConfig = compileConfig(getEnvironmentConfig());
+    return compiledConfig;
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(REPOSITORY_CONFIG_FILE, 'utf8'));
+  } catch (error) {
+    throw new Error(`Invalid repository config ${REPOSITORY_CONFIG_FILE}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const errors = validateRepositoryConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid repository config ${REPOSITORY_CONFIG_FILE}:\n  - ${errors.join('\n  - ')}`);
+  }
+
+  const config: RepositoryConfig = {
+    includeViewerRepositories: raw.includeViewerRepositories ?? true,
+    organizations: raw.organizations || [],
+    users: raw.users || [],
+    repositories: raw.repositories || [],
+    include: raw.include || [],
+    exclude: raw.exclude || [],
+    overrides: raw.overrides || {},
+    groups: raw.groups || {}
+  };
+  console.log(`🗂️  Loaded repository config from ${REPOSITORY_CONFIG_FILE}: ${config.organizations.length} orgs, ${config.users.length} users, ${config.repositories.length} explicit repos`);
+
+  compiledConfig = compileConfig(config);
+  return compiledConfig;
+}
+
+export function getRepositoryConfig(): RepositoryConfig {
+  return loadConfig().config;
+}
+
+export function isRepositoryAllowed(nameWithOwner: string): boolean {
+  const { explicit, includePatterns, excludePatterns } = loadConfig();
+
+  if (excludePatterns.some(pattern => pattern.test(nameWithOwner))) return false;
+  if (explicit.has(nameWithOwner.toLowerCase())) return true;
+  return includePatterns.length === 0 || includePatterns.some(pattern => pattern.test(nameWithOwner));
+}
+
+// Later matching overrides win for keys they set
+export function getRepositoryOverride(nameWithOwner: string): RepositoryOverride {
+  return loadConfig().overrides
+    .filter(({ pattern }) => pattern.test(nameWithOwner))
+    .reduce<RepositoryOverride>((merged, { override }) => ({ ...merged, ...override }), {});
+}
+
+export function isBranchIncluded(repo: GitHubRepository, branchName: string): boolean {
+  const override = getRepositoryOverride(repo.nameWithOwner);
+
+  const excludePrefixes = override.excludeBranchPrefixes ?? (process.env.EXCLUDE_BRANCH_PREFIXES
+    ? process.env.EXCLUDE_BRANCH_PREFIXES.split(',').map(prefix => prefix.trim()).filter(Boolean)
+    : []);
+  if (excludePrefixes.some(prefix => branchName.toLowerCase().startsWith(prefix.toLowerCase()))) {
+    return false;
+  }
+
+  // The default branch is always synced, whatever includeBranches says
+  if (!override.includeBranches || branchName === repo.defaultBranch) return true;
+  return override.includeBranches.some(pattern => globToRegExp(pattern).test(branchName));
+}
+
+// Repository names per configured group (a repository may be in several); without groups, one group per owner
+export function getRepositoryGroups(repositories: GitHubRepository[]): Record<string, string[]> {
+  const { groups } = loadConfig();
+  const result: Record<string, string[]> = {};
+  const addToGroup = (group: string, repo: string) => {
+    result[group] = [...(result[group] || []), repo];
+  };
+
+  repositories.forEach(({ nameWithOwner }) => {
+    if (groups.length === 0) {
+      addToGroup(nameWithOwner.split('/')[0], nameWithOwner);
+      return;
+    }
+    groups
+      .filter(({ patterns }) => patterns.some(pattern => pattern.test(nameWithOwner)))
+      .forEach(({ name }) => addToGroup(name, nameWithOwner));
+  });
+
+  return result;
+}
+
+// Drops cached data for repositories the config no longer allows
+export function filterToConfiguredRepositories<D extends RepositoryScopedData>(data: D): D {
+  return {
+    ...data,
+    commits: data.commits.filter(commit => isRepositoryAllowed(commit.repo)),
+    pull_requests: data.pull_requests.filter(pr => isRepositoryAllowed(pr.repo)),
+    issues: data.issues.filter(issue => isRepositoryAllowed(issue.repo)),
+    releases: data.releases.filter(release => isRepositoryAllowed(release.repo)),
+    deployments: data.deployments.filter(deployment => isRepositoryAllowed(deployment.repo)),
+    repositories: data.repositories.filter(repo => isRepositoryAllowed(repo.nameWithOwner))
+  };
+}
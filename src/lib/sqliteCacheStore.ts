@@ -0,0 +1,341 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { GitHubCommit, GitHubPR } from '@/types/github';
+import { CACHE_DIR, CacheStore, CacheMetadata, CachedDataSet, CachedDataDelta, CacheMergeOptions, CacheMergeCounts, CacheQuery, CacheQueryResult } from './cacheStore';
+
+const DATABASE_FILE = path.join(CACHE_DIR, 'cache.db');
+
+// Each row keeps the full record as JSON; the extra columns exist only to be indexed
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS commits (
+    repo TEXT NOT NULL,
+    sha TEXT NOT NULL,
+    author TEXT NOT NULL,
+    date TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (repo, sha)
+  );
+  CREATE INDEX IF NOT EXISTS idx_commits_date ON commits (date DESC);
+  CREATE INDEX IF NOT EXISTS idx_commits_author_date ON commits (author, date DESC);
+  CREATE INDEX IF NOT EXISTS idx_commits_repo_date ON commits (repo, date DESC);
+
+  CREATE TABLE IF NOT EXISTS pull_requests (
+    repo TEXT NOT NULL,
+    number INTEGER NOT NULL,
+    author TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (repo, number)
+  );
+  CREATE INDEX IF NOT EXISTS idx_prs_created_at ON pull_requests (created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_prs_author_created_at ON pull_requests (author, created_at DESC);
+  CREATE INDEX IF NOT EXISTS idx_prs_repo_created_at ON pull_requests (repo, created_at DESC);
+
+  CREATE TABLE IF NOT EXISTS issues (
+    repo TEXT NOT NULL,
+    number INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (repo, number)
+  );
+
+  CREATE TABLE IF NOT EXISTS releases (
+    repo TEXT NOT NULL,
+    tag TEXT NOT NULL,
+    published_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (repo, tag)
+  );
+
+  CREATE TABLE IF NOT EXISTS deployments (
+    repo TEXT NOT NULL,
+    id INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (repo, id)
+  );
+
+  CREATE TABLE IF NOT EXISTS repositories (
+    name_with_owner TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  -- Single-value entries: metadata and user_info
+  CREATE TABLE IF NOT EXISTS kv (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+`;
+
+// How a record maps onto its table: key columns first, the JSON record last
+interface TableSpec<T> {
+  table: string;
+  columns: string[];
+  keyColumns: number;
+  row: (item: T) => (string | number)[];
+}
+
+type RecordTable = keyof Omit<CachedDataSet, 'user_info'>;
+
+const TABLES: { [K in RecordTable]: TableSpec<CachedDataSet[K][number]> } = {
+  commits: {
+    table: 'commits',
+    columns: ['repo', 'sha', 'author', 'date', 'data'],
+    keyColumns: 2,
+    row: commit => [commit.repo, commit.sha, commit.author, commit.date, JSON.stringify(commit)]
+  },
+  pull_requests: {
+    table: 'pull_requests',
+    columns: ['repo', 'number', 'author', 'created_at', 'data'],
+    keyColumns: 2,
+    row: pr => [pr.repo, pr.number, pr.author, pr.created_at, JSON.stringify(pr)]
+  },
+  issues: {
+    table: 'issues',
+    columns: ['repo', 'number', 'created_at', 'data'],
+    keyColumns: 2,
+    row: issue => [issue.repo, issue.number, issue.created_at, JSON.stringify(issue)]
+  },
+  releases: {
+    table: 'releases',
+    columns: ['repo', 'tag', 'published_at', 'data'],
+    keyColumns: 2,
+    row: release => [release.repo, release.tag, release.published_at, JSON.stringify(release)]
+  },
+  deployments: {
+    table: 'deployments',
+    columns: ['repo', 'id', 'created_at', 'data'],
+    keyColumns: 2,
+    row: deployment => [deployment.repo, deployment.id, deployment.created_at, JSON.stringify(deployment)]
+  },
+  repositories: {
+    table: 'repositories',
+    columns: ['name_with_owner', 'data'],
+    keyColumns: 1,
+    row: repo => [repo.nameWithOwner, JSON.stringify(repo)]
+  }
+};
+
+const RECORD_TABLES = Object.keys(TABLES) as RecordTable[];
+
+// Rows whose JSON is unchanged are left alone, so a sync only writes what actually changed
+function upsertSql({ table, columns, keyColumns }: TableSpec<unknown>): string {
+  const updates = columns.slice(keyColumns).map(column => `${column} = excluded.${column}`).join(', ');
+  return `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})
+    ON CONFLICT (${columns.slice(0, keyColumns).join(', ')}) DO UPDATE SET ${updates} WHERE ${table}.data IS NOT excluded.data`;
+}
+
+// SQL expressions for filters that aren't plain indexed columns
+interface QueryColumns {
+  date: string;
+  branches: string[];
+  state?: string;
+  text: string[];
+}
+
+const COMMIT_COLUMNS: QueryColumns = {
+  date: 'date',
+  branches: ["json_extract(data, '$.branch_name')"],
+  text: ["json_extract(data, '$.message')", 'sha']
+};
+
+const PR_COLUMNS: QueryColumns = {
+  date: 'created_at',
+  branches: ["json_extract(data, '$.head_branch')", "json_extract(data, '$.base_branch')"],
+  state: "json_extract(data, '$.state')",
+  text: ["json_extract(data, '$.title')"]
+};
+
+function buildWhereClause(query: CacheQuery, columns: QueryColumns) {
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (query.repo) {
+    conditions.push('repo = @repo');
+    params.repo = query.repo;
+  }
+  if (query.author) {
+    conditions.push('author = @author');
+    params.author = query.author;
+  }
+  if (query.branch) {
+    conditions.push(`(${columns.branches.map(column => `${column} = @branch`).join(' OR ')})`);
+    params.branch = query.branch;
+  }
+  if (query.state) {
+    // Commits have no state, so a state filter matches nothing rather than everything
+    conditions.push(columns.state ? `lower(${columns.state}) = lower(@state)` : '0');
+    params.state = query.state;
+  }
+  if (query.text) {
+    conditions.push(`(${columns.text.map(column => `lower(${column}) LIKE @text ESCAPE '\\'`).join(' OR ')})`);
+    params.text = `%${query.text.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+  }
+  // Stored dates keep GitHub's formatting ('Z' without milliseconds, or a UTC offset), so compare them as timestamps
+  if (query.since) {
+    conditions.push(`julianday(${columns.date}) >= julianday(@since)`);
+    params.since = query.since;
+  }
+  if (query.until) {
+    conditions.push(`julianday(${columns.date}) <= julianday(@until)`);
+    params.until = query.until;
+  }
+
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  return { where, params };
+}
+
+// SQLite Cache Store - indexed tables in a single WAL-mode database file
+export class SqliteCacheStore implements CacheStore {
+  readonly backend = 'sqlite' as const;
+  private db: Database.Database;
+
+  constructor(file: string = DATABASE_FILE) {
+    if (!fs.existsSync(CACHE_DIR)) {
+      fs.mkdirSync(CACHE_DIR, { recursive: true });
+      console.log(`📁 Created cache directory: ${CACHE_DIR}`);
+    }
+
+    this.db = new Database(file);
+    // WAL lets the dashboard keep reading while a sync is writing
+    this.db.pragma('journal_mode = WAL');
+    this.db.exec(SCHEMA);
+    console.log(`🗄️  SQLite cache opened: ${file}`);
+  }
+
+  readMetadata(): CacheMetadata | null {
+    return this.getValue<CacheMetadata>('metadata');
+  }
+
+  writeMetadata(metadata: CacheMetadata) {
+    this.setValue('metadata', metadata);
+  }
+
+  readData(): CachedDataSet {
+    const parseRows = (rows: { data: string }[]) => rows.map(row => JSON.parse(row.data));
+
+    return {
+      commits: parseRows(this.db.prepare('SELECT data FROM commits ORDER BY date DESC').all() as { data: string }[]),
+      pull_requests: parseRows(this.db.prepare('SELECT data FROM pull_requests ORDER BY created_at DESC').all() as { data: string }[]),
+      issues: parseRows(this.db.prepare('SELECT data FROM issues ORDER BY created_at DESC').all() as { data: string }[]),
+      releases: parseRows(this.db.prepare('SELECT data FROM releases ORDER BY published_at DESC').all() as { data: string }[]),
+      deployments: parseRows(this.db.prepare('SELECT data FROM deployments ORDER BY created_at DESC').all() as { data: string }[]),
+      user_info: this.getValue('user_info'),
+      repositories: parseRows(this.db.prepare('SELECT data FROM repositories ORDER BY name_with_owner').all() as { data: string }[])
+    };
+  }
+
+  writeData(data: CachedDataSet, metadata: CacheMetadata) {
+    // One transaction, so readers see either the previous sync or this one - never a mix
+    const replaceAll = this.db.transaction(() => {
+      RECORD_TABLES.forEach(name => {
+        const spec = TABLES[name] as TableSpec<unknown>;
+        this.upsertRows(spec, data[name]);
+        this.deleteRowsExcept(spec, data[name]);
+      });
+      this.setValue('user_info', data.user_info);
+      this.setValue('metadata', metadata);
+    });
+
+    replaceAll();
+  }
+
+  mergeData(delta: CachedDataDelta, metadata: CacheMetadata, options: CacheMergeOptions = {}): CacheMergeCounts {
+    const counts: CacheMergeCounts = { commits: 0, pull_requests: 0, issues: 0, releases: 0, deployments: 0 };
+
+    const merge = this.db.transaction(() => {
+      if (options.replaceRepositories) {
+        this.deleteRowsExcept(TABLES.repositories, delta.repositories || []);
+      }
+      RECORD_TABLES.forEach(name => {
+        const inserted = this.upsertRows(TABLES[name] as TableSpec<unknown>, delta[name] || []);
+        if (name !== 'repositories') {
+          counts[name] = inserted;
+        }
+      });
+      if (options.retainRepository) {
+        this.deleteRepositories(options.retainRepository);
+      }
+      this.setValue('metadata', metadata);
+    });
+
+    merge();
+    return counts;
+  }
+
+  queryCommits(query: CacheQuery): CacheQueryResult<GitHubCommit> {
+    return this.runQuery<GitHubCommit>('commits', query, COMMIT_COLUMNS);
+  }
+
+  queryPullRequests(query: CacheQuery): CacheQueryResult<GitHubPR> {
+    return this.runQuery<GitHubPR>('pull_requests', query, PR_COLUMNS);
+  }
+
+  clear() {
+    this.db.exec('DELETE FROM commits; DELETE FROM pull_requests; DELETE FROM issues; DELETE FROM releases; DELETE FROM deployments; DELETE FROM repositories; DELETE FROM kv;');
+  }
+
+  verifyIntegrity(): boolean {
+    // Transactions make half-written syncs impossible; this catches a damaged database file
+    const result = this.db.pragma('quick_check', { simple: true });
+    if (result !== 'ok') {
+      console.error(`💥 SQLite cache failed integrity check: ${result}`);
+      return false;
+    }
+    return true;
+  }
+
+  private runQuery<T>(table: string, query: CacheQuery, columns: QueryColumns): CacheQueryResult<T> {
+    const { where, params } = buildWhereClause(query, columns);
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+
+    const { total } = this.db.prepare(`SELECT COUNT(*) AS total FROM ${table} ${where}`).get(params) as { total: number };
+    // SQLite needs a LIMIT before it accepts an OFFSET; -1 means no limit
+    const rows = this.db.prepare(`SELECT data FROM ${table} ${where} ORDER BY ${columns.date} ${direction} LIMIT @limit OFFSET @offset`)
+      .all({ ...params, limit: query.limit ?? -1, offset: query.offset ?? 0 }) as { data: string }[];
+
+    return { items: rows.map(row => JSON.parse(row.data)), total };
+  }
+
+  // Returns how many rows were inserted rather than updated
+  private upsertRows<T>(spec: TableSpec<T>, items: T[]): number {
+    if (items.length === 0) return 0;
+    const countRows = () => (this.db.prepare(`SELECT COUNT(*) AS total FROM ${spec.table}`).get() as { total: number }).total;
+    const before = countRows();
+    const upsert = this.db.prepare(upsertSql(spec as TableSpec<unknown>));
+    items.forEach(item => upsert.run(...spec.row(item)));
+    return countRows() - before;
+  }
+
+  // Only key columns are read back, never the JSON records
+  private deleteRowsExcept<T>(spec: TableSpec<T>, items: T[]) {
+    const keyColumns = spec.columns.slice(0, spec.keyColumns);
+    const keyOf = (values: unknown[]) => JSON.stringify(values);
+    const keep = new Set(items.map(item => keyOf(spec.row(item).slice(0, spec.keyColumns))));
+
+    const remove = this.db.prepare(`DELETE FROM ${spec.table} WHERE ${keyColumns.map(column => `${column} = ?`).join(' AND ')}`);
+    (this.db.prepare(`SELECT ${keyColumns.join(', ')} FROM ${spec.table}`).raw().all() as unknown[][])
+      .filter(key => !keep.has(keyOf(key)))
+      .forEach(key => remove.run(...key));
+  }
+
+  private deleteRepositories(retain: (nameWithOwner: string) => boolean) {
+    RECORD_TABLES.forEach(name => {
+      const { table, columns } = TABLES[name];
+      const repoColumn = columns[0];
+      (this.db.prepare(`SELECT DISTINCT ${repoColumn} FROM ${table}`).pluck().all() as string[])
+        .filter(repo => !retain(repo))
+        .forEach(repo => this.db.prepare(`DELETE FROM ${table} WHERE ${repoColumn} = ?`).run(repo));
+    });
+  }
+
+  private getValue<T>(key: string): T | null {
+    const row = this.db.prepare('SELECT value FROM kv WHERE key = ?').get(key) as { value: string } | undefined;
+    return row ? JSON.parse(row.value) : null;
+  }
+
+  private setValue(key: string, value: unknown) {
+    this.db.prepare('INSERT OR REPLACE INTO kv (key, value) VALUES (?, ?)').run(key, JSON.stringify(value));
+  }
+}
@@ -0,0 +1,25 @@
+import { CONFIG } from './constants';
+import { FetchStrategy, StrategyMetric, StrategyStats } from '@/types/profiling';
+
+export const FETCH_STRATEGIES: FetchStrategy[] = ['PURE_COMPARE_API', 'PURE_GRAPHQL', 'HYBRID_THRESHOLD', 'ADAPTIVE_BATCH'];
+
+// Per-strategy averages over each strategy's last STRATEGY_STATS_WINDOW runs, so old runs of a changed repository fade out
+export function summarizeStrategyMetrics(metrics: StrategyMetric[]): StrategyStats[] {
+  return FETCH_STRATEGIES
+    .map(strategy => {
+      const runs = metrics.filter(metric => metric.strategy === strategy).slice(-CONFIG.STRATEGY_STATS_WINDOW);
+      const total = (pick: (metric: StrategyMetric) => number) => runs.reduce((sum, metric) => sum + pick(metric), 0);
+      const apiCalls = total(metric => metric.apiCalls);
+      const commits = total(metric => metric.commitsYielded);
+
+      return {
+        strategy,
+        runs: runs.length,
+        avgApiCalls: runs.length > 0 ? apiCalls / runs.length : 0,
+        avgDurationMs: runs.length > 0 ? total(metric => metric.durationMs) / runs.length : 0,
+        avgCommitsYielded: runs.length > 0 ? commits / runs.length : 0,
+        commitsPerCall: commits / Math.max(apiCalls, 1)
+      };
+    })
+    .filter(stats => stats.runs > 0);
+}
@@ -0,0 +1,50 @@
+import { EventEmitter } from 'events';
+import { GitHubCommit, GitHubPR } from '@/types/github';
+
+export type SyncEvent =
+  | { type: 'activity'; commits: GitHubCommit[]; pull_requests: GitHubPR[]; last_sync: string }
+  | { type: 'full_sync'; last_sync: string };
+
+// Route handlers and the instrumentation hook can end up with separate module instances, so the bus lives on globalThis
+const globalForSyncEvents = globalThis as typeof globalThis & { syncEventBus?: SyncEventBus };
+
+// Sync Event Bus - fans sync results out to every open /api/github/events stream
+class SyncEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open dashboard tab
+    this.emitter.setMaxListeners(0);
+  }
+
+  static getInstance(): SyncEventBus {
+    if (!globalForSyncEvents.syncEventBus) {
+      globalForSyncEvents.syncEventBus = new SyncEventBus();
+    }
+    return globalForSyncEvents.syncEventBus;
+  }
+
+  subscribe(listener: (event: SyncEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  publish(event: SyncEvent) {
+    const subscribers = this.emitter.listenerCount('event');
+    if (subscribers > 0) {
+      console.log(`📡 Pushing ${event.type} event to ${subscribers} dashboard${subscribers === 1 ? '' : 's'}`);
+    }
+    // One broken stream must not fail the sync or webhook that published the event
+    for (const listener of this.emitter.listeners('event') as ((event: SyncEvent) => void)[]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`❌ Sync event listener failed for ${event.type} event:`, error);
+      }
+    }
+  }
+}
+
+export const syncEvents = SyncEventBus.getInstance();
@@ -0,0 +1,88 @@
+import { CONFIG } from './constants';
+import { getCacheMetadata } from './fileCache';
+import { performIncrementalSync } from './incrementalSync';
+import { githubCredentials } from './githubCredentials';
+
+export interface SyncSchedulerStatus {
+  enabled: boolean;
+  interval_minutes: number;
+  last_run?: string;
+  next_run?: string;
+}
+
+const globalForScheduler = globalThis as typeof globalThis & { syncScheduler?: SyncScheduler };
+
+// Sync Scheduler - runs an incremental sync on a fixed interval so open dashboards stay current
+class SyncScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private lastRun: number | null = null;
+  private nextRun: number | null = null;
+
+  static getInstance(): SyncScheduler {
+    if (!globalForScheduler.syncScheduler) {
+      globalForScheduler.syncScheduler = new SyncScheduler();
+    }
+    return globalForScheduler.syncScheduler;
+  }
+
+  // Safe to call repeatedly - only the first call starts the timer
+  start() {
+    if (this.timer) return;
+
+    const intervalMs = CONFIG.SYNC_INTERVAL_MINUTES * 60 * 1000;
+    if (intervalMs <= 0) {
+      console.log('⏰ Scheduled sync disabled (SYNC_INTERVAL_MINUTES=0)');
+      return;
+    }
+    if (!githubCredentials.hasCredentials()) {
+      console.log('⏰ Scheduled sync not started: no GitHub credentials configured');
+      return;
+    }
+
+    this.nextRun = Date.now() + intervalMs;
+    this.timer = setInterval(() => {
+      this.nextRun = Date.now() + intervalMs;
+      this.runSync();
+    }, intervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref?.();
+
+    console.log(`⏰ Scheduled sync every ${CONFIG.SYNC_INTERVAL_MINUTES} minutes`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.nextRun = null;
+    }
+  }
+
+  getStatus(): SyncSchedulerStatus {
+    return {
+      enabled: this.timer !== null,
+      interval_minutes: CONFIG.SYNC_INTERVAL_MINUTES,
+      last_run: this.lastRun ? new Date(this.lastRun).toISOString() : undefined,
+      next_run: this.nextRun ? new Date(this.nextRun).toISOString() : undefined
+    };
+  }
+
+  private async runSync() {
+    // The first full sync is left to the initial page load, which reports its progress to the user
+    if (!getCacheMetadata()) {
+      console.log('⏰ Scheduled sync skipped: no cache yet');
+      return;
+    }
+
+    this.lastRun = Date.now();
+    try {
+      console.log('⏰ Running scheduled incremental sync');
+      const result = await performIncrementalSync();
+      console.log(`⏰ Scheduled sync complete: +${result.newCommitsCount} commits, +${result.newPRsCount} PRs`);
+    } catch (error) {
+      console.error('❌ Scheduled sync failed:', error);
+    }
+  }
+}
+
+export const syncScheduler = SyncScheduler.getInstance();
@@ -60,6 +60,9 @@ export const PROJECT_COLORS = {
   chartBlueAlt: '#5B9BD5',
   chartBorderCommit: '#2C5AA0',
   chartBorderPR: '#3A7BD5',
+  chartAdditions: '#2EA043',
+  chartDeletions: '#DA3633',
+  chartRelease: '#8250DF',
   badgeOrange: '#ff6f00',
   openPRBg: '#e3f2fd',
   openPRText: '#1565c0',
@@ -67,4 +70,8 @@ export const PROJECT_COLORS = {
   mergedPRText: '#2e7d32',
   closedPRBg: '#ffebee',
   closedPRText: '#c62828',
+  openIssueBg: '#e8f5e9',
+  openIssueText: '#1b5e20',
+  closedIssueBg: '#f3e5f5',
+  closedIssueText: '#6a1b9a',
 };
\ No newline at end of file
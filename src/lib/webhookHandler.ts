@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { GitHubCheck, GitHubCheckStatus, GitHubCommit, GitHubPR, GitHubPRReview, GitHubRepository } from '@/types/github';
+import { getCacheMetadata, getCachedData, updateCachedData } from './fileCache';
+import { waitForActiveSync } from './incrementalSync';
+import { syncEvents } from './syncEvents';
+import { isRepositoryAllowed } from './repositoryConfig';
+import { parseCoAuthors } from '@/utils/attributionUtils';
+import { rollupCheckState } from '@/utils/checkStatusUtils';
+
+export const SUPPORTED_WEBHOOK_EVENTS = ['push', 'pull_request', 'pull_request_review', 'check_run', 'status'] as const;
+export type SupportedWebhookEvent = typeof SUPPORTED_WEBHOOK_EVENTS[number];
+
+export interface WebhookResult {
+  status: 'merged' | 'ignored';
+  reason?: string;
+  commits: number;
+  pull_requests: number;
+}
+
+// Constant-time comparison of the X-Hub-Signature-256 header against our own HMAC of the raw body
+export function verifyWebhookSignature(body: string, signatureHeader: string | null, secret: string): boolean {
+  if (!signatureHeader?.startsWith('sha256=')) return false;
+
+  const expected = Buffer.from(`sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`);
+  const received = Buffer.from(signatureHeader);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+export function isSupportedWebhookEvent(event: string | null): event is SupportedWebhookEvent {
+  return SUPPORTED_WEBHOOK_EVENTS.includes(event as SupportedWebhookEvent);
+}
+
+// Webhook timestamps carry a UTC offset; the GraphQL API returns UTC without milliseconds
+function toGitHubDate(value: string): string {
+  return new Date(value).toISOString().replace(/\.\d{3}Z$/, 'Z');
+}
+
+function mapPushCommits(payload: any, repo: GitHubRepository): GitHubCommit[] {
+  const ref: string = payload.ref || '';
+  // Tag pushes and branch deletions carry no new branch activity
+  if (!ref.startsWith('refs/heads/') || payload.deleted) return [];
+
+  const branchName = ref.substring('refs/heads/'.length);
+  return (payload.commits || [])
+    // Non-distinct commits were already pushed to another branch and keep that branch
+    .filter((commit: any) => commit.distinct !== false)
+    .map((commit: any) => {
+      const author = commit.author?.name || commit.author?.username || "Unknown";
+      const coAuthors = parseCoAuthors(commit.message, author);
+      return {
+        repo: repo.nameWithOwner,
+        repo_url: repo.url,
+        branch_name: branchName,
+        branch_url: `${repo.url}/tree/${branchName}`,
+        sha: commit.id.substring(0, 7),
+        message: commit.message || "No message",
+        author,
+        date: toGitHubDate(commit.timestamp),
+        url: commit.url,
+        // Push payloads list changed paths but not line counts; the next sync fills in additions and deletions
+        changed_files: new Set([...(commit.added || []), ...(commit.removed || []), ...(commit.modified || [])]).size,
+        coAuthors: coAuthors.length > 0 ? coAuthors : undefined
+      };
+    });
+}
+
+function mapPullRequest(pr: any, repo: GitHubRepository, action: string | undefined, existing?: GitHubPR): GitHubPR {
+  // Review payloads omit `merged`, so fall back to merged_at
+  const merged = pr.merged || Boolean(pr.merged_at);
+
+  const requestedReviewers: string[] = [
+    ...(pr.requested_reviewers || []).map((reviewer: any) => reviewer.login),
+    ...(pr.requested_teams || []).map((team: any) => team.name)
+  ].filter(Boolean);
+
+  return {
+    repo: repo.nameWithOwner,
+    repo_url: repo.url,
+    number: pr.number,
+    title: pr.title,
+    state: merged ? "Merged" : pr.state === 'open' ? "Open" : "Closed",
+    author: pr.user?.login || "Unknown",
+    created_at: toGitHubDate(pr.created_at),
+    merged_at: pr.merged_at ? toGitHubDate(pr.merged_at) : undefined,
+    url: pr.html_url,
+    head_branch: pr.head?.ref,
+    head_sha: pr.head?.sha,
+    base_branch: pr.base?.ref,
+    // pull_request events don't include reviews, so keep the ones we already know about
+    reviews: existing?.reviews || [],
+    requested_reviewers: requestedReviewers,
+    // A new head commit starts without checks; its check_run and status events fill them in
+    check_status: existing?.head_sha === pr.head?.sha ? existing?.check_status : undefined,
+    is_draft: pr.draft,
+    // Payloads don't carry commits; the next sync fills in first_commit_at for PRs opened since
+    first_commit_at: existing?.first_commit_at,
+    ready_for_review_at: pr.draft ? undefined
+      : action === 'ready_for_review' ? toGitHubDate(pr.updated_at)
+      : existing?.ready_for_review_at || (action === 'opened' ? toGitHubDate(pr.created_at) : undefined),
+    labels: pr.labels ? pr.labels.map((label: any) => label.name) : existing?.labels,
+    milestone: pr.milestone?.title,
+    // Review events carry a shorter PR without diff stats
+    additions: pr.additions ?? existing?.additions,
+    deletions: pr.deletions ?? existing?.deletions,
+    changed_files: pr.changed_files ?? existing?.changed_files,
+    // Closing references aren't in payloads; they're refreshed on the next sync
+    linked_issues: existing?.linked_issues
+  };
+}
+
+// The commit a check_run or status event is about, and that one check's new state
+function mapCheckEvent(event: 'check_run' | 'status', payload: any): { sha: string; check: GitHubCheck } | null {
+  if (event === 'check_run') {
+    const checkRun = payload.check_run;
+    if (!checkRun?.head_sha) return null;
+    return {
+      sha: checkRun.head_sha,
+      check: {
+        name: checkRun.name,
+        state: (checkRun.conclusion || checkRun.status).toUpperCase(),
+        url: checkRun.details_url || checkRun.html_url || undefined
+      }
+    };
+  }
+
+  if (!payload.sha) return null;
+  return {
+    sha: payload.sha,
+    check: { name: payload.context, state: payload.state.toUpperCase(), url: payload.target_url || undefined }
+  };
+}
+
+function applyCheck(status: GitHubCheckStatus | undefined, check: GitHubCheck): GitHubCheckStatus {
+  const checks = [...(status?.checks || []).filter(existing => existing.name !== check.name), check];
+  return { state: rollupCheckState(checks), checks };
+}
+
+function applyReview(pr: GitHubPR, payload: any): GitHubPR {
+  const review = payload.review;
+  // Pending reviews are invisible to everyone but their author, same as in fetchRepositoryPRs
+  if (!review?.submitted_at || review.state === 'pending') return pr;
+
+  const mappedReview: GitHubPRReview = {
+    reviewer: review.user?.login || "Unknown",
+    state: (payload.action === 'dismissed' ? 'DISMISSED' : review.state.toUpperCase()) as GitHubPRReview['state'],
+    submitted_at: toGitHubDate(review.submitted_at)
+  };
+
+  const reviews = (pr.reviews || []).filter(existing =>
+    !(existing.reviewer === mappedReview.reviewer && existing.submitted_at === mappedReview.submitted_at));
+  return { ...pr, reviews: [...reviews, mappedReview] };
+}
+
+// Merges a webhook delivery into the cache without moving lastSync, so incremental syncs still
+// fetch anything the webhook didn't carry
+export async function handleWebhookEvent(event: SupportedWebhookEvent, payload: any): Promise<WebhookResult> {
+  const ignored = (reason: string): WebhookResult => ({ status: 'ignored', reason, commits: 0, pull_requests: 0 });
+
+  // A sync in progress would overwrite our write with its own snapshot of the cache
+  await waitForActiveSync();
+
+  const cachedData = getCachedData();
+  if (!cachedData) {
+    return ignored('No cache yet - the initial sync will pick this up');
+  }
+
+  const repo = cachedData.repositories.find(r => r.nameWithOwner === payload.repository?.full_name);
+  if (!repo || !isRepositoryAllowed(repo.nameWithOwner)) {
+    return ignored(`Repository ${payload.repository?.full_name} is not tracked`);
+  }
+
+  let newCommits: GitHubCommit[] = [];
+  let newPRs: GitHubPR[] = [];
+
+  if (event === 'push') {
+    newCommits = mapPushCommits(payload, repo);
+  } else if (event === 'check_run' || event === 'status') {
+    const update = mapCheckEvent(event, payload);
+    if (!update) {
+      return ignored('No commit SHA in payload');
+    }
+    // Only commits and PR heads we already have; a commit we haven't synced yet gets its checks from the sync
+    newCommits = cachedData.commits
+      .filter(commit => commit.repo === repo.nameWithOwner && commit.sha === update.sha.substring(0, 7))
+      .map(commit => ({ ...commit, check_status: applyCheck(commit.check_status, update.check) }));
+    newPRs = cachedData.pull_requests
+      .filter(pr => pr.repo === repo.nameWithOwner && pr.head_sha === update.sha)
+      .map(pr => ({ ...pr, check_status: applyCheck(pr.check_status, update.check) }));
+  } else {
+    const existing = cachedData.pull_requests.find(pr => pr.repo === repo.nameWithOwner && pr.number === payload.pull_request?.number);
+    const pr = mapPullRequest(payload.pull_request, repo, event === 'pull_request' ? payload.action : undefined, existing);
+    newPRs = [event === 'pull_request_review' ? applyReview(pr, payload) : pr];
+  }
+
+  if (newCommits.length === 0 && newPRs.length === 0) {
+    return ignored('Nothing to merge');
+  }
+
+  if (!updateCachedData({ commits: newCommits, pull_requests: newPRs })) {
+    throw new Error('Failed to write webhook data to cache');
+  }
+
+  // last_sync stays the last real sync - the webhook only filled in part of the gap since then
+  const lastSync = getCacheMetadata()?.lastSync || Date.now();
+  syncEvents.publish({ type: 'activity', commits: newCommits, pull_requests: newPRs, last_sync: new Date(lastSync).toISOString() });
+
+  return { status: 'merged', commits: newCommits.length, pull_requests: newPRs.length };
+}
@@ -26,6 +26,21 @@ export interface GitHubRepository {
   defaultBranch: string;
 }
 
+// Overall CI state of a commit, as GitHub rolls it up across all of its checks
+export type CheckRollupState = "SUCCESS" | "FAILURE" | "ERROR" | "PENDING" | "EXPECTED";
+
+export interface GitHubCheck {
+  name: string;
+  // Check run conclusion (its status while still running) or commit status state, uppercase as GitHub reports it
+  state: string;
+  url?: string;
+}
+
+export interface GitHubCheckStatus {
+  state: CheckRollupState;
+  checks: GitHubCheck[];
+}
+
 export interface GitHubCommit {
   repo: string;
   repo_url: string;
@@ -36,6 +51,20 @@ export interface GitHubCommit {
   author: string;
   date: string;
   url: string;
+  // Diff stats; missing on commits cached before they were synced, and changed_files also for very large commits
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+  // Names from the message's Co-authored-by trailers; absent when there are none
+  coAuthors?: string[];
+  // Absent when the commit has no checks or was cached before CI status was synced
+  check_status?: GitHubCheckStatus;
+}
+
+export interface GitHubPRReview {
+  reviewer: string;
+  state: "APPROVED" | "CHANGES_REQUESTED" | "COMMENTED" | "DISMISSED";
+  submitted_at: string;
 }
 
 export interface GitHubPR {
@@ -48,6 +77,89 @@ export interface GitHubPR {
   created_at: string;
   merged_at?: string;
   url: string;
+  head_branch?: string;
+  head_sha?: string;
+  base_branch?: string;
+  reviews?: GitHubPRReview[];
+  requested_reviewers?: string[];
+  // CI status of the head commit
+  check_status?: GitHubCheckStatus;
+  // Cycle-time milestones; absent on PRs cached before they were synced
+  is_draft?: boolean;
+  first_commit_at?: string; // Authored date of the PR's first commit
+  ready_for_review_at?: string; // Last time it left draft, or created_at if it never was one; absent while a draft
+  // Absent on PRs cached before they were synced
+  labels?: string[];
+  milestone?: string;
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+  linked_issues?: GitHubLinkedIssue[]; // Issues the PR closes when merged
+}
+
+export interface GitHubLinkedIssue {
+  repo: string;
+  number: number;
+  title: string;
+  url: string;
+}
+
+export interface GitHubRelease {
+  repo: string;
+  repo_url: string;
+  tag: string;
+  name: string;
+  kind: "release" | "tag"; // "tag" for tags without a GitHub release
+  published_at: string; // Release publish date, or the tag/commit date for plain tags
+  is_prerelease: boolean;
+  author: string;
+  target_sha?: string; // Short SHA of the tagged commit, same format as GitHubCommit.sha
+  target_date?: string; // Committed date of the tagged commit
+  url: string;
+}
+
+export type DeploymentState = "SUCCESS" | "FAILURE" | "ERROR" | "INACTIVE" | "PENDING" | "QUEUED" | "IN_PROGRESS" | "WAITING";
+
+export interface GitHubDeploymentStatus {
+  state: DeploymentState;
+  created_at: string;
+  log_url?: string;
+}
+
+export interface GitHubDeployment {
+  repo: string;
+  repo_url: string;
+  id: number;
+  environment: string;
+  sha: string; // Short SHA of the deployed commit, same format as GitHubCommit.sha
+  ref?: string;
+  creator: string;
+  created_at: string;
+  // Oldest first; the last entry is the deployment's current state
+  statuses: GitHubDeploymentStatus[];
+}
+
+export interface GitHubIssue {
+  repo: string;
+  repo_url: string;
+  number: number;
+  title: string;
+  state: "Open" | "Closed";
+  author: string;
+  created_at: string;
+  closed_at?: string;
+  labels: string[];
+  comments: number;
+  url: string;
+}
+
+export type RepositorySyncState = 'ok' | 'failed' | 'skipped' | 'truncated';
+
+export interface RepositorySyncStatus {
+  repo: string;
+  status: RepositorySyncState;
+  errors?: string[];
+  last_synced_at?: string; // Last time this repository's data was fetched without errors
 }
 
 export interface CacheInfo {
@@ -55,15 +167,61 @@ export interface CacheInfo {
   is_incremental?: boolean;
   new_commits?: number;
   new_prs?: number;
+  new_issues?: number;
+  new_releases?: number;
+  new_deployments?: number;
   last_sync?: string;
+  truncated_repos?: string[];
+  repo_statuses?: RepositorySyncStatus[];
+}
+
+export interface RateLimitInfo {
+  limit?: number;
+  remaining?: number;
+  used?: number;
+  reset_at?: string;
+  observed_at?: string;
+  paused_until?: string;
 }
 
 export interface GitHubData {
   commits: GitHubCommit[];
   pull_requests: GitHubPR[];
+  issues?: GitHubIssue[];
+  releases?: GitHubRelease[];
+  deployments?: GitHubDeployment[];
   repositories?: GitHubRepository[];
+  // Repository names per group from the repository config's "groups", or per owner without it
+  repository_groups?: Record<string, string[]>;
   user_info: GitHubUser;
   cache_info?: CacheInfo;
+  rate_limit?: RateLimitInfo | null;
+}
+
+// Query parameters accepted by /api/github/commits and /api/github/pulls
+export interface ActivityQueryParams {
+  repo?: string;
+  author?: string;
+  branch?: string;
+  state?: "open" | "merged" | "closed"; // Pulls only
+  q?: string;
+  since?: string;
+  until?: string;
+  sort?: "asc" | "desc";
+  limit?: number;
+  cursor?: string;
+}
+
+export interface CommitQueryResponse {
+  commits: GitHubCommit[];
+  total: number;
+  next_cursor: string | null;
+}
+
+export interface PullRequestQueryResponse {
+  pull_requests: GitHubPR[];
+  total: number;
+  next_cursor: string | null;
 }
 
 export interface SearchIndex {
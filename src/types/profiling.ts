@@ -4,6 +4,8 @@ export interface BranchMetadata {
   name: string;
   lastCommitSha: string;
   lastCommitDate: string;
+  lastCommitMessage?: string;
+  lastCommitAuthor?: string;
   isDefault: boolean;
   isMergedAndInactive?: boolean;
   mergeInfo?: BranchMergeInfo;
@@ -20,6 +22,12 @@ export interface BranchMergeInfo {
   confidence: number; // 0-1 confidence that branch is merged and inactive
 }
 
+// Merge analysis is keyed by repo:branch:lastCommitDate, so a new push always gets a fresh analysis
+export interface BranchMergeCacheEntry {
+  mergeInfo: BranchMergeInfo;
+  analyzedAt: string;
+}
+
 export interface BranchComparisonStats {
   branchName: string;
   aheadBy: number;
@@ -27,6 +35,20 @@ export interface BranchComparisonStats {
   totalCommits: number;
 }
 
+// Returned by /api/github/branches
+export interface BranchOverview extends BranchMetadata {
+  comparison?: BranchComparisonStats; // Against the default branch; missing for the default branch itself or if the compare failed
+  mergedPRUrl?: string;
+}
+
+export interface BranchOverviewResponse {
+  repository: string;
+  repository_url: string;
+  default_branch: string;
+  branches: BranchOverview[];
+  total: number;
+}
+
 export interface RepositoryProfile {
   repositoryId: string;
   repositoryName: string;
@@ -65,10 +87,39 @@ export type FetchStrategy =
   | 'HYBRID_THRESHOLD'      // Mixed - use Compare API for small, GraphQL for large
   | 'ADAPTIVE_BATCH';       // Complex patterns - adaptive per branch
 
+// Why a fetch ran the strategy it did: the profile heuristic, measured efficiency, or a periodic trial of an under-sampled strategy
+export type StrategySelectionReason = 'heuristic' | 'feedback' | 'exploration';
+
+// One fetch of one repository
+export interface StrategyMetric {
+  strategy: FetchStrategy;
+  reason: StrategySelectionReason;
+  apiCalls: number;
+  durationMs: number;
+  commitsYielded: number;
+  recordedAt: string;
+}
+
+// Averages over a strategy's most recent runs for one repository
+export interface StrategyStats {
+  strategy: FetchStrategy;
+  runs: number;
+  avgApiCalls: number;
+  avgDurationMs: number;
+  avgCommitsYielded: number;
+  commitsPerCall: number;
+}
+
 export interface ProfileCache {
   repositoryId: string;
   profile: RepositoryProfile;
-  strategyMetrics: any[];
+  strategyMetrics: StrategyMetric[]; // Oldest first, capped at CONFIG.STRATEGY_METRICS_HISTORY
   fetchCount: number;
   lastUpdated: string;
+}
+
+// Returned by /api/github/profiles
+export interface ProfileListEntry extends ProfileCache {
+  branchAnalysisEntries: number;
+  strategyStats: StrategyStats[];
 }
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { CONFIG } from '@/lib/constants';
+import { GitHubCommit } from '@/types/github';
+
+export interface AttributionOptions {
+  includeBots: boolean;
+  creditCoAuthors: boolean;
+}
+
+// Trailers as GitHub writes them for squash merges and suggested changes: "Co-authored-by: Name <email>"
+const CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.+?)\s*<[^>]*>\s*$/i;
+
+// Co-author names from the commit message's trailers, without duplicates or the commit's own author
+export function parseCoAuthors(message: string, author?: string): string[] {
+  const names = (message || '').split('\n')
+    .map(line => CO_AUTHOR_TRAILER.exec(line.trim())?.[1])
+    .filter((name): name is string => Boolean(name));
+  return Array.from(new Set(names)).filter(name => name !== author);
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+const BOT_PATTERNS = CONFIG.BOT_AUTHOR_PATTERNS.map(patternToRegExp);
+
+export function isBotAuthor(name: string): boolean {
+  return BOT_PATTERNS.some(pattern => pattern.test(name));
+}
+
+// One entry per credited person: the author plus, optionally, each co-author as a copy of the commit under their name
+// (with the original author moved into coAuthors). Bots are dropped wherever they appear, so a bot-authored commit
+// still credits its human co-authors.
+export function attributeCommits(commits: GitHubCommit[], options: AttributionOptions): GitHubCommit[] {
+  return commits.flatMap(commit => {
+    const everyone = [commit.author, ...(commit.coAuthors || [])];
+    const credited = options.creditCoAuthors ? everyone : [commit.author];
+    return credited
+      .filter(person => options.includeBots || !isBotAuthor(person))
+      .map(person => person === commit.author ? commit : {
+        ...commit,
+        author: person,
+        coAuthors: everyone.filter(other => other !== person)
+      });
+  });
+}
+
+// Commits filtered for bots without crediting co-authors, for views that count commits rather than people
+export function filterBotCommits(commits: GitHubCommit[], includeBots: boolean): GitHubCommit[] {
+  return includeBots ? commits : commits.filter(commit => !isBotAuthor(commit.author));
+}
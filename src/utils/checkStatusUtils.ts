@@ -0,0 +1,25 @@
+import { CheckRollupState, GitHubCheck, GitHubCheckStatus } from '@/types/github';
+
+// Check run conclusions and commit status states that turn a build red
+const FAILED_CHECK_STATES = new Set(['FAILURE', 'ERROR', 'CANCELLED', 'TIMED_OUT', 'ACTION_REQUIRED', 'STARTUP_FAILURE']);
+// Check runs that haven't concluded yet and commit statuses still waiting
+const PENDING_CHECK_STATES = new Set(['PENDING', 'EXPECTED', 'QUEUED', 'IN_PROGRESS', 'WAITING', 'REQUESTED']);
+
+export function isFailedCheck(check: GitHubCheck): boolean {
+  return FAILED_CHECK_STATES.has(check.state);
+}
+
+export function isPendingCheck(check: GitHubCheck): boolean {
+  return PENDING_CHECK_STATES.has(check.state);
+}
+
+// Same precedence GitHub uses: any failure makes the commit red, then anything still running keeps it pending
+export function rollupCheckState(checks: GitHubCheck[]): CheckRollupState {
+  if (checks.some(isFailedCheck)) return 'FAILURE';
+  if (checks.some(isPendingCheck)) return 'PENDING';
+  return 'SUCCESS';
+}
+
+export function isFailingStatus(status?: GitHubCheckStatus): boolean {
+  return status?.state === 'FAILURE' || status?.state === 'ERROR';
+}
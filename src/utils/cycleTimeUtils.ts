@@ -0,0 +1,111 @@
+import { GitHubPR } from '@/types/github';
+import { percentile } from './statsUtils';
+
+export type CyclePhase = 'coding' | 'pickup' | 'review' | 'merge';
+
+export const CYCLE_PHASES: CyclePhase[] = ['coding', 'pickup', 'review', 'merge'];
+
+export const CYCLE_PHASE_LABELS: Record<CyclePhase, string> = {
+  coding: 'Coding',
+  pickup: 'Pickup',
+  review: 'Review',
+  merge: 'Merge'
+};
+
+export interface PRCycleTime {
+  pr: GitHubPR;
+  // Hours; null when the phase didn't happen (no first commit synced, merged without review or approval)
+  phases: Record<CyclePhase, number | null>;
+  totalHours: number;
+  firstReviewAt?: string;
+  lastApprovalAt?: string;
+}
+
+export interface Percentiles {
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface CycleTimeSummary {
+  key: string;
+  count: number;
+  phases: Record<CyclePhase, Percentiles | null>;
+  total: Percentiles;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+function time(date: string): number {
+  return new Date(date).getTime();
+}
+
+function hoursBetween(from: number, to: number): number {
+  return Math.max(0, to - from) / HOUR;
+}
+
+// Phases of a merged PR, split at its milestones:
+//   coding  first commit → ready for review
+//   pickup  ready for review → first review by someone other than the author
+//   review  first review → last approval (or merge when never approved)
+//   merge   last approval → merge (or ready → merge when nobody reviewed)
+// Reviews left while the PR was still a draft count as pickup at zero.
+export function computeCycleTime(pr: GitHubPR): PRCycleTime | null {
+  if (pr.state !== 'Merged' || !pr.merged_at) return null;
+
+  const merged = time(pr.merged_at);
+  const ready = time(pr.ready_for_review_at || pr.created_at);
+  const reviews = (pr.reviews || [])
+    .filter(review => review.reviewer !== pr.author && time(review.submitted_at) <= merged)
+    .sort((a, b) => time(a.submitted_at) - time(b.submitted_at));
+  const firstReview = reviews[0];
+  const lastApproval = reviews.filter(review => review.state === 'APPROVED').pop();
+
+  const phases: Record<CyclePhase, number | null> = {
+    coding: pr.first_commit_at ? hoursBetween(time(pr.first_commit_at), ready) : null,
+    pickup: firstReview ? hoursBetween(ready, time(firstReview.submitted_at)) : null,
+    review: firstReview ? hoursBetween(Math.max(ready, time(firstReview.submitted_at)), lastApproval ? time(lastApproval.submitted_at) : merged) : null,
+    merge: lastApproval ? hoursBetween(Math.max(ready, time(lastApproval.submitted_at)), merged)
+      : firstReview ? null : hoursBetween(ready, merged)
+  };
+
+  return {
+    pr,
+    phases,
+    totalHours: CYCLE_PHASES.reduce((sum, phase) => sum + (phases[phase] ?? 0), 0),
+    firstReviewAt: firstReview?.submitted_at,
+    lastApprovalAt: lastApproval?.submitted_at
+  };
+}
+
+// p50, p75 and p90, each one a value a real PR had
+export function percentiles(values: number[]): Percentiles | null {
+  if (values.length === 0) return null;
+  return { p50: percentile(values, 50)!, p75: percentile(values, 75)!, p90: percentile(values, 90)! };
+}
+
+// Monday (UTC) of the week a PR was merged in, as YYYY-MM-DD
+export function mergeWeek(cycle: PRCycleTime): string {
+  const date = new Date(cycle.pr.merged_at!);
+  date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+  return date.toISOString().substring(0, 10);
+}
+
+// Per-phase percentiles for each key, e.g. per repository, author or merge week
+export function summarizeCycleTimes(cycles: PRCycleTime[], keyOf: (cycle: PRCycleTime) => string): CycleTimeSummary[] {
+  const byKey = new Map<string, PRCycleTime[]>();
+  cycles.forEach(cycle => {
+    const key = keyOf(cycle);
+    byKey.set(key, [...(byKey.get(key) || []), cycle]);
+  });
+
+  return Array.from(byKey.entries()).map(([key, group]) => ({
+    key,
+    count: group.length,
+    phases: CYCLE_PHASES.reduce((acc, phase) => ({
+      ...acc,
+      [phase]: percentiles(group.map(cycle => cycle.phases[phase]).filter((hours): hours is number => hours !== null))
+    }), {} as Record<CyclePhase, Percentiles | null>),
+    total: percentiles(group.map(cycle => cycle.totalHours))!
+  }));
+}
@@ -55,4 +55,12 @@ export function calculateDaysAgo(utcTimestamp: string): number {
   const utcDate = new Date(utcTimestamp);
   const today = new Date();
   return Math.floor((today.getTime() - utcDate.getTime()) / (24 * 60 * 60 * 1000));
-}
\ No newline at end of file
+}
+
+// "45m", "5.5h" or "3.2d" for a duration in hours; a dash when there is none
+export function formatHours(hours: number | null): string {
+  if (hours === null) return '—';
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
@@ -0,0 +1,201 @@
+import { GitHubCommit, GitHubDeployment, GitHubPR, GitHubRelease, GitHubRepository } from '@/types/github';
+import { isFailingStatus } from './checkStatusUtils';
+import { median } from './statsUtils';
+
+export type DoraBand = 'elite' | 'high' | 'medium' | 'low';
+
+// Where a repository's deployments come from: GitHub deployments to the chosen environment, or its releases without any
+export type DeploySource = 'deployments' | 'releases';
+
+export interface DoraInput {
+  commits: GitHubCommit[];
+  pullRequests: GitHubPR[];
+  releases: GitHubRelease[];
+  deployments: GitHubDeployment[];
+}
+
+export interface DeployEvent {
+  repo: string;
+  at: string;
+  failed: boolean;
+  source: DeploySource;
+}
+
+// Raw per-repository samples; groups are measured by concatenating their repositories' samples
+export interface DoraSamples {
+  source: DeploySource;
+  events: DeployEvent[];
+  leadTimes: { at: string; hours: number }[]; // One per change, dated by the deployment that shipped it
+  restores: { at: string; hours: number }[]; // One per incident, dated by the failure that started it
+}
+
+export interface DoraMetrics {
+  deployments: number;
+  deploymentsPerWeek: number;
+  leadTimeHours: number | null; // Median
+  changeFailureRate: number | null; // 0-1
+  timeToRestoreHours: number | null; // Mean
+  bands: {
+    deploymentFrequency: DoraBand;
+    leadTime: DoraBand | null;
+    changeFailureRate: DoraBand | null;
+    timeToRestore: DoraBand | null;
+  };
+}
+
+export interface DoraTrendPoint {
+  weekStart: string;
+  deployments: number;
+  leadTimeHours: number | null;
+  changeFailureRate: number | null;
+  timeToRestoreHours: number | null;
+}
+
+const HOUR = 60 * 60 * 1000;
+const WEEK = 7 * 24 * HOUR;
+
+// Band boundaries from the State of DevOps reports: the first band whose limit the value is within wins
+const DEPLOYS_PER_WEEK_BANDS: [number, DoraBand][] = [[7, 'elite'], [1, 'high'], [12 / 52, 'medium']];
+const LEAD_TIME_HOURS_BANDS: [number, DoraBand][] = [[24, 'elite'], [7 * 24, 'high'], [30 * 24, 'medium']];
+const FAILURE_RATE_BANDS: [number, DoraBand][] = [[0.15, 'elite'], [0.3, 'high'], [0.45, 'medium']];
+const RESTORE_HOURS_BANDS: [number, DoraBand][] = [[1, 'elite'], [24, 'high'], [7 * 24, 'medium']];
+
+function atLeast(value: number, bands: [number, DoraBand][]): DoraBand {
+  return bands.find(([limit]) => value >= limit)?.[1] || 'low';
+}
+
+function atMost(value: number | null, bands: [number, DoraBand][]): DoraBand | null {
+  if (value === null) return null;
+  return bands.find(([limit]) => value <= limit)?.[1] || 'low';
+}
+
+function time(date: string): number {
+  return new Date(date).getTime();
+}
+
+function mean(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Every environment deployments were made to, most used first
+export function listEnvironments(deployments: GitHubDeployment[]): string[] {
+  const counts = new Map<string, number>();
+  deployments.forEach(deployment => counts.set(deployment.environment, (counts.get(deployment.environment) || 0) + 1));
+  return Array.from(counts.entries()).sort(([, a], [, b]) => b - a).map(([environment]) => environment);
+}
+
+// A deployment's outcome is its last status that isn't INACTIVE (GitHub marks superseded deployments inactive);
+// deployments still queued or in progress have no outcome yet
+function deploymentEvent(deployment: GitHubDeployment): DeployEvent | null {
+  const outcome = [...deployment.statuses].reverse().find(status => status.state !== 'INACTIVE');
+  if (!outcome || !['SUCCESS', 'FAILURE', 'ERROR'].includes(outcome.state)) return null;
+  return { repo: deployment.repo, at: outcome.created_at, failed: outcome.state !== 'SUCCESS', source: 'deployments' };
+}
+
+// A release counts as failed when CI failed on its tagged commit
+function releaseEvent(release: GitHubRelease, commits: GitHubCommit[]): DeployEvent {
+  const tagged = release.target_sha ? commits.find(commit => commit.sha === release.target_sha) : undefined;
+  return { repo: release.repo, at: release.published_at, failed: isFailingStatus(tagged?.check_status), source: 'releases' };
+}
+
+// Changes reaching the default branch between two deployments, each with the time its work started:
+// merged PRs from their head branch's first synced commit (or creation), direct commits from their commit date
+function changesBetween(after: number, until: number, repository: GitHubRepository, commits: GitHubCommit[], pullRequests: GitHubPR[]): number[] {
+  const inRange = (date?: string) => Boolean(date) && time(date!) > after && time(date!) <= until;
+
+  const merged = pullRequests.filter(pr => pr.state === 'Merged' && inRange(pr.merged_at) && (!pr.base_branch || pr.base_branch === repository.defaultBranch));
+  if (merged.length > 0) {
+    return merged.map(pr => {
+      const branchCommits = commits
+        .filter(commit => pr.head_branch && commit.branch_name === pr.head_branch && time(commit.date) <= time(pr.merged_at!))
+        .map(commit => time(commit.date));
+      return Math.min(time(pr.created_at), ...branchCommits);
+    });
+  }
+
+  return commits
+    .filter(commit => commit.branch_name === repository.defaultBranch && inRange(commit.date))
+    .map(commit => time(commit.date));
+}
+
+// Deployments, lead times and restore times for one repository in one environment
+export function collectDoraSamples(repository: GitHubRepository, input: DoraInput, environment: string): DoraSamples {
+  const repo = repository.nameWithOwner;
+  const commits = input.commits.filter(commit => commit.repo === repo);
+  const pullRequests = input.pullRequests.filter(pr => pr.repo === repo);
+  const deployments = input.deployments.filter(deployment => deployment.repo === repo && deployment.environment === environment);
+
+  const source: DeploySource = deployments.length > 0 ? 'deployments' : 'releases';
+  const events = (source === 'deployments'
+    ? deployments.map(deploymentEvent).filter((event): event is DeployEvent => event !== null)
+    : input.releases.filter(release => release.repo === repo && !release.is_prerelease).map(release => releaseEvent(release, commits))
+  ).sort((a, b) => time(a.at) - time(b.at));
+
+  // The first successful deployment has no known starting point, so its changes aren't measured
+  const leadTimes: DoraSamples['leadTimes'] = [];
+  let previousSuccess: DeployEvent | null = null;
+  events.filter(event => !event.failed).forEach(event => {
+    if (previousSuccess) {
+      changesBetween(time(previousSuccess.at), time(event.at), repository, commits, pullRequests)
+        .forEach(started => leadTimes.push({ at: event.at, hours: (time(event.at) - started) / HOUR }));
+    }
+    previousSuccess = event;
+  });
+
+  // An incident runs from the first failed deployment to the next successful one; open incidents aren't counted
+  const restores: DoraSamples['restores'] = [];
+  let incidentStart: DeployEvent | null = null;
+  events.forEach(event => {
+    if (event.failed && !incidentStart) {
+      incidentStart = event;
+    } else if (!event.failed && incidentStart) {
+      restores.push({ at: incidentStart.at, hours: (time(event.at) - time(incidentStart.at)) / HOUR });
+      incidentStart = null;
+    }
+  });
+
+  return { source, events, leadTimes, restores };
+}
+
+// The four metrics over [since, until] for one repository's samples, or several repositories' combined
+export function summarizeDora(samples: DoraSamples[], since: Date, until: Date): DoraMetrics {
+  const inWindow = (date: string) => time(date) > since.getTime() && time(date) <= until.getTime();
+  const events = samples.flatMap(sample => sample.events).filter(event => inWindow(event.at));
+  const successful = events.filter(event => !event.failed).length;
+
+  const deploymentsPerWeek = successful / Math.max((until.getTime() - since.getTime()) / WEEK, 1 / 7);
+  const leadTimeHours = median(samples.flatMap(sample => sample.leadTimes).filter(sample => inWindow(sample.at)).map(sample => sample.hours));
+  const changeFailureRate = events.length > 0 ? (events.length - successful) / events.length : null;
+  const timeToRestoreHours = mean(samples.flatMap(sample => sample.restores).filter(sample => inWindow(sample.at)).map(sample => sample.hours));
+
+  return {
+    deployments: successful,
+    deploymentsPerWeek,
+    leadTimeHours,
+    changeFailureRate,
+    timeToRestoreHours,
+    bands: {
+      deploymentFrequency: atLeast(deploymentsPerWeek, DEPLOYS_PER_WEEK_BANDS),
+      leadTime: atMost(leadTimeHours, LEAD_TIME_HOURS_BANDS),
+      changeFailureRate: atMost(changeFailureRate, FAILURE_RATE_BANDS),
+      timeToRestore: atMost(timeToRestoreHours, RESTORE_HOURS_BANDS)
+    }
+  };
+}
+
+// Weekly values of the four metrics from `since` up to now, for trend lines
+export function doraTrend(samples: DoraSamples[], since: Date, until: Date): DoraTrendPoint[] {
+  const points: DoraTrendPoint[] = [];
+  for (let start = since.getTime(); start < until.getTime(); start += WEEK) {
+    const weekEnd = new Date(Math.min(start + WEEK, until.getTime()));
+    const metrics = summarizeDora(samples, new Date(start), weekEnd);
+    points.push({
+      weekStart: new Date(start).toISOString(),
+      deployments: metrics.deployments,
+      leadTimeHours: metrics.leadTimeHours,
+      changeFailureRate: metrics.changeFailureRate,
+      timeToRestoreHours: metrics.timeToRestoreHours
+    });
+  }
+  return points;
+}
@@ -0,0 +1,23 @@
+import { GitHubPR } from '@/types/github';
+
+export type PRSize = 'XS' | 'S' | 'M' | 'L' | 'XL';
+
+export const PR_SIZES: PRSize[] = ['XS', 'S', 'M', 'L', 'XL'];
+
+// Upper bound (exclusive) of lines changed for each size; anything larger is XL
+const SIZE_LIMITS: [number, PRSize][] = [[10, 'XS'], [50, 'S'], [250, 'M'], [1000, 'L']];
+
+export const PR_SIZE_LABELS: Record<PRSize, string> = {
+  XS: 'XS (< 10 lines)',
+  S: 'S (10-49)',
+  M: 'M (50-249)',
+  L: 'L (250-999)',
+  XL: 'XL (1000+)'
+};
+
+// Size bucket by additions + deletions; null for PRs cached before diff stats were synced
+export function prSize(pr: GitHubPR): PRSize | null {
+  if (pr.additions === undefined && pr.deletions === undefined) return null;
+  const lines = (pr.additions ?? 0) + (pr.deletions ?? 0);
+  return SIZE_LIMITS.find(([limit]) => lines < limit)?.[1] || 'XL';
+}
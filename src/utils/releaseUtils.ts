@@ -0,0 +1,64 @@
+import { GitHubCommit, GitHubPR, GitHubRelease } from '@/types/github';
+
+export interface ReleaseChanges {
+  commits: GitHubCommit[];
+  pullRequests: GitHubPR[];
+}
+
+export interface ReleaseTimelineEntry extends ReleaseChanges {
+  release: GitHubRelease;
+  previous?: GitHubRelease; // Absent for the oldest release, which gets everything synced before it
+}
+
+export interface ReleaseTimeline {
+  entries: ReleaseTimelineEntry[]; // Newest release first
+  unreleased: ReleaseChanges; // On the default branch since the newest release
+}
+
+// The tagged commit's date bounds what went into a release; publishing can happen days after tagging
+export function releaseCutoff(release: GitHubRelease): string {
+  return release.target_date || release.published_at;
+}
+
+function byDateDesc<T>(getDate: (item: T) => string) {
+  return (a: T, b: T) => new Date(getDate(b)).getTime() - new Date(getDate(a)).getTime();
+}
+
+// Commits and merged PRs on a repository's default branch, split by the release they shipped in.
+// Changes are assigned by date between consecutive releases, so a release branch cut earlier than
+// its tag is not modelled - pass only stable releases to treat prereleases as part of the next one.
+export function buildReleaseTimeline(releases: GitHubRelease[], commits: GitHubCommit[], pullRequests: GitHubPR[], defaultBranch: string): ReleaseTimeline {
+  const defaultBranchCommits = commits
+    .filter(commit => commit.branch_name === defaultBranch)
+    .sort(byDateDesc(commit => commit.date));
+  const mergedPRs = pullRequests
+    .filter(pr => pr.state === 'Merged' && pr.merged_at && (!pr.base_branch || pr.base_branch === defaultBranch))
+    .sort(byDateDesc(pr => pr.merged_at!));
+
+  const between = (after: string | undefined, until: string | undefined): ReleaseChanges => {
+    const inRange = (date: string) => {
+      const time = new Date(date).getTime();
+      return (!after || time > new Date(after).getTime()) && (!until || time <= new Date(until).getTime());
+    };
+    return {
+      commits: defaultBranchCommits.filter(commit => inRange(commit.date)),
+      pullRequests: mergedPRs.filter(pr => inRange(pr.merged_at!))
+    };
+  };
+
+  const chronological = [...releases].sort(byDateDesc(releaseCutoff)).reverse();
+  const entries = chronological.map((release, index) => {
+    const previous = index > 0 ? chronological[index - 1] : undefined;
+    return {
+      release,
+      previous,
+      ...between(previous && releaseCutoff(previous), releaseCutoff(release))
+    };
+  }).reverse();
+
+  const newest = chronological[chronological.length - 1];
+  return {
+    entries,
+    unreleased: newest ? between(releaseCutoff(newest), undefined) : between(undefined, undefined)
+  };
+}